@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Toaster, toast } from 'react-hot-toast';
 import Header from './components/Header';
 import FileUpload from './components/FileUpload';
@@ -11,19 +11,28 @@ import HistoryModal from './components/HistoryModal';
 import RatingModal from './components/RatingModal';
 import LaunchBanner from './components/LaunchBanner';
 import CreditShop from './components/CreditShop';
+import CorpusManager from './components/CorpusManager';
+import CompareView from './components/CompareView';
+import CollusionMatrix from './components/CollusionMatrix';
 import { AppStatus, DocumentState, AnalysisResult, FixResult, FixOptions, LinguisticProfile, DocumentVersion, ErrorContext } from './types';
-import { analyzeDocument, fixPlagiarism, checkApiKey } from './services/geminiService';
+import { analyzeDocument, fixPlagiarism, retryRewriteChunk, locateChunkOutput, checkApiKey } from './services/geminiService';
 import { Telemetry } from './services/telemetry';
+import { toErrorContext } from './services/modelErrors';
+import { isCancellation } from './services/cancellation';
+import { pruneCheckpoints } from './services/checkpointStore';
+import { withReferenceList } from './services/bibliographyFormats';
 import { 
-  Dna, Zap, AlertCircle, RefreshCcw, Mic, 
+  Dna, Zap, AlertCircle, RefreshCcw, Mic, XCircle, PlayCircle,
   GraduationCap, Sparkles, Star, ShieldCheck, Heart,
   Presentation, ScrollText, Fingerprint, 
-  Search, CheckCircle, Linkedin, Coins, Languages
+  Search, CheckCircle, Linkedin, Coins, Languages, Database, ScanSearch, GitCompare, Grid3x3
 } from 'lucide-react';
 
 const SESSION_KEY = 'plagiafix_active_session_v14_final';
 const THEME_KEY = 'plagiafix_theme_preference';
 const CREDITS_KEY = 'plagiafix_neural_credits_v1';
+const PARAPHRASE_KEY = 'plagiafix_paraphrase_check';
+const CROSS_LINGUAL_KEY = 'plagiafix_cross_lingual';
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
@@ -41,14 +50,22 @@ const App: React.FC = () => {
   const [isVaultOpen, setIsVaultOpen] = useState(false);
   const [isLiveStudioOpen, setIsLiveStudioOpen] = useState(false);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isCorpusOpen, setIsCorpusOpen] = useState(false);
+  const [isCollusionOpen, setIsCollusionOpen] = useState(false);
+  const [landingMode, setLandingMode] = useState<'scan' | 'compare'>('scan');
   const [isRatingOpen, setIsRatingOpen] = useState(false);
   const [isShopOpen, setIsShopOpen] = useState(false);
   const [countryCode, setCountryCode] = useState('NG');
+  const activeJob = useRef<AbortController | null>(null);
+  const lastJob = useRef<{ kind: 'scan'; text: string; fileName: string } | { kind: 'fix'; options: FixOptions } | null>(null);
   const [credits, setCredits] = useState<number>(() => {
     const saved = localStorage.getItem(CREDITS_KEY);
     return saved ? parseInt(saved) : 0;
   });
   
+  const [paraphraseCheck, setParaphraseCheck] = useState<boolean>(() => localStorage.getItem(PARAPHRASE_KEY) === 'on');
+  const [crossLingual, setCrossLingual] = useState<boolean>(() => localStorage.getItem(CROSS_LINGUAL_KEY) === 'on');
+  
   const [darkMode, setDarkMode] = useState<boolean>(() => {
     const saved = localStorage.getItem(THEME_KEY);
     if (saved) return saved === 'dark';
@@ -59,6 +76,14 @@ const App: React.FC = () => {
     localStorage.setItem(CREDITS_KEY, credits.toString());
   }, [credits]);
 
+  useEffect(() => {
+    localStorage.setItem(PARAPHRASE_KEY, paraphraseCheck ? 'on' : 'off');
+  }, [paraphraseCheck]);
+
+  useEffect(() => {
+    localStorage.setItem(CROSS_LINGUAL_KEY, crossLingual ? 'on' : 'off');
+  }, [crossLingual]);
+
   useEffect(() => {
     if (darkMode) {
       document.documentElement.classList.add('dark');
@@ -119,6 +144,7 @@ const App: React.FC = () => {
               }
           }
           Telemetry.logVisit();
+          pruneCheckpoints();
       } catch (e) { 
         console.error("Connection failure", e); 
       } finally { 
@@ -128,21 +154,55 @@ const App: React.FC = () => {
     initApp();
   }, []);
 
+  // Only one scan or rewrite runs at a time; starting a new one aborts the previous job
+  const startJob = () => {
+    activeJob.current?.abort();
+    const job = new AbortController();
+    activeJob.current = job;
+    return job;
+  };
+
+  const finishJob = (job: AbortController) => {
+    if (activeJob.current === job) activeJob.current = null;
+  };
+
+  // A cancelled job stays registered until its handler unwinds, so the handler can tell
+  // a user cancel (restore previous state) from a reset or a newer job (leave state alone)
+  const handleCancelJob = () => {
+    if (!activeJob.current || activeJob.current.signal.aborted) return;
+    Telemetry.logCancel(status === AppStatus.FIXING ? 'Fix' : 'Scan', scanProgress.percent);
+    activeJob.current.abort();
+    toast('Job cancelled. Nothing was changed.', { icon: '⏹️' });
+  };
+
   const handleTextLoaded = async (text: string, fileName: string) => {
     if (!checkApiKey()) { toast.error('API Key Missing.'); return; }
+    const previous = { document: activeDocument, title: docTitle, status };
+    const job = startJob();
+    lastJob.current = { kind: 'scan', text, fileName };
     setActiveDocument({ originalText: text, fileName });
     setDocTitle(fileName.replace(/\.[^/.]+$/, ""));
+    setScanProgress({ percent: 0, step: '' });
     setStatus(AppStatus.ANALYZING);
     try {
-      const result = await analyzeDocument(text, (percent, step) => setScanProgress({ percent, step }));
+      const result = await analyzeDocument(text, (percent, step) => setScanProgress({ percent, step }), job.signal, { paraphraseCheck, crossLingual });
       setAnalysis(result);
       setStatus(AppStatus.IDLE); 
       setVersions([{ id: Math.random().toString(36).substr(2,9), timestamp: Date.now(), text, label: 'Initial Check', score: result.plagiarismScore, aiProbability: result.aiProbability, bibliography: result.sourcesFound }]);
       Telemetry.logScan(text.length, result.detectedIssues);
     } catch (error: any) {
-      setErrorContext({ code: 'SCAN_FAILURE', message: error.message, actionableAdvice: 'Please try again.' });
+      if (isCancellation(error)) {
+        if (activeJob.current !== job) return;
+        setActiveDocument(previous.document);
+        setDocTitle(previous.title);
+        setStatus(previous.status);
+        return;
+      }
+      setErrorContext(toErrorContext(error, 'SCAN_FAILURE', 'Please try again.'));
       setStatus(AppStatus.ERROR);
       Telemetry.logError(`Scan failed: ${error.message}`);
+    } finally {
+      finishJob(job);
     }
   };
 
@@ -156,11 +216,15 @@ const App: React.FC = () => {
       return;
     }
 
+    const previousStatus = status;
+    const job = startJob();
+    lastJob.current = { kind: 'fix', options };
+    setScanProgress({ percent: 0, step: '' });
     setStatus(AppStatus.FIXING);
     try {
       const allProfiles = [...profiles, ...(SYSTEM_ARCHETYPES as LinguisticProfile[])];
       const active = allProfiles.find(p => p.id === options.styleProfileId);
-      const result = await fixPlagiarism(activeDocument.originalText, analysis.detectedIssues, options, analysis.sourcesFound || [], (p, msg) => setScanProgress({ percent: p, step: msg }), active?.sample);
+      const result = await fixPlagiarism(activeDocument.originalText, analysis.detectedIssues, options, withReferenceList(analysis.sourcesFound || [], analysis.referenceList || [], options.citationStyle), (p, msg) => setScanProgress({ percent: p, step: msg }), active?.sample, job.signal);
       
       if (isPremium) setCredits(prev => Math.max(0, prev - 1));
       
@@ -168,15 +232,67 @@ const App: React.FC = () => {
       setVersions(prev => [...prev, { id: Math.random().toString(36).substr(2,9), timestamp: Date.now(), text: result.rewrittenText, label: `Improved Version`, score: result.newPlagiarismScore, aiProbability: result.newAiProbability, bibliography: result.bibliography }]);
       setStatus(AppStatus.COMPLETED);
       
-      toast.success(`Humanization Complete!`, { icon: '🎓' });
+      const failedSections = (result.chunkOutcomes || []).filter(o => o.status !== 'OK').length;
+      if (failedSections > 0) toast.error(`${failedSections} ${failedSections === 1 ? 'section' : 'sections'} could not be fully rewritten. They are marked in the editor.`, { duration: 6000 });
+      else toast.success(`Humanization Complete!`, { icon: '🎓' });
       await Telemetry.logFix(result.rewrittenText.length, options);
     } catch (error: any) {
-      setErrorContext({ code: 'FIX_FAILURE', message: error.message, actionableAdvice: 'Try a shorter document.' });
+      if (isCancellation(error)) {
+        if (activeJob.current === job) setStatus(previousStatus);
+        return;
+      }
+      setErrorContext(toErrorContext(error, 'FIX_FAILURE', 'Try a shorter document.'));
       setStatus(AppStatus.ERROR);
       Telemetry.logError(`Fix failed: ${error.message}`);
+    } finally {
+      finishJob(job);
+    }
+  };
+
+  const handleRetryChunk = async (index: number, options: FixOptions) => {
+    const outcome = fixResult?.chunkOutcomes?.[index];
+    if (!activeDocument || !analysis || !outcome) return;
+    const allProfiles = [...profiles, ...(SYSTEM_ARCHETYPES as LinguisticProfile[])];
+    const active = allProfiles.find(p => p.id === options.styleProfileId);
+    // A retry is a job too, so a reset or a newer scan or rewrite cancels it
+    const job = startJob();
+    try {
+      const next = await retryRewriteChunk(activeDocument.originalText, outcome, options, withReferenceList(analysis.sourcesFound || [], analysis.referenceList || [], options.citationStyle), active?.sample, job.signal);
+      if (job.signal.aborted) return;
+      setFixResult(prev => {
+        const current = prev?.chunkOutcomes?.[index];
+        if (!prev || !current) return prev;
+        const at = locateChunkOutput(prev.rewrittenText, current);
+        if (at < 0) return prev;
+        // Sections after the retried one move by the change in length
+        const shift = next.output.length - current.output.length;
+        return {
+          ...prev,
+          rewrittenText: prev.rewrittenText.slice(0, at) + next.output + prev.rewrittenText.slice(at + current.output.length),
+          chunkOutcomes: prev.chunkOutcomes!.map(o => o.index === index
+            ? { ...next, outputStart: at, outputEnd: at + next.output.length }
+            : o.outputStart > current.outputStart ? { ...o, outputStart: o.outputStart + shift, outputEnd: o.outputEnd + shift } : o)
+        };
+      });
+      if (next.status === 'OK') toast.success(`Section ${index + 1} rewritten.`);
+      else toast.error(`Section ${index + 1} still needs attention: ${next.note}`);
+    } catch (error: any) {
+      if (isCancellation(error)) return;
+      toast.error(error.message);
+      Telemetry.logError(`Section retry failed: ${error.message}`);
+    } finally {
+      finishJob(job);
     }
   };
 
+  // Re-runs the failed job; finished chunks come back from their checkpoints
+  const handleResume = () => {
+    const job = lastJob.current;
+    if (!job) return;
+    if (job.kind === 'scan') handleTextLoaded(job.text, job.fileName);
+    else handleFixPlagiarism(job.options);
+  };
+
   const handleSaveManualVersion = (label: string) => {
     if (!analysis) return;
     const text = fixResult ? fixResult.rewrittenText : (activeDocument?.originalText || '');
@@ -196,6 +312,8 @@ const App: React.FC = () => {
   };
 
   const handleReset = () => {
+    activeJob.current?.abort();
+    activeJob.current = null;
     setActiveDocument(null);
     setAnalysis(null);
     setFixResult(null);
@@ -259,8 +377,17 @@ const App: React.FC = () => {
               <div className="max-w-4xl mx-auto py-24 px-16 bg-white dark:bg-slate-900 rounded-[4rem] shadow-2xl border border-rose-100 dark:border-rose-900/30 flex flex-col items-center text-center">
                  <AlertCircle className="w-20 h-20 text-rose-500 mb-10" />
                  <h2 className="text-5xl font-black text-slate-900 dark:text-white uppercase mb-6">Error</h2>
-                 <p className="text-xl text-slate-600 dark:text-slate-400 mb-12">{errorContext.message}</p>
-                 <button onClick={() => setStatus(AppStatus.IDLE)} className="px-16 py-7 bg-indigo-600 text-white rounded-[2rem] font-black uppercase tracking-widest shadow-xl">Try Again</button>
+                 <p className="text-xl text-slate-600 dark:text-slate-400 mb-6">{errorContext.message}</p>
+                 <p className="text-sm font-bold text-slate-500 dark:text-slate-500 mb-12 max-w-2xl">{errorContext.actionableAdvice}</p>
+                 {errorContext.technicalDetails && (
+                   <pre className="w-full max-w-2xl mb-12 p-6 bg-slate-50 dark:bg-slate-800 rounded-2xl text-left text-[11px] text-slate-500 whitespace-pre-wrap break-words max-h-48 overflow-y-auto">{errorContext.technicalDetails}</pre>
+                 )}
+                 <div className="flex flex-wrap justify-center gap-4">
+                   {errorContext.resumable && (
+                     <button onClick={handleResume} className="flex items-center gap-3 px-16 py-7 bg-emerald-600 text-white rounded-[2rem] font-black uppercase tracking-widest shadow-xl"><PlayCircle className="w-5 h-5" /> Resume</button>
+                   )}
+                   <button onClick={() => setStatus(AppStatus.IDLE)} className="px-16 py-7 bg-indigo-600 text-white rounded-[2rem] font-black uppercase tracking-widest shadow-xl">Try Again</button>
+                 </div>
               </div>
             )}
 
@@ -277,6 +404,10 @@ const App: React.FC = () => {
                   
                   <div className="flex justify-center gap-4 mb-16">
                     <button onClick={() => setIsVaultOpen(true)} className="flex items-center gap-3 px-8 py-4 bg-slate-900 dark:bg-slate-800 text-white rounded-2xl font-black uppercase tracking-widest shadow-2xl transition-all hover:bg-black dark:hover:bg-slate-700 text-[11px]"><Dna className="w-4 h-4 text-indigo-400" /> Writing Styles</button>
+                    <button onClick={() => { setIsCorpusOpen(true); Telemetry.logFeature('Corpus'); }} className="flex items-center gap-3 px-8 py-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white rounded-2xl font-black uppercase tracking-widest shadow-xl transition-all hover:border-indigo-400 text-[11px]"><Database className="w-4 h-4 text-emerald-600" /> Reference Corpus</button>
+                    <button onClick={() => { setIsCollusionOpen(true); Telemetry.logFeature('Collusion'); }} className="flex items-center gap-3 px-8 py-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white rounded-2xl font-black uppercase tracking-widest shadow-xl transition-all hover:border-indigo-400 text-[11px]"><Grid3x3 className="w-4 h-4 text-rose-600" /> Batch Collusion</button>
+                    <button onClick={() => setParaphraseCheck(on => !on)} title="Also compare sentences by meaning against your corpus and found sources" className={`flex items-center gap-3 px-8 py-4 border rounded-2xl font-black uppercase tracking-widest shadow-xl transition-all text-[11px] ${paraphraseCheck ? 'bg-emerald-600 border-emerald-600 text-white' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white hover:border-indigo-400'}`}><ScanSearch className={`w-4 h-4 ${paraphraseCheck ? 'text-white' : 'text-indigo-600'}`} /> Paraphrase Check {paraphraseCheck ? 'On' : 'Off'}</button>
+                    <button onClick={() => setCrossLingual(on => !on)} title="Also translate passages and compare them with sources written in other languages" className={`flex items-center gap-3 px-8 py-4 border rounded-2xl font-black uppercase tracking-widest shadow-xl transition-all text-[11px] ${crossLingual ? 'bg-emerald-600 border-emerald-600 text-white' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white hover:border-indigo-400'}`}><Languages className={`w-4 h-4 ${crossLingual ? 'text-white' : 'text-indigo-600'}`} /> Cross-Language {crossLingual ? 'On' : 'Off'}</button>
                     <button onClick={() => setIsShopOpen(true)} className="flex items-center gap-3 px-8 py-4 bg-indigo-600 text-white rounded-2xl font-black uppercase tracking-widest shadow-xl transition-all hover:bg-indigo-700 text-[11px]">
                       <Coins className="w-4 h-4" /> {credits > 0 ? `${credits} Credits` : 'Get Credits'}
                     </button>
@@ -284,7 +415,15 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
-                <FileUpload onTextLoaded={handleTextLoaded} isLoading={false} />
+                <div className="flex justify-center gap-2 mb-8">
+                  {([['scan', 'Scan a Document', ScanSearch], ['compare', 'Compare Two Documents', GitCompare]] as const).map(([mode, label, Icon]) => (
+                    <button key={mode} onClick={() => setLandingMode(mode)} className={`flex items-center gap-3 px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest border transition-all ${landingMode === mode ? 'bg-slate-900 text-white border-slate-900 dark:bg-indigo-600 dark:border-indigo-600' : 'bg-white dark:bg-slate-900 text-slate-500 border-slate-200 dark:border-slate-800 hover:border-indigo-400'}`}>
+                      <Icon className="w-4 h-4" /> {label}
+                    </button>
+                  ))}
+                </div>
+
+                {landingMode === 'compare' ? <CompareView /> : <FileUpload onTextLoaded={handleTextLoaded} isLoading={false} />}
 
                 {/* OUR MISSION SECTION - NOW FIRST */}
                 <div className="mt-40 grid grid-cols-1 lg:grid-cols-2 gap-16 items-center bg-white dark:bg-slate-900 rounded-[4rem] p-12 lg:p-20 border border-slate-100 dark:border-slate-800 shadow-2xl">
@@ -371,6 +510,7 @@ const App: React.FC = () => {
                    <div className="overflow-hidden h-2.5 mb-4 flex rounded-full bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 p-0.5">
                      <div style={{ width: `${scanProgress.percent}%` }} className="shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center transition-all duration-700 rounded-full bg-indigo-600"></div>
                    </div>
+                   <button onClick={handleCancelJob} className="mt-8 inline-flex items-center gap-3 px-10 py-4 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 rounded-2xl font-black uppercase tracking-widest text-[11px] transition-all hover:border-rose-400 hover:text-rose-600"><XCircle className="w-4 h-4" /> Cancel</button>
                 </div>
               </div>
             )}
@@ -379,12 +519,13 @@ const App: React.FC = () => {
               <div className="animate-in fade-in duration-1000">
                 <AnalysisView 
                   originalText={activeDocument.originalText} analysis={analysis} fixResult={fixResult} status={status} 
-                  onFix={handleFixPlagiarism} onUpdateText={(t) => fixResult && setFixResult({...fixResult, rewrittenText: t})} onReset={handleReset} 
+                  onFix={handleFixPlagiarism} onUpdateText={(t) => fixResult && setFixResult({...fixResult, rewrittenText: t})} onRetryChunk={handleRetryChunk} onReset={handleReset} 
                   onOpenHistory={() => setIsHistoryOpen(true)}
                   onSaveVersion={handleSaveManualVersion}
                   onOpenRating={() => setIsRatingOpen(true)}
                   credits={credits}
                   scoreHistory={versions.map(v => v.aiProbability)} profiles={profiles} activeProfileId={activeProfileId} onProfileSelect={setActiveProfileId} onAddProfile={(p) => setProfiles(prev => [...prev, p])}
+                  onExclusionsChange={(exclusions) => setAnalysis(prev => prev && { ...prev, exclusions })}
                 />
               </div>
             )}
@@ -394,6 +535,8 @@ const App: React.FC = () => {
           {isLiveStudioOpen && <LiveStudio initialMode="IvyStealth" onCommit={(text) => { handleTextLoaded(text, 'Text Input'); setIsLiveStudioOpen(false); }} onClose={() => setIsLiveStudioOpen(false)} />}
           {isHistoryOpen && <HistoryModal versions={versions} onRestore={handleRestoreVersion} onClose={() => setIsHistoryOpen(false)} />}
           {isRatingOpen && <RatingModal onClose={() => setIsRatingOpen(false)} />}
+          {isCorpusOpen && <CorpusManager onClose={() => setIsCorpusOpen(false)} />}
+          {isCollusionOpen && <CollusionMatrix onClose={() => setIsCollusionOpen(false)} />}
           {isShopOpen && <CreditShop onClose={() => setIsShopOpen(false)} onPurchase={(amt) => { setCredits(prev => prev + amt); setIsShopOpen(false); toast.success(`${amt} Pass Active!`); }} defaultCurrency={countryCode === 'NG' ? 'NGN' : 'USD'} />}
           
           <footer className="py-20 px-12 border-t border-slate-100 dark:border-slate-900 bg-white dark:bg-slate-950 mt-40">
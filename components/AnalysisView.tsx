@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { AnalysisResult, AppStatus, FixResult, FixOptions, CitationStyle, TargetLanguage, LinguisticProfile, SourceMatch, SummaryMemo } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { AnalysisResult, AppStatus, FixResult, FixOptions, CitationStyle, TargetLanguage, LinguisticProfile, SourceMatch, SummaryMemo, MatchedRange, ExclusionSettings } from '../types';
 import ScoreGauge from './ScoreGauge';
 import { 
   ShieldAlert, RefreshCw, Zap, 
@@ -31,13 +31,26 @@ import {
   MapPin,
   MessageSquare,
   Lock as LockIcon,
-  Crown
+  Crown,
+  Code2,
+  Filter,
+  EyeOff,
+  Ban,
+  Upload
 } from 'lucide-react';
-import { downloadPdf, downloadDocx } from '../services/exportService';
+import { downloadPdf, downloadDocx, downloadBibliography } from '../services/exportService';
 import { generatePptx } from '../services/slideGenerator';
 import { generateSlides, generateSummary } from '../services/geminiService';
 import StyleDNAVault, { SYSTEM_ARCHETYPES } from './StyleDNAVault';
+import ParagraphRiskMap from './ParagraphRiskMap';
+import RewriteEditor from './RewriteEditor';
 import { Telemetry } from '../services/telemetry';
+import { DEFAULT_EXCLUSIONS, applyExclusions, detectExclusionZones, hostOf, sourceSpans } from '../services/exclusions';
+import { citationKind, formatInTextCitation, formatReference, stripCitationMarkup } from '../services/citationFormatter';
+import { BIBLIOGRAPHY_FORMATS, BibliographyFormat, mergeBibliography, parseBibliography, withReferenceList } from '../services/bibliographyFormats';
+import { CITATION_FIELDS, CITATION_FIELD_LABELS, ResolvedSource, applyResolvedMetadata, resolveSourceMetadata } from '../services/metadataResolver';
+import { checkCitationIntegrity } from '../services/citationIntegrity';
+import { checkReferenceFormatting } from '../services/referenceParser';
 import toast from 'react-hot-toast';
 
 interface AnalysisViewProps {
@@ -47,6 +60,7 @@ interface AnalysisViewProps {
   status: AppStatus;
   onFix: (options: FixOptions) => void;
   onUpdateText: (newText: string) => void;
+  onRetryChunk: (index: number, options: FixOptions) => Promise<void>;
   onReset: () => void;
   onOpenHistory: () => void;
   onSaveVersion: (label: string) => void;
@@ -57,6 +71,7 @@ interface AnalysisViewProps {
   activeProfileId: string | null;
   onProfileSelect: (id: string | null) => void;
   onAddProfile: (profile: LinguisticProfile) => void;
+  onExclusionsChange: (exclusions: ExclusionSettings) => void;
 }
 
 const CITATION_STYLES: CitationStyle[] = [
@@ -67,6 +82,11 @@ const CITATION_STYLES: CitationStyle[] = [
   'MHRA (Humanities)', 'ACS (Chemical Society)', 'AGU (Geophysical Union)'
 ];
 
+type CitationSort = 'similarity' | 'impact' | 'title';
+
+const SIMILARITY_FILTERS = [0, 25, 50, 75];
+const MIN_MATCH_WORDS = [0, 8, 15, 25];
+
 const LANGUAGES: TargetLanguage[] = [
   'English (United States - Academic)', 'English (United Kingdom - Oxford)', 'English (Canada - Standard)',
   'English (Australia - Professional)', 'English (International - Scholarly)', 'Spanish (Spain - Castilian Professional)',
@@ -78,9 +98,9 @@ const LANGUAGES: TargetLanguage[] = [
 ];
 
 const AnalysisView: React.FC<AnalysisViewProps> = ({ 
-  originalText, analysis, fixResult, status, onFix, onUpdateText, onReset, 
+  originalText, analysis, fixResult, status, onFix, onUpdateText, onRetryChunk, onReset, 
   onOpenHistory, onSaveVersion, onOpenRating, credits,
-  scoreHistory = [], profiles, activeProfileId, onProfileSelect, onAddProfile
+  scoreHistory = [], profiles, activeProfileId, onProfileSelect, onAddProfile, onExclusionsChange
 }) => {
   const isFixing = status === AppStatus.FIXING;
   const [viewMode, setViewMode] = useState<'editor' | 'citations'>('editor');
@@ -90,15 +110,57 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({
   const [showDNAVault, setShowDNAVault] = useState(false);
   
   const [localBibliography, setLocalBibliography] = useState<SourceMatch[]>([]);
+  const [importedSources, setImportedSources] = useState<SourceMatch[]>([]);
+  const [resolvedMetadata, setResolvedMetadata] = useState<Record<string, ResolvedSource>>({});
+  const [isVerifying, setIsVerifying] = useState(false);
   const [summary, setSummary] = useState<SummaryMemo | null>(null);
+  const [retryingChunk, setRetryingChunk] = useState<number | null>(null);
+  const [citationSort, setCitationSort] = useState<CitationSort>('similarity');
+  const [minSimilarity, setMinSimilarity] = useState(0);
+
+  // Exclusions are re-applied to the stored results; changing them never calls the model
+  const exclusions = analysis.exclusions || DEFAULT_EXCLUSIONS;
+  const adjusted = useMemo(() => applyExclusions(originalText, analysis, exclusions), [originalText, analysis, exclusions]);
+  const exclusionZones = useMemo(() => analysis.exclusionZones ?? detectExclusionZones(originalText), [analysis.exclusionZones, originalText]);
+  const quoteCount = exclusionZones.filter(z => z.kind !== 'BIBLIOGRAPHY').length;
+  const hasBibliography = exclusionZones.some(z => z.kind === 'BIBLIOGRAPHY');
+  // Leaving out a source nothing in the document is tied to could not change the score
+  const placedSources = useMemo(() => analysis.sourcesFound.filter(s => sourceSpans(s, analysis.paragraphBreakdown).length > 0), [analysis.sourcesFound, analysis.paragraphBreakdown]);
+
+  const updateExclusions = (next: Partial<ExclusionSettings>) => {
+    Telemetry.logFeature('Exclusions');
+    onExclusionsChange({ ...exclusions, ...next });
+  };
 
   useEffect(() => {
+    // The document's own reference list joins the sources analysis found, and imported references follow, without repeating any of them
+    const withMetadata = (sources: SourceMatch[]) => mergeBibliography(withReferenceList(sources, analysis.referenceList || [], citationStyle), importedSources).sources
+      .map(s => resolvedMetadata[s.id] ? applyResolvedMetadata(s, resolvedMetadata[s.id]) : s);
     if (fixResult?.bibliography && fixResult.bibliography.length > 0) {
-      setLocalBibliography(fixResult.bibliography);
+      setLocalBibliography(withMetadata(fixResult.bibliography));
     } else if (analysis.sourcesFound) {
-      setLocalBibliography(analysis.sourcesFound);
+      setLocalBibliography(withMetadata(adjusted.sourcesFound));
     }
-  }, [fixResult, analysis]);
+  }, [fixResult, analysis, adjusted, importedSources, resolvedMetadata, citationStyle]);
+
+  const referenceProblems = useMemo(() => checkReferenceFormatting(analysis.referenceList || [], citationStyle), [analysis.referenceList, citationStyle]);
+  const referenceProblemCount = [...referenceProblems.values()].filter(p => p.length > 0).length;
+
+  const unverifiedSources = localBibliography.filter(s => !s.verification && s.type !== 'CORPUS');
+
+  // The rewrite's citations are checked against the reference list it will be exported with
+  const citationReport = useMemo(() => fixResult ? checkCitationIntegrity(fixResult.rewrittenText, localBibliography, citationStyle) : null,
+    [fixResult, localBibliography, citationStyle]);
+
+  // The document's own references stay listed whatever their match, since its citations point at them
+  const visibleSources = useMemo(() => localBibliography
+    .filter(s => s.similarity >= minSimilarity || !!s.referenceText)
+    .sort((a, b) => citationSort === 'title'
+      ? a.title.localeCompare(b.title)
+      : citationSort === 'impact'
+        ? b.impactScore - a.impactScore || b.similarity - a.similarity
+        : b.similarity - a.similarity || b.impactScore - a.impactScore),
+  [localBibliography, citationSort, minSimilarity]);
 
   const currentProfile = profiles.find(p => p.id === activeProfileId) || 
                          SYSTEM_ARCHETYPES.find(p => p.id === activeProfileId) || 
@@ -107,36 +169,98 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({
   const isPremiumActive = activeProfileId !== 'sys_ug';
   const needsCredits = isPremiumActive && credits <= 0;
 
+  const currentFixOptions = (): FixOptions => ({ 
+    mode: 'IvyStealth', 
+    strength: stealthIntensity, 
+    includeCitations: true, 
+    citationStyle, 
+    language: targetLanguage, 
+    styleProfileId: activeProfileId || undefined 
+  });
+
   const handleRunFix = () => {
     if (fixResult) {
       Telemetry.logRefine();
     }
-    onFix({ 
-      mode: 'IvyStealth', 
-      strength: stealthIntensity, 
-      includeCitations: true, 
-      citationStyle, 
-      language: targetLanguage, 
-      styleProfileId: activeProfileId || undefined 
-    });
+    onFix(currentFixOptions());
+  };
+
+  const handleRetryChunk = async (index: number) => {
+    setRetryingChunk(index);
+    try {
+      await onRetryChunk(index, currentFixOptions());
+    } finally {
+      setRetryingChunk(null);
+    }
   };
 
   const handleExportDocx = () => {
     Telemetry.logFeature('Export DOCX');
-    downloadDocx(fixResult?.rewrittenText || originalText, 'PlagiaFix_V14_Output', localBibliography);
+    downloadDocx(fixResult?.rewrittenText || originalText, 'PlagiaFix_V14_Output', localBibliography, citationStyle);
+  };
+
+  const handleImportBibliography = async (file: File) => {
+    Telemetry.logFeature('Bibliography Import');
+    try {
+      const entries = parseBibliography(await file.text());
+      if (entries.length === 0) {
+        toast.error("No References Found In File");
+        return;
+      }
+      const { added, duplicates } = mergeBibliography(localBibliography, entries);
+      setImportedSources(prev => mergeBibliography(prev, entries).sources);
+      toast.success(`${added} Reference${added === 1 ? '' : 's'} Imported${duplicates ? ` · ${duplicates} Already Listed` : ''}`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Bibliography import failed.');
+    }
+  };
+
+  const handleVerifyMetadata = async () => {
+    Telemetry.logFeature('Metadata Verify');
+    setIsVerifying(true);
+    const resolved: Record<string, ResolvedSource> = {};
+    let failed = 0;
+    // One lookup at a time keeps within the registry's polite rate limits
+    for (const source of unverifiedSources) {
+      try {
+        const result = await resolveSourceMetadata(source);
+        if (result) resolved[source.id] = result;
+      } catch (e) {
+        console.warn('Metadata lookup failed', source.title, e);
+        failed++;
+      }
+    }
+    setResolvedMetadata(prev => ({ ...prev, ...resolved }));
+    setIsVerifying(false);
+    const verified = Object.keys(resolved).length;
+    if (failed === unverifiedSources.length) toast.error('Metadata Service Unreachable');
+    else toast.success(`${verified} of ${unverifiedSources.length} Source${unverifiedSources.length === 1 ? '' : 's'} Verified`);
+  };
+
+  const handleExportBibliography = (format: BibliographyFormat) => {
+    Telemetry.logFeature(`Export ${BIBLIOGRAPHY_FORMATS[format].label}`);
+    downloadBibliography(localBibliography, format);
   };
 
   const handleGenerateSummary = async () => {
     Telemetry.logFeature('Executive Summary');
-    const memo = await generateSummary(fixResult?.rewrittenText || originalText);
-    setSummary(memo);
-    toast.success("Executive Memo Prepared");
+    try {
+      const memo = await generateSummary(fixResult?.rewrittenText || originalText);
+      setSummary(memo);
+      toast.success("Executive Memo Prepared");
+    } catch (e: any) {
+      toast.error(e.message || 'Executive Memo failed.');
+    }
   };
 
   const handleGenerateSlides = async () => {
     Telemetry.logFeature('Presentation');
-    const slides = await generateSlides(fixResult?.rewrittenText || originalText);
-    generatePptx(slides, 'Research_Synthesis');
+    try {
+      const slides = await generateSlides(fixResult?.rewrittenText || originalText);
+      generatePptx(slides, 'Research_Synthesis');
+    } catch (e: any) {
+      toast.error(e.message || 'Slide generation failed.');
+    }
   };
 
   const handleShare = async () => {
@@ -147,7 +271,18 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({
   };
 
   const currentAiRisk = fixResult ? fixResult.newAiProbability : analysis.aiProbability;
-  const currentPlagRisk = fixResult ? fixResult.newPlagiarismScore : analysis.plagiarismScore;
+  const currentPlagRisk = fixResult ? fixResult.newPlagiarismScore : adjusted.plagiarismScore;
+  const exclusionNote = adjusted.plagiarismScore !== analysis.plagiarismScore ? ` Exclusions change it from ${analysis.plagiarismScore}% to ${adjusted.plagiarismScore}%.` : '';
+  // Parts the model refused or cut off are excluded from the scores above; say so next to them
+  const unscoredChunks = (analysis.chunkDiagnostics || []).filter(d => d.status !== 'OK');
+  // Checks that failed found nothing only because they never finished
+  const failedChecks = [
+    { label: 'Local corpus check', outcome: analysis.corpusCheck },
+    { label: 'Paraphrase check', outcome: analysis.paraphraseCheck },
+    { label: 'Cross-language check', outcome: analysis.crossLingualCheck }
+  ].filter(c => c.outcome?.status === 'FAILED');
+  // Code is checked against the corpus apart from the prose scores
+  const codeAnalysis = fixResult ? undefined : analysis.codeAnalysis;
 
   return (
     <div className="max-w-[1700px] mx-auto grid grid-cols-1 lg:grid-cols-12 gap-10 animate-in fade-in duration-700 pb-20">
@@ -228,10 +363,172 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({
               <Activity className="w-4 h-4 text-indigo-500" />
            </div>
            <div className="grid grid-cols-1 gap-6">
-              <ScoreGauge score={currentAiRisk} label="AI Detection Risk" />
-              <ScoreGauge score={currentPlagRisk} label="Plagiarism Match" />
+              <ScoreGauge 
+                score={currentAiRisk} label="AI Detection Risk" 
+                explanation={fixResult ? undefined : analysis.scoreBreakdown?.explanation.aiProbability} 
+                sections={fixResult ? [] : (analysis.scoreBreakdown?.sections || []).map(s => ({ heading: s.heading, score: s.aiProbability }))} 
+              />
+              <ScoreGauge 
+                score={currentPlagRisk} label="Plagiarism Match" 
+                explanation={fixResult ? undefined : analysis.scoreBreakdown ? analysis.scoreBreakdown.explanation.plagiarismScore + exclusionNote : undefined} 
+                sections={fixResult ? [] : (analysis.scoreBreakdown?.sections || []).map(s => ({ heading: s.heading, score: s.plagiarismScore }))} 
+              />
            </div>
+           {!fixResult && unscoredChunks.length > 0 && (
+              <div className="p-5 bg-rose-50/60 dark:bg-rose-950/10 rounded-2xl border border-rose-100 dark:border-rose-900/30 space-y-4">
+                 <div className="flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 text-rose-500 shrink-0" />
+                    <p className="text-[9px] font-black text-rose-700 dark:text-rose-400 uppercase tracking-widest">{unscoredChunks.length} of {analysis.chunkDiagnostics!.length} parts not scored</p>
+                 </div>
+                 {unscoredChunks.map(d => (
+                    <div key={d.index} className="space-y-1">
+                       <p className="text-[9px] font-black uppercase tracking-widest text-slate-500">
+                          Part {d.index + 1} · <span className="text-rose-600">{d.status === 'TRUNCATED' ? 'Cut off' : 'Refused'}</span>{d.finishReason ? ` · ${d.finishReason}` : ''}
+                       </p>
+                       <p className="text-[11px] font-medium text-slate-500 dark:text-slate-400 italic line-clamp-2">"{originalText.slice(d.start, d.end).trim().slice(0, 160)}…"</p>
+                       {d.reason && <p className="text-[11px] font-medium text-slate-600 dark:text-slate-300">{d.reason}</p>}
+                    </div>
+                 ))}
+              </div>
+           )}
+           {!fixResult && failedChecks.length > 0 && (
+              <div className="p-5 bg-amber-50/60 dark:bg-amber-950/10 rounded-2xl border border-amber-100 dark:border-amber-900/30 space-y-4">
+                 <div className="flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0" />
+                    <p className="text-[9px] font-black text-amber-700 dark:text-amber-400 uppercase tracking-widest">{failedChecks.length === 1 ? '1 check' : `${failedChecks.length} checks`} did not run</p>
+                 </div>
+                 {failedChecks.map(c => (
+                    <div key={c.label} className="space-y-1">
+                       <p className="text-[9px] font-black uppercase tracking-widest text-slate-500">{c.label} · <span className="text-amber-600">Failed</span></p>
+                       <p className="text-[11px] font-medium text-slate-600 dark:text-slate-300">Its matches are missing from this report, not absent from the document.{c.outcome?.reason ? ` ${c.outcome.reason}` : ''}</p>
+                    </div>
+                 ))}
+              </div>
+           )}
         </div>
+
+        {!fixResult && (
+          <div className="bg-white dark:bg-slate-900 rounded-[3rem] p-8 border border-slate-100 dark:border-slate-800 shadow-xl space-y-6">
+             <div className="flex items-center justify-between">
+                <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.3em]">Exclusions</h3>
+                <Filter className="w-4 h-4 text-indigo-500" />
+             </div>
+             {[
+                { key: 'excludeQuotes' as const, label: 'Exclude Quotes', detail: quoteCount > 0 ? `${quoteCount} quoted ${quoteCount === 1 ? 'passage' : 'passages'}` : 'No quotations found', available: quoteCount > 0 },
+                { key: 'excludeBibliography' as const, label: 'Exclude Bibliography', detail: hasBibliography ? 'References section found' : 'No references section found', available: hasBibliography }
+             ].map(t => (
+                <button key={t.key} onClick={() => updateExclusions({ [t.key]: !exclusions[t.key] })} disabled={!t.available && !exclusions[t.key]} className={`w-full flex items-center justify-between gap-4 p-4 rounded-2xl border text-left transition-all disabled:opacity-40 ${exclusions[t.key] ? 'bg-emerald-600 border-emerald-600 text-white' : 'bg-slate-50 dark:bg-slate-800/50 border-slate-100 dark:border-slate-800 hover:border-indigo-400'}`}>
+                   <div>
+                      <p className={`text-[10px] font-black uppercase tracking-widest ${exclusions[t.key] ? 'text-white' : 'text-slate-900 dark:text-white'}`}>{t.label}</p>
+                      <p className={`text-[9px] font-bold uppercase tracking-widest mt-1 ${exclusions[t.key] ? 'text-emerald-100' : 'text-slate-400'}`}>{t.detail}</p>
+                   </div>
+                   <span className="text-[9px] font-black uppercase tracking-widest shrink-0">{exclusions[t.key] ? 'On' : 'Off'}</span>
+                </button>
+             ))}
+             <div className="space-y-3">
+                <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest px-1">Ignore matches under</p>
+                <div className="flex flex-wrap gap-2">
+                   {MIN_MATCH_WORDS.map(n => (
+                      <button key={n} onClick={() => updateExclusions({ minMatchWords: n })} className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${exclusions.minMatchWords === n ? 'bg-slate-900 text-white border-slate-900 dark:bg-indigo-600 dark:border-indigo-600' : 'bg-white dark:bg-slate-800 text-slate-500 border-slate-200 dark:border-slate-700 hover:border-indigo-400'}`}>
+                         {n === 0 ? 'Off' : `${n} words`}
+                      </button>
+                   ))}
+                </div>
+             </div>
+             {(exclusions.excludedDomains.length > 0 || exclusions.excludedSources.length > 0) && (
+                <div className="space-y-2 pt-4 border-t border-slate-100 dark:border-slate-800">
+                   <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest px-1">Excluded</p>
+                   {exclusions.excludedDomains.map(domain => (
+                      <div key={domain} className="flex items-center justify-between gap-3 p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl">
+                         <span className="text-[10px] font-bold text-slate-600 dark:text-slate-300 truncate">All of {domain}</span>
+                         <button onClick={() => updateExclusions({ excludedDomains: exclusions.excludedDomains.filter(d => d !== domain) })} className="text-[9px] font-black text-indigo-600 uppercase tracking-widest shrink-0">Restore</button>
+                      </div>
+                   ))}
+                   {exclusions.excludedSources.map(url => (
+                      <div key={url} className="flex items-center justify-between gap-3 p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl">
+                         <span className="text-[10px] font-bold text-slate-600 dark:text-slate-300 truncate" title={url}>{analysis.sourcesFound.find(s => s.url === url)?.title || url}</span>
+                         <button onClick={() => updateExclusions({ excludedSources: exclusions.excludedSources.filter(u => u !== url) })} className="text-[9px] font-black text-indigo-600 uppercase tracking-widest shrink-0">Restore</button>
+                      </div>
+                   ))}
+                </div>
+             )}
+             {adjusted.matchedWords > 0 && (
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest px-1">{adjusted.keptWords.toLocaleString()} of {adjusted.matchedWords.toLocaleString()} matched words still count · score {analysis.plagiarismScore}% → {adjusted.plagiarismScore}%</p>
+             )}
+          </div>
+        )}
+
+        {codeAnalysis && codeAnalysis.blocks.length > 0 && (
+          <div className="bg-white dark:bg-slate-900 rounded-[3rem] p-8 border border-slate-100 dark:border-slate-800 shadow-xl space-y-6">
+             <div className="flex items-center justify-between">
+                <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.3em]">Code Listings</h3>
+                <Code2 className="w-4 h-4 text-indigo-500" />
+             </div>
+             <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest">{codeAnalysis.blocks.length} {codeAnalysis.blocks.length === 1 ? 'block' : 'blocks'} · {codeAnalysis.matches.length} {codeAnalysis.matches.length === 1 ? 'match' : 'matches'} in your corpus</p>
+             {codeAnalysis.blocks.map((block, index) => {
+                const matches = codeAnalysis.matches.filter(m => m.block === index);
+                return (
+                   <div key={block.start} className="space-y-3">
+                      <p className="text-[9px] font-black uppercase tracking-widest text-slate-500">
+                         Block {index + 1} · {block.language === 'unknown' ? 'Code' : block.language} · {block.lineCount} lines
+                         {matches.length === 0 && <span className="text-emerald-600"> · No match</span>}
+                      </p>
+                      {matches.map(m => (
+                         <div key={m.sourceId} className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl space-y-3">
+                            <div className="flex items-center justify-between gap-3">
+                               <p className="text-[11px] font-black text-slate-900 dark:text-white truncate" title={m.sourceTitle}>{m.sourceTitle}</p>
+                               <span className={`text-[9px] font-black uppercase tracking-widest shrink-0 ${m.similarity >= 50 ? 'text-rose-600' : 'text-slate-500'}`}>{m.similarity}%</span>
+                            </div>
+                            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{m.sourceLabel}{m.sourceLanguage !== block.language && m.sourceLanguage !== 'unknown' ? ` · ${m.sourceLanguage}` : ''}</p>
+                            <pre className="p-3 bg-slate-900 text-slate-300 rounded-xl text-[10px] leading-relaxed overflow-x-auto max-h-48"><HighlightedSnippet text={m.excerpt} ranges={m.matchedRanges} /></pre>
+                         </div>
+                      ))}
+                   </div>
+                );
+             })}
+          </div>
+        )}
+
+        {analysis.forensics && (
+          <div className="bg-white dark:bg-slate-900 rounded-[3rem] p-8 border border-slate-100 dark:border-slate-800 shadow-xl space-y-6">
+             <div className="flex items-center justify-between">
+                <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.3em]">Stylometry</h3>
+                <BarChart className="w-4 h-4 text-indigo-500" />
+             </div>
+             <div className="grid grid-cols-2 gap-3">
+                {[
+                  { label: 'Avg Sentence', value: `${analysis.forensics.avgSentenceLength} words` },
+                  { label: 'Length Variance', value: analysis.forensics.sentenceVariance },
+                  { label: 'Type/Token', value: analysis.forensics.uniqueWordRatio },
+                  { label: 'Reading Ease', value: analysis.forensics.readabilityScore },
+                  ...(analysis.forensics.gunningFog !== undefined ? [{ label: 'Gunning Fog', value: analysis.forensics.gunningFog }] : []),
+                  ...(analysis.forensics.language ? [{ label: 'Language', value: analysis.forensics.language.toUpperCase() }] : [])
+                ].map(m => (
+                  <div key={m.label} className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl border border-slate-100 dark:border-slate-800">
+                     <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">{m.label}</p>
+                     <p className="text-sm font-black text-slate-900 dark:text-white tabular-nums mt-1">{m.value}</p>
+                  </div>
+                ))}
+             </div>
+             {analysis.forensics.aiTriggerWordsFound.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                   {analysis.forensics.aiTriggerWordsFound.map(w => (
+                     <span key={w} className="px-3 py-1 bg-rose-50 dark:bg-rose-900/20 text-rose-600 text-[9px] font-black uppercase tracking-widest rounded-full border border-rose-100 dark:border-rose-900/30">{w}</span>
+                   ))}
+                </div>
+             )}
+             {analysis.forensics.sections && analysis.forensics.sections.length > 1 && (
+                <div className="space-y-2 pt-4 border-t border-slate-100 dark:border-slate-800">
+                   {analysis.forensics.sections.map(s => (
+                     <div key={s.start} className="flex items-center justify-between gap-4 text-[9px] font-black uppercase tracking-widest">
+                        <span className="text-slate-600 dark:text-slate-300 truncate">{s.heading}</span>
+                        <span className="text-slate-400 tabular-nums shrink-0">{s.avgSentenceLength}w · {s.readabilityScore}</span>
+                     </div>
+                   ))}
+                </div>
+             )}
+          </div>
+        )}
       </div>
 
       {/* RIGHT: MAIN WORKSPACE */}
@@ -289,29 +586,131 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({
            <div className="flex-1 overflow-y-auto">
              {viewMode === 'citations' ? (
                 <div className="p-16 space-y-12 bg-[#070a0f] min-h-full">
-                   {localBibliography.length === 0 ? (
+                   <div className="flex flex-wrap items-center justify-between gap-6">
+                      <label className="flex items-center gap-3 px-5 py-2.5 bg-white/5 text-slate-300 border border-white/10 rounded-xl text-[9px] font-black uppercase tracking-widest hover:text-white transition-all cursor-pointer">
+                         <Upload className="w-4 h-4" /> Import BibTeX / RIS / CSL-JSON
+                         <input type="file" className="hidden" accept=".bib,.bibtex,.ris,.json" onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleImportBibliography(file); }} />
+                      </label>
+                      {unverifiedSources.length > 0 && (
+                         <button onClick={handleVerifyMetadata} disabled={isVerifying} title="Look each source up by its DOI, ISBN, arXiv id or title and replace guessed fields with registry data" className="flex items-center gap-3 px-5 py-2.5 bg-white/5 text-slate-300 border border-white/10 rounded-xl text-[9px] font-black uppercase tracking-widest hover:text-white transition-all disabled:opacity-50">
+                            {isVerifying ? <RefreshCw className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />} {isVerifying ? 'Verifying...' : `Verify Metadata (${unverifiedSources.length})`}
+                         </button>
+                      )}
+                      {referenceProblemCount > 0 && (
+                         <div title={`Entries in your reference list that do not follow ${citationStyle}`} className="flex items-center gap-3 px-5 py-2.5 bg-rose-500/10 text-rose-400 border border-rose-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest">
+                            <AlertTriangle className="w-4 h-4" /> {referenceProblemCount} Reference{referenceProblemCount === 1 ? '' : 's'} Misformatted
+                         </div>
+                      )}
+                      {localBibliography.length > 0 && (
+                         <div className="flex items-center gap-2">
+                            <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 mr-2">Export</span>
+                            {(Object.keys(BIBLIOGRAPHY_FORMATS) as BibliographyFormat[]).map(format => (
+                               <button key={format} onClick={() => handleExportBibliography(format)} className="flex items-center gap-2 px-4 py-2.5 rounded-xl text-[9px] font-black uppercase tracking-widest border bg-white/5 text-slate-400 border-white/10 hover:text-white transition-all">
+                                  <Download className="w-3 h-3" /> {BIBLIOGRAPHY_FORMATS[format].label}
+                               </button>
+                            ))}
+                         </div>
+                      )}
+                   </div>
+                   {localBibliography.length > 0 && (
+                      <div className="flex flex-wrap items-center justify-between gap-6">
+                         <div className="flex items-center gap-2">
+                            {(['similarity', 'impact', 'title'] as CitationSort[]).map(key => (
+                               <button key={key} onClick={() => setCitationSort(key)} className={`px-5 py-2.5 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${citationSort === key ? 'bg-indigo-600 text-white border-indigo-500' : 'bg-white/5 text-slate-400 border-white/10 hover:text-white'}`}>
+                                  {key === 'similarity' ? 'Similarity' : key === 'impact' ? 'Impact' : 'Title'}
+                               </button>
+                            ))}
+                         </div>
+                         <div className="flex items-center gap-2">
+                            <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 mr-2">Min Match</span>
+                            {SIMILARITY_FILTERS.map(min => (
+                               <button key={min} onClick={() => setMinSimilarity(min)} className={`px-4 py-2.5 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${minSimilarity === min ? 'bg-indigo-600 text-white border-indigo-500' : 'bg-white/5 text-slate-400 border-white/10 hover:text-white'}`}>
+                                  {min === 0 ? 'All' : `≥${min}%`}
+                               </button>
+                            ))}
+                         </div>
+                      </div>
+                   )}
+                   {visibleSources.length === 0 ? (
                       <div className="py-40 text-center opacity-20 flex flex-col items-center gap-8">
                          <Search className="w-24 h-24 text-white" />
-                         <p className="text-xl font-black uppercase tracking-widest text-white">No Forensic Matches</p>
+                         <p className="text-xl font-black uppercase tracking-widest text-white">{localBibliography.length === 0 ? 'No Forensic Matches' : `No Sources Above ${minSimilarity}% Match`}</p>
                       </div>
                    ) : (
-                      localBibliography.map((s, i) => (
+                      visibleSources.map((s, i) => {
+                        // Numeric styles number sources in reference-list order, the same order the exporters use
+                        const reference = formatReference(s, citationStyle, localBibliography.indexOf(s) + 1);
+                        const inText = formatInTextCitation(s, citationStyle, localBibliography.indexOf(s) + 1);
+                        // Entries only the document's reference list knows have no match to exclude
+                        const fromReferences = !!s.referenceText && !s.snippet && !s.imported;
+                        const placed = placedSources.some(p => p.url === s.url);
+                        const domainPlaced = placedSources.some(p => hostOf(p.url) === hostOf(s.url));
+                        const problems = s.referenceText ? referenceProblems.get(s.referenceText) : undefined;
+                        return (
                         <div key={s.id || i} className="bg-[#1e293b] p-10 rounded-[2.5rem] space-y-8 border border-white/5 shadow-2xl">
                            <div className="flex justify-between items-start">
-                              <div className="px-5 py-1.5 bg-indigo-500/10 text-indigo-400 text-[9px] font-black uppercase tracking-widest rounded-full border border-indigo-500/20">Source ID: #{i+1}</div>
+                              <div className="flex items-center gap-3">
+                                 <div className="px-5 py-1.5 bg-indigo-500/10 text-indigo-400 text-[9px] font-black uppercase tracking-widest rounded-full border border-indigo-500/20">Source ID: #{localBibliography.indexOf(s) + 1}</div>
+                                 <div title={s.crossLingual ? 'Share of the source sentences matched by a translation of your document' : 'Share of the source snippet found word for word in your document'} className={`px-5 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-full border ${s.similarity >= 50 ? 'bg-rose-500/10 text-rose-400 border-rose-500/20' : 'bg-white/5 text-slate-400 border-white/10'}`}>{s.snippet ? `${s.similarity}% Match` : s.imported ? 'Imported' : s.referenceText ? 'From Your References' : 'No Snippet'}</div>
+                                 {s.crossLingual && <div title="Matched through a translation of your document" className="px-5 py-1.5 bg-amber-500/10 text-amber-400 text-[9px] font-black uppercase tracking-widest rounded-full border border-amber-500/20">Translated{s.language ? ` · ${s.language.toUpperCase()}` : ''}</div>}
+                                 {s.impactScore > 0 && <div title="Share of your document covered by this source" className="px-5 py-1.5 bg-white/5 text-slate-400 text-[9px] font-black uppercase tracking-widest rounded-full border border-white/10">{s.impactScore}% of Document</div>}
+                              </div>
                               <div className="flex gap-2">
-                                <button onClick={() => { navigator.clipboard.writeText(s.fullCitation || ''); toast.success("Citation Copied"); }} className="p-3 bg-white/5 border border-white/10 text-slate-400 hover:text-white rounded-xl transition-all shadow-sm"><Copy className="w-4 h-4" /></button>
-                                <a href={s.url} target="_blank" rel="noreferrer" className="p-3 bg-white/5 border border-white/10 text-slate-400 hover:text-white rounded-xl transition-all shadow-sm"><ExternalLink className="w-4 h-4" /></a>
+                                {!fixResult && !s.imported && !fromReferences && (
+                                  <button onClick={() => updateExclusions({ excludedSources: [...exclusions.excludedSources, s.url] })} disabled={!placed} title={placed ? 'Leave this source out of the score' : 'No passage in your document is tied to this source'} className="p-3 bg-white/5 border border-white/10 text-slate-400 hover:text-white rounded-xl transition-all shadow-sm disabled:opacity-40 disabled:hover:text-slate-400"><EyeOff className="w-4 h-4" /></button>
+                                )}
+                                {!fixResult && !s.imported && !fromReferences && hostOf(s.url) && (
+                                  <button onClick={() => updateExclusions({ excludedDomains: [...exclusions.excludedDomains, hostOf(s.url)!] })} disabled={!domainPlaced} title={domainPlaced ? `Leave every source from ${hostOf(s.url)} out of the score` : `No passage in your document is tied to a source from ${hostOf(s.url)}`} className="p-3 bg-white/5 border border-white/10 text-slate-400 hover:text-white rounded-xl transition-all shadow-sm disabled:opacity-40 disabled:hover:text-slate-400"><Ban className="w-4 h-4" /></button>
+                                )}
+                                <button onClick={() => { navigator.clipboard.writeText(stripCitationMarkup(reference)); toast.success("Citation Copied"); }} className="p-3 bg-white/5 border border-white/10 text-slate-400 hover:text-white rounded-xl transition-all shadow-sm"><Copy className="w-4 h-4" /></button>
+                                {s.type === 'CORPUS' ? (
+                                  <div title="Matched offline against your local corpus" className="p-3 bg-white/5 border border-white/10 text-emerald-400 rounded-xl shadow-sm"><Database className="w-4 h-4" /></div>
+                                ) : s.url && (
+                                  <a href={s.url} target="_blank" rel="noreferrer" className="p-3 bg-white/5 border border-white/10 text-slate-400 hover:text-white rounded-xl transition-all shadow-sm"><ExternalLink className="w-4 h-4" /></a>
+                                )}
                               </div>
                            </div>
                            <div className="space-y-6">
                               <h4 className="text-3xl font-black text-white font-heading tracking-tight leading-tight">{s.title}</h4>
-                              <div className="p-8 bg-[#0f172a] rounded-[2rem] border border-white/5 shadow-inner">
-                                <p className="text-sm font-serif-doc text-slate-400 leading-relaxed italic break-all">{s.fullCitation}</p>
+                              {s.snippet && (
+                                <p className="text-sm font-medium text-slate-400 leading-relaxed">
+                                  <HighlightedSnippet text={s.snippet} ranges={s.matchedRanges || []} />
+                                </p>
+                              )}
+                              <div className="p-8 bg-[#0f172a] rounded-[2rem] border border-white/5 shadow-inner space-y-4">
+                                <p className="text-sm font-serif-doc text-slate-300 leading-relaxed break-words"><CitationText text={reference} /></p>
+                                <p className="text-[9px] font-black uppercase tracking-widest text-slate-500">{citationKind(citationStyle) === 'note' ? 'Footnote' : 'In-text'} · <span className="normal-case tracking-normal text-xs font-serif-doc font-medium text-slate-400"><CitationText text={inText} /></span></p>
+                                {s.referenceText && problems && (
+                                  <div className="pt-4 border-t border-white/5 space-y-2">
+                                    <p className="text-[9px] font-black uppercase tracking-widest text-slate-500">As Written In Your References</p>
+                                    <p className="text-xs font-serif-doc text-slate-400 leading-relaxed break-words">{s.referenceText}</p>
+                                    {problems.length > 0 ? problems.map(problem => (
+                                      <p key={problem} className="flex items-center gap-2 text-[10px] font-bold text-rose-400"><AlertTriangle className="w-3 h-3 shrink-0" /> {problem}</p>
+                                    )) : (
+                                      <p className="flex items-center gap-2 text-[10px] font-bold text-emerald-400"><Check className="w-3 h-3 shrink-0" /> Formatted for {citationStyle}</p>
+                                    )}
+                                  </div>
+                                )}
+                                {s.type !== 'CORPUS' && (
+                                  <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-white/5">
+                                    <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 mr-2">
+                                      {s.verification ? `Verified via ${s.verification.resolver} · ${s.verification.identifier}` : s.imported ? 'From Imported File' : fromReferences ? 'From Your Reference List' : 'Model Guess · Unverified'}
+                                    </span>
+                                    {CITATION_FIELDS.filter(f => Array.isArray(s[f]) ? (s[f] as unknown[]).length > 0 : !!s[f]).map(f => {
+                                      const verified = !!s.verification?.fields.includes(f);
+                                      return (
+                                        <span key={f} title={verified ? `Confirmed by ${s.verification!.resolver}` : 'Not confirmed by a registry'} className={`flex items-center gap-1 px-3 py-1 text-[8px] font-black uppercase tracking-widest rounded-full border ${verified ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'bg-amber-500/10 text-amber-400 border-amber-500/20'}`}>
+                                          {verified ? <Check className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />} {CITATION_FIELD_LABELS[f]}
+                                        </span>
+                                      );
+                                    })}
+                                  </div>
+                                )}
                               </div>
                            </div>
                         </div>
-                      ))
+                        );
+                      })
                    )}
                 </div>
              ) : (
@@ -348,7 +747,7 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({
                             <button onClick={handleGenerateSlides} className="flex items-center gap-3 px-6 py-3 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-black transition-all">
                                <Presentation className="w-4 h-4 text-indigo-400" /> Professional Slides
                             </button>
-                            <button onClick={() => { Telemetry.logFeature('Export PDF'); downloadPdf(fixResult.rewrittenText, 100, analysis.aiProbability); }} className="flex items-center gap-3 px-6 py-3 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-black transition-all">
+                            <button onClick={() => { Telemetry.logFeature('Export PDF'); downloadPdf(fixResult.rewrittenText, 100, analysis.aiProbability, undefined, localBibliography, citationStyle); }} className="flex items-center gap-3 px-6 py-3 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-black transition-all">
                                <VerifiedIcon className="w-4 h-4 text-emerald-400" /> Forensic Report
                             </button>
                             <button onClick={onOpenRating} className="flex items-center gap-3 px-6 py-3 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all border border-slate-200 dark:border-slate-700 shadow-sm">
@@ -390,9 +789,14 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({
                    <div className="p-16 font-serif-doc text-2xl leading-relaxed text-slate-800 dark:text-slate-200 flex-1">
                       {fixResult ? (
                         <div className="max-w-5xl mx-auto py-10 animate-in slide-in-from-bottom-8 duration-1000">
-                           <div contentEditable onBlur={(e) => onUpdateText(e.currentTarget.innerText)} className="outline-none whitespace-pre-wrap p-8 rounded-[2rem] focus:bg-slate-50/50 transition-colors">
-                              {fixResult.rewrittenText}
-                           </div>
+                           <RewriteEditor 
+                             text={fixResult.rewrittenText} 
+                             outcomes={fixResult.chunkOutcomes || []} 
+                             retryingIndex={retryingChunk} 
+                             onUpdateText={onUpdateText} 
+                             onRetryChunk={handleRetryChunk} 
+                             citationIssues={citationReport?.issues}
+                           />
                         </div>
                       ) : (
                         <div className="h-full flex flex-col items-center justify-center py-40">
@@ -417,6 +821,9 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({
                                  {isFixing ? 'Sequencing DNA...' : needsCredits ? 'Unlock Premium — ₦2,500' : 'Humanize Everything'}
                               </button>
                            </div>
+                           <div className="w-full mt-24">
+                              <ParagraphRiskMap paragraphs={adjusted.paragraphBreakdown || []} sources={localBibliography} />
+                           </div>
                         </div>
                       )}
                    </div>
@@ -431,6 +838,31 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({
   );
 };
 
+const HighlightedSnippet = ({ text, ranges }: { text: string, ranges: MatchedRange[] }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  // Ranges may arrive in document order and overlap in the source; each character is marked once
+  [...ranges].sort((a, b) => a.sourceStart - b.sourceStart).forEach(r => {
+    if (r.sourceEnd <= cursor) return;
+    const start = Math.max(cursor, r.sourceStart);
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={start} className="bg-rose-500/20 text-rose-200 rounded px-0.5">{text.slice(start, r.sourceEnd)}</mark>);
+    cursor = r.sourceEnd;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+// Formatted citations mark italics with *text* and bold with **text**
+const CitationText = ({ text }: { text: string }) => (
+  <>
+    {text.split(/(\*\*.*?\*\*|\*.*?\*)/g).map((part, i) =>
+      part.startsWith('**') && part.endsWith('**') && part.length > 4 ? <strong key={i}>{part.slice(2, -2)}</strong>
+        : part.startsWith('*') && part.endsWith('*') && part.length > 2 ? <em key={i}>{part.slice(1, -1)}</em>
+        : part)}
+  </>
+);
+
 const IconRenderer = ({ name, className }: { name: string, className?: string }) => {
   switch (name) {
     case 'Book': return <Book className={className} />;
@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Grid3x3, Upload, RefreshCw, Trash2, Users, ShieldCheck } from 'lucide-react';
+import { ScatterChart, Scatter, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import toast from 'react-hot-toast';
+import { parseFile } from '../services/documentParser';
+import { isCancellation } from '../services/cancellation';
+import { BatchSubmission, PairSimilarity, buildCollusionReport, findClusters } from '../services/collusion';
+import { compareDocuments } from '../services/documentComparison';
+import ComparisonPanel from './ComparisonPanel';
+
+interface CollusionMatrixProps {
+  onClose: () => void;
+}
+
+interface HeatCell {
+  x: number;
+  y: number;
+  similarity: number;
+}
+
+// What Recharts hands a cell's click handler and shape: its centre, its row of data and the chart's axes
+interface HeatCellPoint {
+  cx: number;
+  cy: number;
+  payload: HeatCell;
+  xAxis: { scale: (value: number) => number };
+  yAxis: { scale: (value: number) => number };
+}
+
+const THRESHOLDS = [25, 40, 60];
+const MAX_LISTED_PAIRS = 10;
+
+// Rose scale: transparent at 0%, solid at 100%
+const cellColor = (similarity: number, diagonal: boolean) =>
+  diagonal ? 'rgba(148, 163, 184, 0.25)' : `rgba(225, 29, 72, ${Math.max(0.04, similarity / 100)})`;
+
+const CollusionMatrix: React.FC<CollusionMatrixProps> = ({ onClose }) => {
+  const [submissions, setSubmissions] = useState<BatchSubmission[]>([]);
+  const [importing, setImporting] = useState<string | null>(null);
+  const [threshold, setThreshold] = useState(40);
+  const [selectedPair, setSelectedPair] = useState<PairSimilarity | null>(null);
+  const importJob = useRef<AbortController | null>(null);
+
+  useEffect(() => () => importJob.current?.abort(), []);
+
+  const report = useMemo(() => submissions.length > 1 ? buildCollusionReport(submissions) : null, [submissions]);
+  const clusters = useMemo(() => report ? findClusters(report, threshold) : [], [report, threshold]);
+  const comparison = useMemo(() => selectedPair ? compareDocuments(submissions[selectedPair.a].text, submissions[selectedPair.b].text) : null, [selectedPair, submissions]);
+
+  const handleFiles = async (files: File[]) => {
+    const job = new AbortController();
+    importJob.current = job;
+    const added: BatchSubmission[] = [];
+    try {
+      for (const file of files) {
+        setImporting(`Reading ${file.name}...`);
+        const text = await parseFile(file, (msg) => setImporting(`${file.name}: ${msg}`), job.signal);
+        added.push({ id: `${file.name}-${file.lastModified}-${file.size}`, name: file.name, text });
+      }
+    } catch (e: any) {
+      if (!isCancellation(e)) toast.error(e?.message || 'Could not read the submission.');
+    } finally {
+      if (importJob.current === job) importJob.current = null;
+      setImporting(null);
+      // Files read before a failure or cancel still join the batch
+      setSubmissions(prev => [...prev, ...added.filter(a => !prev.some(p => p.id === a.id))]);
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    setSelectedPair(null);
+    setSubmissions(prev => prev.filter(s => s.id !== id));
+  };
+
+  const openPair = (a: number, b: number) => {
+    if (!report || a === b) return;
+    const pair = report.pairs.find(p => p.a === Math.min(a, b) && p.b === Math.max(a, b));
+    if (pair) setSelectedPair(pair);
+  };
+
+  const n = submissions.length;
+  const indices = submissions.map((_, i) => i);
+  const cells: HeatCell[] = report ? report.matrix.flatMap((row, y) => row.map((similarity, x) => ({ x, y, similarity }))) : [];
+  const flaggedPairs = report ? report.pairs.filter(p => p.similarity >= threshold).slice(0, MAX_LISTED_PAIRS) : [];
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-950/90 backdrop-blur-2xl flex items-center justify-center p-4">
+      <div className="w-full max-w-6xl bg-white dark:bg-slate-900 rounded-[3rem] shadow-2xl overflow-hidden flex flex-col h-[90vh] border border-white/20 animate-in zoom-in duration-300">
+        <div className="p-8 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between bg-slate-50/50 dark:bg-slate-800/30">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-rose-600 rounded-2xl shadow-lg">
+              <Grid3x3 className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-black text-slate-900 dark:text-white uppercase tracking-tighter">Batch Collusion Check</h2>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{n} submissions · {report ? report.pairs.length : 0} pairs compared on this device</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-all">
+            <X className="w-6 h-6 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8 bg-slate-50/30 dark:bg-slate-950/30">
+          {selectedPair && comparison ? (
+            <ComparisonPanel
+              a={submissions[selectedPair.a]}
+              b={submissions[selectedPair.b]}
+              result={comparison}
+              onBack={() => setSelectedPair(null)}
+              backLabel="Back to Matrix"
+            />
+          ) : (
+            <>
+              {importing ? (
+                <div className="flex items-center justify-between gap-4 px-6 py-5 bg-indigo-50 dark:bg-indigo-900/20 rounded-2xl">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <RefreshCw className="w-4 h-4 text-indigo-600 animate-spin shrink-0" />
+                    <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest truncate">{importing}</span>
+                  </div>
+                  <button onClick={() => importJob.current?.abort()} className="text-[9px] font-black text-slate-500 hover:text-rose-600 uppercase tracking-widest shrink-0">Cancel Import</button>
+                </div>
+              ) : (
+                <label className="flex items-center justify-center gap-3 px-6 py-5 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-2xl cursor-pointer hover:border-indigo-400 transition-all">
+                  <Upload className="w-4 h-4 text-indigo-600" />
+                  <span className="text-[10px] font-black text-slate-600 dark:text-slate-300 uppercase tracking-widest">Add Submissions (.txt, .md, .pdf, .docx)</span>
+                  <input type="file" multiple className="hidden" accept=".txt,.md,.pdf,.docx" onChange={(e) => { const files = Array.from(e.target.files || []); e.target.value = ''; if (files.length) handleFiles(files); }} />
+                </label>
+              )}
+
+              {n > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {submissions.map((s, i) => (
+                    <div key={s.id} className="flex items-center gap-2 pl-4 pr-2 py-2 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-xl">
+                      <span className="text-[9px] font-black text-indigo-600">#{i + 1}</span>
+                      <span className="text-[11px] font-bold text-slate-700 dark:text-slate-200 max-w-[180px] truncate" title={s.name}>{s.name}</span>
+                      <button onClick={() => handleRemove(s.id)} disabled={!!importing} className="p-1 text-slate-400 hover:text-rose-600 disabled:opacity-40"><Trash2 className="w-3.5 h-3.5" /></button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {!report ? (
+                <div className="py-20 flex flex-col items-center justify-center text-slate-300 gap-4 text-center">
+                  <Grid3x3 className="w-12 h-12 opacity-20" />
+                  <p className="text-sm font-bold uppercase tracking-widest">Add at least two submissions.</p>
+                  <p className="text-[10px] font-bold uppercase tracking-widest max-w-sm">Every submission is compared with every other one by fingerprint.</p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+                  <div className="lg:col-span-3 p-6 bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-xl">
+                    <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-4">Pairwise similarity · click a cell to compare</p>
+                    <ResponsiveContainer width="100%" height={Math.max(260, n * 32 + 60)}>
+                      <ScatterChart margin={{ top: 10, right: 10, bottom: 10, left: 0 }}>
+                        <XAxis type="number" dataKey="x" domain={[-0.5, n - 0.5]} ticks={indices} interval={0} tickFormatter={(i) => `#${i + 1}`} tick={{ fontSize: 9 }} axisLine={false} tickLine={false} />
+                        <YAxis type="number" dataKey="y" domain={[-0.5, n - 0.5]} ticks={indices} interval={0} tickFormatter={(i) => `#${i + 1}`} tick={{ fontSize: 9 }} axisLine={false} tickLine={false} reversed width={32} />
+                        <Tooltip
+                          cursor={false}
+                          content={({ payload }) => {
+                            const cell = payload?.[0]?.payload as HeatCell | undefined;
+                            if (!cell) return null;
+                            return (
+                              <div className="px-4 py-3 bg-[#0f141f] rounded-xl text-[10px] font-black text-white uppercase tracking-widest">
+                                #{cell.y + 1} × #{cell.x + 1} · {cell.x === cell.y ? 'Same submission' : `${cell.similarity}%`}
+                              </div>
+                            );
+                          }}
+                        />
+                        <Scatter
+                          data={cells}
+                          isAnimationActive={false}
+                          onClick={(point: HeatCellPoint) => openPair(point.payload.y, point.payload.x)}
+                          shape={(props: unknown) => {
+                            const { cx, cy, payload: cell, xAxis, yAxis } = props as HeatCellPoint;
+                            const width = Math.abs(xAxis.scale(1) - xAxis.scale(0));
+                            const height = Math.abs(yAxis.scale(1) - yAxis.scale(0));
+                            return <rect x={cx - width / 2} y={cy - height / 2} width={width} height={height} rx={4} fill={cellColor(cell.similarity, cell.x === cell.y)} stroke="#fff" strokeWidth={2} className={cell.x === cell.y ? '' : 'cursor-pointer'} />;
+                          }}
+                        />
+                      </ScatterChart>
+                    </ResponsiveContainer>
+                  </div>
+
+                  <div className="lg:col-span-2 space-y-6">
+                    <div className="flex items-center gap-2">
+                      <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest mr-2">Flag at</span>
+                      {THRESHOLDS.map(t => (
+                        <button key={t} onClick={() => setThreshold(t)} className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${threshold === t ? 'bg-slate-900 text-white border-slate-900 dark:bg-indigo-600 dark:border-indigo-600' : 'bg-white dark:bg-slate-800 text-slate-500 border-slate-200 dark:border-slate-700 hover:border-indigo-400'}`}>
+                          {t}%+
+                        </button>
+                      ))}
+                    </div>
+
+                    <div className="p-6 bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-xl space-y-4">
+                      <div className="flex items-center gap-2">
+                        <Users className="w-4 h-4 text-rose-500" />
+                        <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.3em]">Clusters</h3>
+                      </div>
+                      {clusters.length === 0 ? (
+                        <p className="text-[10px] font-bold text-emerald-600 uppercase tracking-widest">No submissions linked at {threshold}% or more.</p>
+                      ) : clusters.map((group, i) => (
+                        <div key={i} className="p-4 bg-rose-50/60 dark:bg-rose-950/10 rounded-2xl border border-rose-100 dark:border-rose-900/30">
+                          <p className="text-[9px] font-black text-rose-600 uppercase tracking-widest mb-2">Cluster {i + 1} · {group.length} submissions</p>
+                          <p className="text-[11px] font-medium text-slate-600 dark:text-slate-300">{group.map(d => `#${d + 1} ${submissions[d].name}`).join(' · ')}</p>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="p-6 bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-xl space-y-3">
+                      <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.3em]">Most Similar Pairs</h3>
+                      {flaggedPairs.length === 0 ? (
+                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">No pair reaches {threshold}%.</p>
+                      ) : flaggedPairs.map(p => (
+                        <button key={`${p.a}-${p.b}`} onClick={() => setSelectedPair(p)} className="w-full flex items-center justify-between gap-3 p-3 rounded-xl border border-slate-100 dark:border-slate-800 hover:border-indigo-400 transition-all text-left">
+                          <span className="text-[11px] font-bold text-slate-700 dark:text-slate-200 truncate">#{p.a + 1} {submissions[p.a].name} × #{p.b + 1} {submissions[p.b].name}</span>
+                          <span className="text-[10px] font-black text-rose-600 shrink-0">{p.similarity}%</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-6 bg-slate-900 flex items-center gap-4 border-t border-white/10">
+          <ShieldCheck className="w-5 h-5 text-emerald-400" />
+          <span className="text-[9px] font-black text-slate-400 uppercase tracking-[0.2em]">Matched by fingerprint on this device · nothing is uploaded</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CollusionMatrix;
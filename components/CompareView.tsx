@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, RefreshCw, GitCompare, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { parseFile } from '../services/documentParser';
+import { isCancellation } from '../services/cancellation';
+import { DocumentComparison, compareDocuments } from '../services/documentComparison';
+import { Telemetry } from '../services/telemetry';
+import ComparisonPanel from './ComparisonPanel';
+
+type Side = 'a' | 'b';
+
+interface PaneState {
+  name: string;
+  text: string;
+}
+
+const SIDES: Side[] = ['a', 'b'];
+const DEFAULT_NAMES: Record<Side, string> = { a: 'Document A', b: 'Document B' };
+const MIN_COMPARE_LENGTH = 10;
+
+const CompareView: React.FC = () => {
+  const [panes, setPanes] = useState<Record<Side, PaneState>>({ a: { name: DEFAULT_NAMES.a, text: '' }, b: { name: DEFAULT_NAMES.b, text: '' } });
+  const [importing, setImporting] = useState<{ side: Side; message: string } | null>(null);
+  const [result, setResult] = useState<DocumentComparison | null>(null);
+  const importJob = useRef<AbortController | null>(null);
+
+  useEffect(() => () => importJob.current?.abort(), []);
+
+  const updatePane = (side: Side, next: Partial<PaneState>) => setPanes(prev => ({ ...prev, [side]: { ...prev[side], ...next } }));
+
+  const handleFile = async (side: Side, file: File) => {
+    const job = new AbortController();
+    importJob.current = job;
+    setImporting({ side, message: `Reading ${file.name}...` });
+    try {
+      const text = await parseFile(file, (message) => setImporting({ side, message }), job.signal);
+      updatePane(side, { name: file.name, text });
+    } catch (e: any) {
+      if (!isCancellation(e)) toast.error(e?.message || 'Could not read the document.');
+    } finally {
+      if (importJob.current === job) importJob.current = null;
+      setImporting(null);
+    }
+  };
+
+  const handleCompare = () => {
+    Telemetry.logFeature('Compare');
+    setResult(compareDocuments(panes.a.text, panes.b.text));
+  };
+
+  const canCompare = SIDES.every(side => panes[side].text.trim().length >= MIN_COMPARE_LENGTH) && !importing;
+
+  if (result) {
+    return <ComparisonPanel a={panes.a} b={panes.b} result={result} onBack={() => setResult(null)} backLabel="Edit Documents" />;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {SIDES.map(side => (
+          <div key={side} className="bg-slate-900 dark:bg-slate-950 rounded-[3rem] p-8 shadow-2xl border border-white/5 flex flex-col gap-6">
+            <div className="flex items-center justify-between gap-4">
+              <input
+                value={panes[side].name}
+                onChange={(e) => updatePane(side, { name: e.target.value })}
+                className="bg-transparent text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] outline-none min-w-0 flex-1"
+              />
+              {importing?.side === side ? (
+                <button onClick={() => importJob.current?.abort()} className="flex items-center gap-2 text-[9px] font-black text-slate-400 hover:text-rose-400 uppercase tracking-widest shrink-0">
+                  <XCircle className="w-3.5 h-3.5" /> Cancel
+                </button>
+              ) : (
+                <label className={`flex items-center gap-2 px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-[9px] font-black text-slate-300 uppercase tracking-widest shrink-0 ${importing ? 'opacity-40 pointer-events-none' : 'cursor-pointer hover:border-indigo-400'}`}>
+                  <Upload className="w-3.5 h-3.5 text-indigo-400" /> Upload
+                  <input type="file" className="hidden" accept=".txt,.md,.pdf,.docx" onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleFile(side, file); }} />
+                </label>
+              )}
+            </div>
+            {importing?.side === side ? (
+              <div className="min-h-[320px] flex items-center justify-center gap-3">
+                <RefreshCw className="w-4 h-4 text-indigo-400 animate-spin" />
+                <span className="text-[10px] font-black text-indigo-300 uppercase tracking-widest">{importing.message}</span>
+              </div>
+            ) : (
+              <textarea
+                className="w-full min-h-[320px] bg-transparent outline-none resize-none text-slate-100 text-base leading-relaxed placeholder:text-slate-700 font-serif-doc"
+                placeholder={`Paste ${DEFAULT_NAMES[side]} here or upload a file...`}
+                value={panes[side].text}
+                onChange={(e) => updatePane(side, { text: e.target.value })}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-center">
+        <button onClick={handleCompare} disabled={!canCompare} className="flex items-center gap-4 px-12 py-5 bg-indigo-600 text-white font-black uppercase tracking-[0.2em] rounded-2xl hover:bg-indigo-500 disabled:opacity-30 transition-all shadow-2xl text-xs active:scale-95">
+          <GitCompare className="w-4 h-4" /> Compare Documents
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
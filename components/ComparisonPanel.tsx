@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { ArrowLeft, ShieldCheck } from 'lucide-react';
+import { DocumentComparison, SharedPassage } from '../services/documentComparison';
+
+type Side = 'a' | 'b';
+
+interface ComparedDocument {
+  name: string;
+  text: string;
+}
+
+interface ComparisonPanelProps {
+  a: ComparedDocument;
+  b: ComparedDocument;
+  result: DocumentComparison;
+  onBack: () => void;
+  backLabel: string;
+}
+
+const SIDES: Side[] = ['a', 'b'];
+
+const passageRange = (p: SharedPassage, side: Side): [number, number] => side === 'a' ? [p.aStart, p.aEnd] : [p.bStart, p.bEnd];
+
+const anchorId = (side: Side, id: number) => `compare-${side}-${id}`;
+
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ a, b, result, onBack, backLabel }) => {
+  const [activePassage, setActivePassage] = useState<number | null>(null);
+  const docs: Record<Side, ComparedDocument> = { a, b };
+
+  // Selecting a passage on one side brings its counterpart into view on the other; from the span list, both sides scroll
+  const focusPassage = (id: number, from?: Side) => {
+    setActivePassage(id);
+    SIDES.filter(side => side !== from).forEach(side =>
+      document.getElementById(anchorId(side, id))?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+  };
+
+  const stats = [
+    { label: 'Overall Overlap', value: `${result.overlap}%` },
+    { label: `Of ${a.name}`, value: `${result.overlapA}%` },
+    { label: `Of ${b.name}`, value: `${result.overlapB}%` },
+    { label: 'Shared Passages', value: result.passages.length.toLocaleString() },
+    { label: 'Longest Span', value: result.longest.length ? `${result.longest[0].wordCount} words` : '—' }
+  ];
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between gap-4">
+        <button onClick={onBack} className="flex items-center gap-3 px-6 py-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl text-[10px] font-black text-slate-900 dark:text-white uppercase tracking-widest hover:border-indigo-400 transition-all">
+          <ArrowLeft className="w-4 h-4" /> {backLabel}
+        </button>
+        <div className="flex items-center gap-2 px-4 py-2 bg-emerald-50 dark:bg-emerald-900/20 border border-emerald-100 dark:border-emerald-800/30 rounded-xl">
+          <ShieldCheck className="w-3.5 h-3.5 text-emerald-600 dark:text-emerald-400" />
+          <span className="text-[9px] font-black text-emerald-600 dark:text-emerald-400 uppercase tracking-widest">Compared on this device · nothing is uploaded</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {stats.map(s => (
+          <div key={s.label} className="p-6 bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-xl">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest truncate" title={s.label}>{s.label}</p>
+            <p className="text-2xl font-black text-slate-900 dark:text-white tracking-tighter mt-2">{s.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {result.longest.length > 0 && (
+        <div className="p-8 bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-100 dark:border-slate-800 shadow-xl space-y-4">
+          <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.3em]">Longest Common Spans</h3>
+          {result.longest.map(p => (
+            <button key={p.id} onClick={() => focusPassage(p.id)} className={`w-full text-left p-4 rounded-2xl border transition-all ${activePassage === p.id ? 'border-rose-400 bg-rose-50/60 dark:bg-rose-950/20' : 'border-slate-100 dark:border-slate-800 hover:border-indigo-400'}`}>
+              <p className="text-[9px] font-black text-rose-600 uppercase tracking-widest mb-1">#{p.id + 1} · {p.wordCount} words</p>
+              <p className="text-sm font-medium text-slate-600 dark:text-slate-300 line-clamp-2">"{a.text.slice(p.aStart, p.aEnd)}"</p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {SIDES.map(side => (
+          <div key={side} className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden">
+            <div className="px-8 py-5 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+              <h4 className="text-sm font-black text-slate-900 dark:text-white tracking-tight truncate">{docs[side].name}</h4>
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest shrink-0">{(side === 'a' ? result.wordsA : result.wordsB).toLocaleString()} words</span>
+            </div>
+            <div className="p-8 h-[60vh] overflow-y-auto text-[15px] leading-relaxed text-slate-700 dark:text-slate-300 whitespace-pre-wrap font-serif-doc">
+              <MarkedText text={docs[side].text} side={side} passages={result.passages} activePassage={activePassage} onSelect={(id) => focusPassage(id, side)} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Passages can overlap on side B (two parts of A copying one part of B); each character is marked once
+const MarkedText = ({ text, side, passages, activePassage, onSelect }: { text: string, side: Side, passages: SharedPassage[], activePassage: number | null, onSelect: (id: number) => void }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  [...passages].sort((x, y) => passageRange(x, side)[0] - passageRange(y, side)[0]).forEach(p => {
+    const [rangeStart, end] = passageRange(p, side);
+    if (end <= cursor) return;
+    const start = Math.max(cursor, rangeStart);
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark
+        key={p.id}
+        id={anchorId(side, p.id)}
+        onClick={() => onSelect(p.id)}
+        title={`Shared passage #${p.id + 1} · ${p.wordCount} words`}
+        className={`cursor-pointer rounded px-0.5 transition-colors ${activePassage === p.id ? 'bg-rose-400/60 text-slate-900 dark:text-white' : 'bg-rose-200/60 dark:bg-rose-500/20 text-inherit'}`}
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+export default ComparisonPanel;
@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Database, Upload, Trash2, RefreshCw, FileText, ShieldCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { parseFile } from '../services/documentParser';
+import { isCancellation } from '../services/cancellation';
+import {
+  CorpusDocumentInfo, CorpusDocumentKind,
+  addCorpusDocument, corpusKindLabel, listCorpusDocuments, removeCorpusDocument
+} from '../services/corpusStore';
+
+interface CorpusManagerProps {
+  onClose: () => void;
+}
+
+const KINDS: CorpusDocumentKind[] = ['REFERENCE', 'SUBMISSION'];
+
+const CorpusManager: React.FC<CorpusManagerProps> = ({ onClose }) => {
+  const [documents, setDocuments] = useState<CorpusDocumentInfo[]>([]);
+  const [kind, setKind] = useState<CorpusDocumentKind>('REFERENCE');
+  const [importing, setImporting] = useState<string | null>(null);
+  const importJob = useRef<AbortController | null>(null);
+
+  const refresh = () => listCorpusDocuments()
+    .then(setDocuments)
+    .catch(e => toast.error(`Could not read the local corpus: ${e?.message || e}`));
+
+  useEffect(() => {
+    refresh();
+    return () => importJob.current?.abort();
+  }, []);
+
+  const handleFiles = async (files: File[]) => {
+    const job = new AbortController();
+    importJob.current = job;
+    let added = 0;
+    try {
+      for (const file of files) {
+        setImporting(`Reading ${file.name}...`);
+        const text = await parseFile(file, (msg) => setImporting(`${file.name}: ${msg}`), job.signal);
+        setImporting(`Fingerprinting ${file.name}...`);
+        await addCorpusDocument(file.name, text, kind);
+        added++;
+      }
+      toast.success(`${added} ${added === 1 ? 'document' : 'documents'} added to the corpus`);
+    } catch (e: any) {
+      if (!isCancellation(e)) toast.error(e?.message || 'Could not add the document.');
+    } finally {
+      if (importJob.current === job) importJob.current = null;
+      setImporting(null);
+      refresh();
+    }
+  };
+
+  const handleRemove = async (doc: CorpusDocumentInfo) => {
+    try {
+      await removeCorpusDocument(doc.id);
+      setDocuments(prev => prev.filter(d => d.id !== doc.id));
+    } catch (e: any) {
+      toast.error(`Could not remove "${doc.title}": ${e?.message || e}`);
+    }
+  };
+
+  const totalWords = documents.reduce((sum, d) => sum + d.wordCount, 0);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-950/90 backdrop-blur-2xl flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl bg-white dark:bg-slate-900 rounded-[3rem] shadow-2xl overflow-hidden flex flex-col h-[75vh] border border-white/20 animate-in zoom-in duration-300">
+        <div className="p-8 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between bg-slate-50/50 dark:bg-slate-800/30">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-emerald-600 rounded-2xl shadow-lg">
+              <Database className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-black text-slate-900 dark:text-white uppercase tracking-tighter">Reference Corpus</h2>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{documents.length} documents · {totalWords.toLocaleString()} words · stored on this device</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-all">
+            <X className="w-6 h-6 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="p-6 border-b border-slate-100 dark:border-slate-800 space-y-4">
+          <div className="flex items-center gap-2">
+            {KINDS.map(k => (
+              <button key={k} onClick={() => setKind(k)} disabled={!!importing} className={`px-4 py-2.5 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${kind === k ? 'bg-slate-900 text-white border-slate-900 dark:bg-indigo-600 dark:border-indigo-600' : 'bg-white dark:bg-slate-800 text-slate-500 border-slate-200 dark:border-slate-700 hover:border-indigo-400'}`}>
+                {corpusKindLabel(k)}
+              </button>
+            ))}
+          </div>
+          {importing ? (
+            <div className="flex items-center justify-between gap-4 px-6 py-5 bg-indigo-50 dark:bg-indigo-900/20 rounded-2xl">
+              <div className="flex items-center gap-3 min-w-0">
+                <RefreshCw className="w-4 h-4 text-indigo-600 animate-spin shrink-0" />
+                <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest truncate">{importing}</span>
+              </div>
+              <button onClick={() => importJob.current?.abort()} className="text-[9px] font-black text-slate-500 hover:text-rose-600 uppercase tracking-widest shrink-0">Cancel Import</button>
+            </div>
+          ) : (
+            <label className="flex items-center justify-center gap-3 px-6 py-5 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-2xl cursor-pointer hover:border-indigo-400 transition-all">
+              <Upload className="w-4 h-4 text-indigo-600" />
+              <span className="text-[10px] font-black text-slate-600 dark:text-slate-300 uppercase tracking-widest">Add {corpusKindLabel(kind)}s (.txt, .md, .pdf, .docx)</span>
+              <input type="file" multiple className="hidden" accept=".txt,.md,.pdf,.docx" onChange={(e) => { const files = Array.from(e.target.files || []); e.target.value = ''; if (files.length) handleFiles(files); }} />
+            </label>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3 bg-slate-50/30 dark:bg-slate-950/30">
+          {documents.length === 0 ? (
+            <div className="h-full flex flex-col items-center justify-center text-slate-300 gap-4 text-center">
+              <Database className="w-12 h-12 opacity-20" />
+              <p className="text-sm font-bold uppercase tracking-widest">No documents in the corpus.</p>
+              <p className="text-[10px] font-bold uppercase tracking-widest max-w-sm">Every scan is checked against these documents offline.</p>
+            </div>
+          ) : (
+            documents.map(d => (
+              <div key={d.id} className="p-5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-2xl flex items-center justify-between gap-4">
+                <div className="flex items-center gap-4 min-w-0">
+                  <FileText className="w-5 h-5 text-slate-400 shrink-0" />
+                  <div className="min-w-0">
+                    <h4 className="text-sm font-black text-slate-900 dark:text-white tracking-tight truncate">{d.title}</h4>
+                    <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-1">
+                      {corpusKindLabel(d.kind)} · {d.wordCount.toLocaleString()} words · {new Date(d.addedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                <button onClick={() => handleRemove(d)} disabled={!!importing} className="p-3 text-slate-400 hover:text-rose-600 rounded-xl transition-all disabled:opacity-40 shrink-0">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="p-6 bg-slate-900 flex items-center gap-4 border-t border-white/10">
+          <ShieldCheck className="w-5 h-5 text-emerald-400" />
+          <span className="text-[9px] font-black text-slate-400 uppercase tracking-[0.2em]">Matched by fingerprint on this device · nothing is uploaded</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CorpusManager;
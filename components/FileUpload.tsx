@@ -4,11 +4,12 @@ import {
   Presentation, FileSearch, Mic,
   Shuffle, Zap, ArrowRight,
   Activity, GraduationCap, ShieldCheck, Loader2, Sparkles, FileText,
-  RefreshCcw
+  RefreshCcw, XCircle
 } from 'lucide-react';
 import { parseFile } from '../services/documentParser';
+import { isCancellation } from '../services/cancellation';
 import toast from 'react-hot-toast';
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 
 interface FileUploadProps {
   onTextLoaded: (text: string, fileName: string) => void;
@@ -23,6 +24,9 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTextLoaded, isLoading }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [parsingMsg, setParsingMsg] = useState('');
+  const importJob = useRef<AbortController | null>(null);
+
+  useEffect(() => () => importJob.current?.abort(), []);
 
   useEffect(() => {
     const words = inputText.trim() ? inputText.trim().split(/\s+/).filter(w => w.length > 0) : [];
@@ -32,13 +36,17 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTextLoaded, isLoading }) => {
   const processFile = async (file: File) => {
     setIsProcessing(true);
     setParsingMsg('Initiating Bulk Document Audit...');
+    const job = new AbortController();
+    importJob.current = job;
     try {
-      const text = await parseFile(file, (msg) => setParsingMsg(msg));
+      const text = await parseFile(file, (msg) => setParsingMsg(msg), job.signal);
       onTextLoaded(text, file.name);
       toast.success("Document Ingested Successfully");
     } catch (e: any) { 
-      toast.error(e.message); 
+      if (isCancellation(e)) toast('Import cancelled.', { icon: '⏹️' });
+      else toast.error(e.message); 
     } finally { 
+      if (importJob.current === job) importJob.current = null;
       setIsProcessing(false); 
       setParsingMsg('');
     }
@@ -71,6 +79,11 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTextLoaded, isLoading }) => {
                 <p className={`text-[10px] font-bold uppercase tracking-[0.2em] max-w-[240px] mx-auto leading-relaxed transition-colors ${isDragging ? 'text-indigo-100' : 'text-slate-400 dark:text-slate-500'}`}>
                     {parsingMsg || 'PDF, DOCX, or Text. Our engine handles hundreds of pages simultaneously for free. Forensic analysis at scale.'}
                 </p>
+                {isProcessing && (
+                  <button onClick={(e) => { e.stopPropagation(); importJob.current?.abort(); }} className="inline-flex items-center gap-2 px-5 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-[9px] font-black text-slate-500 uppercase tracking-widest hover:border-rose-400 hover:text-rose-600 transition-all">
+                    <XCircle className="w-3.5 h-3.5" /> Cancel Import
+                  </button>
+                )}
              </div>
              
              <div className="flex items-center gap-2 mt-4 px-4 py-2 bg-emerald-50 dark:bg-emerald-900/20 border border-emerald-100 dark:border-emerald-800/30 rounded-xl">
@@ -0,0 +1,60 @@
+import React from 'react';
+import { AlertTriangle, Bot, Link2, ShieldCheck } from 'lucide-react';
+import { ParagraphAnalysis, SourceMatch } from '../types';
+
+interface ParagraphRiskMapProps {
+  paragraphs: ParagraphAnalysis[];
+  sources: SourceMatch[];
+}
+
+const ParagraphRiskMap: React.FC<ParagraphRiskMapProps> = ({ paragraphs, sources }) => {
+  const flagged = paragraphs.filter(p => p.matchType !== 'SAFE');
+  const sourceIndex = new Map(sources.map((s, i) => [s.id, { source: s, number: i + 1 }]));
+
+  if (paragraphs.length === 0) return null;
+
+  return (
+    <div className="max-w-5xl mx-auto w-full space-y-6">
+      <div className="flex items-center justify-between px-2">
+        <h4 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.3em] font-sans">Paragraph Risk Map</h4>
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest font-sans">{flagged.length} of {paragraphs.length} paragraphs flagged</span>
+      </div>
+
+      {flagged.length === 0 ? (
+        <div className="p-8 bg-emerald-50 dark:bg-emerald-900/10 rounded-[2rem] border border-emerald-100 dark:border-emerald-900/30 flex items-center gap-4 font-sans">
+          <ShieldCheck className="w-5 h-5 text-emerald-600" />
+          <p className="text-[11px] font-black text-emerald-700 dark:text-emerald-400 uppercase tracking-widest">No paragraph-level findings</p>
+        </div>
+      ) : (
+        flagged.map(p => (
+          <div key={p.index} className={`p-8 rounded-[2rem] border space-y-4 ${p.matchType === 'PLAGIARISM' ? 'bg-rose-50/50 dark:bg-rose-950/10 border-rose-100 dark:border-rose-900/30' : 'bg-amber-50/50 dark:bg-amber-950/10 border-amber-100 dark:border-amber-900/30'}`}>
+            <div className="flex items-center justify-between font-sans">
+              <div className="flex items-center gap-3">
+                {p.matchType === 'PLAGIARISM' ? <AlertTriangle className="w-4 h-4 text-rose-500" /> : <Bot className="w-4 h-4 text-amber-500" />}
+                <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">¶ {p.index + 1} · {p.matchType === 'PLAGIARISM' ? 'Source Match' : 'AI Pattern'}</span>
+              </div>
+              <span className={`text-[11px] font-black tabular-nums ${p.riskScore >= 50 ? 'text-rose-600' : 'text-amber-600'}`}>{p.riskScore}%</span>
+            </div>
+            <p className="text-base text-slate-700 dark:text-slate-300 leading-relaxed line-clamp-4">{p.text}</p>
+            {p.evidence && <p className="text-[11px] font-bold text-slate-500 dark:text-slate-400 font-sans">{p.evidence}</p>}
+            {p.sourceIds.length > 0 && (
+              <div className="flex flex-wrap gap-2 font-sans">
+                {p.sourceIds.map(id => {
+                  const entry = sourceIndex.get(id);
+                  if (!entry) return null;
+                  return (
+                    <a key={id} href={entry.source.url} target="_blank" rel="noreferrer" className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-full text-[9px] font-black text-indigo-600 uppercase tracking-widest hover:border-indigo-400 transition-all">
+                      <Link2 className="w-3 h-3" /> #{entry.number} {entry.source.title}
+                    </a>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default ParagraphRiskMap;
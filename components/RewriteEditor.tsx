@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import { AlertTriangle, Quote, RefreshCw, RotateCcw } from 'lucide-react';
+import { RewriteChunkOutcome } from '../types';
+import { hashString } from '../services/hash';
+import { locateChunkOutput } from '../services/geminiService';
+import { CitationIssue, CitationIssueKind } from '../services/citationIntegrity';
+
+interface RewriteEditorProps {
+  text: string;
+  outcomes: RewriteChunkOutcome[];
+  retryingIndex: number | null;
+  onUpdateText: (text: string) => void;
+  onRetryChunk: (index: number) => void;
+  /** Citation problems found in `text`; located ones are marked inline. */
+  citationIssues?: CitationIssue[];
+}
+
+const ISSUE_LABELS: Record<CitationIssueKind, string> = {
+  UNRESOLVED: 'No matching entry',
+  MISMATCH: 'Author or year differs',
+  UNCITED: 'Never cited'
+};
+
+interface MarkedRange {
+  outcome: RewriteChunkOutcome;
+  start: number;
+  end: number;
+}
+
+// Sections are found at their recorded range, or nearby when edits elsewhere in the document moved them
+const locateFlaggedSections = (text: string, outcomes: RewriteChunkOutcome[]): MarkedRange[] => {
+  const ranges: MarkedRange[] = [];
+  outcomes.filter(o => o.status !== 'OK' && o.output).forEach(outcome => {
+    const at = locateChunkOutput(text, outcome);
+    if (at < 0 || ranges.some(r => at < r.end && at + outcome.output.length > r.start)) return;
+    ranges.push({ outcome, start: at, end: at + outcome.output.length });
+  });
+  return ranges.sort((a, b) => a.start - b.start);
+};
+
+const RewriteEditor: React.FC<RewriteEditorProps> = ({ text, outcomes, retryingIndex, onUpdateText, onRetryChunk, citationIssues = [] }) => {
+  const flagged = outcomes.filter(o => o.status !== 'OK');
+  const ranges = useMemo(() => locateFlaggedSections(text, outcomes), [text, outcomes]);
+  const located = new Set(ranges.map(r => r.outcome.index));
+  const inlineIssues = citationIssues.filter(i => i.start !== undefined && i.end !== undefined);
+
+  // Citation marks sit inside section marks; one that straddles a section boundary is listed but not marked
+  const withCitationMarks = (start: number, end: number): React.ReactNode[] => {
+    const nodes: React.ReactNode[] = [];
+    let at = start;
+    inlineIssues.filter(i => i.start! >= at && i.end! <= end).forEach(issue => {
+      if (issue.start! < at) return;
+      if (issue.start! > at) nodes.push(text.slice(at, issue.start));
+      nodes.push(
+        <mark key={`cite-${issue.start}`} title={issue.message} className={`rounded px-0.5 text-inherit underline decoration-wavy decoration-2 underline-offset-4 ${issue.kind === 'UNRESOLVED' ? 'bg-rose-100/80 decoration-rose-500 dark:bg-rose-900/40' : 'bg-amber-100/80 decoration-amber-500 dark:bg-amber-900/40'}`}>
+          {text.slice(issue.start, issue.end)}
+        </mark>
+      );
+      at = issue.end!;
+    });
+    if (at < end) nodes.push(text.slice(at, end));
+    return nodes;
+  };
+
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(r => {
+    if (r.start > cursor) segments.push(...withCitationMarks(cursor, r.start));
+    segments.push(
+      <mark key={r.outcome.id} title={r.outcome.note} className={`rounded-lg px-1 text-inherit ${r.outcome.status === 'FAILED' ? 'bg-rose-100/70 dark:bg-rose-900/30' : 'bg-amber-100/70 dark:bg-amber-900/30'}`}>
+        {withCitationMarks(r.start, r.end)}
+      </mark>
+    );
+    cursor = r.end;
+  });
+  if (cursor < text.length) segments.push(...withCitationMarks(cursor, text.length));
+
+  return (
+    <div className="space-y-10">
+      {flagged.length > 0 && (
+        <div className="p-8 bg-rose-50/60 dark:bg-rose-950/10 rounded-[2rem] border border-rose-100 dark:border-rose-900/30 space-y-5 font-sans">
+          <div className="flex items-center gap-3">
+            <AlertTriangle className="w-5 h-5 text-rose-500" />
+            <h5 className="text-[11px] font-black text-rose-700 dark:text-rose-400 uppercase tracking-widest">{flagged.length} {flagged.length === 1 ? 'section needs' : 'sections need'} attention</h5>
+          </div>
+          {flagged.map(o => (
+            <div key={o.id} className="flex items-start justify-between gap-6 p-5 bg-white dark:bg-slate-900 rounded-2xl border border-slate-100 dark:border-slate-800">
+              <div className="space-y-1 min-w-0">
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                  Section {o.index + 1} · <span className={o.status === 'FAILED' ? 'text-rose-600' : 'text-amber-600'}>{o.status === 'FAILED' ? 'Kept original text' : 'Partially rewritten'}</span>{o.finishReason && o.finishReason !== 'STOP' ? ` · ${o.finishReason}` : ''}
+                </p>
+                {o.note && <p className="text-xs font-medium text-slate-500 dark:text-slate-400 break-words">{o.note}</p>}
+              </div>
+              <button
+                onClick={() => onRetryChunk(o.index)}
+                disabled={retryingIndex !== null || !located.has(o.index)}
+                title={located.has(o.index) ? undefined : 'This section was edited by hand, so it can no longer be replaced automatically.'}
+                className="shrink-0 flex items-center gap-2 px-4 py-2.5 bg-slate-900 text-white rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-black transition-all disabled:opacity-40"
+              >
+                {retryingIndex === o.index ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+                Retry this section
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {citationIssues.length > 0 && (
+        <div className="p-8 bg-amber-50/60 dark:bg-amber-950/10 rounded-[2rem] border border-amber-100 dark:border-amber-900/30 space-y-5 font-sans">
+          <div className="flex items-center gap-3">
+            <Quote className="w-5 h-5 text-amber-500" />
+            <h5 className="text-[11px] font-black text-amber-700 dark:text-amber-400 uppercase tracking-widest">{citationIssues.length} citation {citationIssues.length === 1 ? 'problem' : 'problems'}</h5>
+          </div>
+          {citationIssues.map((issue, i) => (
+            <div key={`${issue.kind}-${issue.start ?? issue.sourceId}-${i}`} className="p-5 bg-white dark:bg-slate-900 rounded-2xl border border-slate-100 dark:border-slate-800 space-y-1 min-w-0">
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                <span className={issue.kind === 'UNRESOLVED' ? 'text-rose-600' : 'text-amber-600'}>{ISSUE_LABELS[issue.kind]}</span> · <span className="normal-case tracking-normal font-serif-doc font-medium text-slate-700 dark:text-slate-300">{issue.label}</span>
+              </p>
+              <p className="text-xs font-medium text-slate-500 dark:text-slate-400 break-words">{issue.message}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div
+        key={hashString(text)}
+        contentEditable
+        suppressContentEditableWarning
+        onBlur={(e) => onUpdateText(e.currentTarget.innerText)}
+        className="outline-none whitespace-pre-wrap p-8 rounded-[2rem] focus:bg-slate-50/50 transition-colors"
+      >
+        {segments}
+      </div>
+    </div>
+  );
+};
+
+export default RewriteEditor;
@@ -6,9 +6,11 @@ import { X, Info, HelpCircle } from 'lucide-react';
 interface ScoreGaugeProps {
   score: number; // 0 to 100
   label: string;
+  explanation?: string; // how this particular number was computed
+  sections?: { heading: string; score: number }[];
 }
 
-const ScoreGauge: React.FC<ScoreGaugeProps> = ({ score, label }) => {
+const ScoreGauge: React.FC<ScoreGaugeProps> = ({ score, label, explanation, sections = [] }) => {
   const [showInfo, setShowInfo] = useState(false);
 
   const safeScore = isNaN(score) ? 0 : Math.max(0, Math.min(100, score));
@@ -42,12 +44,25 @@ const ScoreGauge: React.FC<ScoreGaugeProps> = ({ score, label }) => {
       </button>
 
       {showInfo && (
-        <div className="absolute inset-2 z-30 bg-white/95 dark:bg-slate-900/95 backdrop-blur-md p-6 rounded-[1.5rem] border border-slate-100 dark:border-slate-800 flex flex-col items-center justify-center text-center animate-in zoom-in duration-200 shadow-2xl">
+        <div className="absolute inset-2 z-30 bg-white/95 dark:bg-slate-900/95 backdrop-blur-md p-6 rounded-[1.5rem] border border-slate-100 dark:border-slate-800 flex flex-col items-center justify-center text-center animate-in zoom-in duration-200 shadow-2xl overflow-y-auto">
            <button onClick={() => setShowInfo(false)} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
            <h4 className="text-xs font-black text-slate-900 dark:text-white mb-2 uppercase tracking-tighter font-heading">{label} Logic</h4>
            <p className="text-[9px] text-slate-500 dark:text-slate-400 font-bold leading-relaxed uppercase tracking-widest">
              {getDescription()}
            </p>
+           {explanation && (
+             <p className="mt-3 text-[9px] text-slate-600 dark:text-slate-300 font-bold leading-relaxed">{explanation}</p>
+           )}
+           {sections.length > 1 && (
+             <div className="mt-3 w-full space-y-1">
+               {sections.map((s, i) => (
+                 <div key={i} className="flex items-center justify-between gap-3 text-[9px] font-black uppercase tracking-widest text-slate-500">
+                   <span className="truncate">{s.heading}</span>
+                   <span className="tabular-nums text-slate-900 dark:text-white">{s.score}%</span>
+                 </div>
+               ))}
+             </div>
+           )}
         </div>
       )}
 
@@ -0,0 +1,543 @@
+import { CitationName, CitationStyle, SourceMatch } from '../types';
+import { CitationData, numericMarker, toCitationData } from './citationFormatter';
+import { hashString } from './hash';
+
+/**
+ * BIBLIOGRAPHY INTERCHANGE
+ * Reads and writes the bibliography as BibTeX, RIS or CSL-JSON, the formats
+ * Zotero, Mendeley, EndNote and LaTeX exchange references in. Exports are
+ * built from the same normalized record the citation formatter uses. Imported
+ * entries become SourceMatch records with no snippet or score, and are merged
+ * with the sources analysis found: a DOI, URL or title-and-year match counts
+ * as the same work and only fills in fields the found source is missing.
+ */
+
+export type BibliographyFormat = 'BIBTEX' | 'RIS' | 'CSL_JSON';
+
+export const BIBLIOGRAPHY_FORMATS: Record<BibliographyFormat, { label: string; extension: string; mime: string }> = {
+  BIBTEX: { label: 'BibTeX', extension: 'bib', mime: 'application/x-bibtex' },
+  RIS: { label: 'RIS', extension: 'ris', mime: 'application/x-research-info-systems' },
+  CSL_JSON: { label: 'CSL-JSON', extension: 'json', mime: 'application/vnd.citationstyles.csl+json' }
+};
+
+export interface BibliographyMerge {
+  sources: SourceMatch[];
+  /** Imported entries that were new. */
+  added: number;
+  /** Imported entries that matched a source already in the list. */
+  duplicates: number;
+}
+
+/** Bibliographic fields an imported entry may carry; the rest of SourceMatch belongs to analysis. */
+type ImportedFields = Pick<SourceMatch, 'type' | 'title' | 'url' | 'authors' | 'year' | 'container' | 'volume' | 'issue' | 'pages' | 'doi' | 'publisher' | 'accessed'>;
+
+const MERGEABLE_FIELDS = ['authors', 'year', 'container', 'volume', 'issue', 'pages', 'doi', 'publisher', 'accessed', 'referenceText'] as const;
+
+// --- Shared helpers ---
+
+const nameText = (n: CitationName) => n.given ? `${n.family}, ${n.given}` : n.family;
+
+const pageRange = (pages?: string): [string, string] | [] => {
+  if (!pages) return [];
+  const [first, last] = pages.split(/\s*[-–—]+\s*/);
+  return [first, last || ''];
+};
+
+const toSource = (fields: Partial<ImportedFields>): SourceMatch | null => {
+  const title = fields.title?.trim();
+  if (!title) return null;
+  const doi = fields.doi?.trim().replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, '') || undefined;
+  const url = fields.url?.trim() || (doi ? `https://doi.org/${doi}` : '');
+  const authors = (fields.authors || []).filter(n => n.family.trim());
+  return {
+    id: `ref-${hashString(`${title}|${fields.year || ''}|${doi || url}`)}`,
+    url,
+    title,
+    snippet: '',
+    similarity: 0,
+    impactScore: 0,
+    type: fields.type || 'WEB',
+    imported: true,
+    ...(authors.length ? { authors, author: authors.map(nameText).join('; ') } : {}),
+    ...(fields.year ? { year: fields.year } : {}),
+    ...(fields.container ? { container: fields.container } : {}),
+    ...(fields.volume ? { volume: fields.volume } : {}),
+    ...(fields.issue ? { issue: fields.issue } : {}),
+    ...(fields.pages ? { pages: fields.pages } : {}),
+    ...(doi ? { doi } : {}),
+    ...(fields.publisher ? { publisher: fields.publisher } : {}),
+    ...(fields.accessed ? { accessed: fields.accessed } : {})
+  };
+};
+
+// A website's host name stands in for its container when citing, but is not worth exporting
+const containerOf = (source: SourceMatch, d: CitationData) => d.work === 'web' ? source.container?.trim() || undefined : d.container;
+
+const firstYear = (value?: string) => value?.match(/\d{4}/)?.[0];
+
+const isoDate = (parts: (number | string)[] | undefined) => {
+  if (!parts?.length) return undefined;
+  const [y, m = 1, d = 1] = parts.map(Number);
+  return isNaN(y) ? undefined : `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+};
+
+// --- BibTeX ---
+
+const BIBTEX_TYPES: Record<SourceMatch['type'], string> = {
+  JOURNAL: 'article',
+  BOOK: 'book',
+  WEB: 'misc',
+  INSTITUTIONAL: 'techreport',
+  CORPUS: 'misc'
+};
+
+const BIBTEX_SPECIALS = /([&%$#_])/g;
+// \"u, \'{e}, {\c c}: LaTeX accent commands and the combining marks they stand for
+const LATEX_ACCENTS: Record<string, string> = {
+  '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303', '=': '\u0304', '.': '\u0307',
+  c: '\u0327', v: '\u030C', u: '\u0306', H: '\u030B', k: '\u0328'
+};
+const LATEX_SYMBOLS: Record<string, string> = { ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', i: 'ı' };
+
+const bibtexValue = (text: string) => `{${text.replace(BIBTEX_SPECIALS, '\\$1')}}`;
+
+// Organisations are braced so BibTeX does not split them into given and family names
+const bibtexName = (n: CitationName) => {
+  const escaped = { family: n.family.replace(BIBTEX_SPECIALS, '\\$1'), given: n.given?.replace(BIBTEX_SPECIALS, '\\$1') };
+  return escaped.given ? `${escaped.family}, ${escaped.given}` : `{${escaped.family}}`;
+};
+
+const citeKey = (source: SourceMatch, used: Set<string>) => {
+  const d = toCitationData(source);
+  const family = (d.names[0]?.family || 'anon').normalize('NFD').replace(/[^A-Za-z]/g, '').toLowerCase() || 'anon';
+  const word = d.title.normalize('NFD').split(/\s+/).map(w => w.replace(/[^A-Za-z]/g, '').toLowerCase()).find(w => w.length > 3) || 'untitled';
+  const base = `${family}${d.year?.slice(0, 4) || ''}${word}`;
+  let key = base;
+  for (let n = 0; used.has(key); n++) key = `${base}${String.fromCharCode(97 + (n % 26))}${n >= 26 ? Math.floor(n / 26) : ''}`;
+  used.add(key);
+  return key;
+};
+
+const toBibtex = (sources: SourceMatch[]): string => {
+  const used = new Set<string>();
+  return sources.map(source => {
+    const d = toCitationData(source);
+    const [first, last] = pageRange(d.pages);
+    const fields: [string, string | undefined][] = [
+      ['author', d.names.length ? d.names.map(bibtexName).join(' and ') : undefined],
+      ['title', d.title],
+      [d.work === 'article' ? 'journal' : d.work === 'book' ? 'series' : 'howpublished', containerOf(source, d)],
+      ['year', d.year],
+      ['volume', d.volume],
+      ['number', d.issue],
+      ['pages', first ? (last ? `${first}--${last}` : first) : undefined],
+      ['publisher', d.publisher],
+      ['doi', d.doi],
+      ['url', d.url],
+      ['urldate', d.accessed?.toISOString().slice(0, 10)]
+    ];
+    const body = fields
+      .filter((f): f is [string, string] => !!f[1])
+      // Names and URLs are already in BibTeX syntax
+      .map(([name, value]) => `  ${name} = ${name === 'author' || name === 'url' || name === 'doi' ? `{${value}}` : bibtexValue(value)}`)
+      .join(',\n');
+    return `@${BIBTEX_TYPES[source.type]}{${citeKey(source, used)},\n${body}\n}`;
+  }).join('\n\n') + '\n';
+};
+
+const decodeLatex = (value: string): string =>
+  value
+    .replace(/\\([`'^"~=.])\s*\{?([A-Za-z])\}?/g, (_, accent, letter) => letter + LATEX_ACCENTS[accent])
+    .replace(/\\([cvuHk])\s*\{([A-Za-z])\}|\\([cvuHk])\s+([A-Za-z])/g, (_, a1, l1, a2, l2) => (l1 || l2) + LATEX_ACCENTS[a1 || a2])
+    .replace(/\\(ss|ae|AE|oe|OE|aa|AA|o|O|l|L|i)(?![A-Za-z])\s*/g, (_, symbol) => LATEX_SYMBOLS[symbol])
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/\\textendash\b\s*|--/g, '–')
+    .replace(/\\[A-Za-z]+\s*/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/~/g, ' ')
+    .replace(/\s+/g, ' ')
+    .normalize('NFC')
+    .trim();
+
+/** Reads one braced, parenthesized or quoted value starting at `at`; returns the inner text and the index after it. */
+const readDelimited = (text: string, at: number): [string, number] => {
+  const open = text[at];
+  const close = open === '(' ? ')' : '}';
+  if (open === '"') {
+    let depth = 0;
+    for (let i = at + 1; i < text.length; i++) {
+      if (text[i] === '{') depth++;
+      else if (text[i] === '}') depth--;
+      else if (text[i] === '"' && depth === 0 && text[i - 1] !== '\\') return [text.slice(at + 1, i), i + 1];
+    }
+    return [text.slice(at + 1), text.length];
+  }
+  let depth = 0;
+  for (let i = at; i < text.length; i++) {
+    if (text[i - 1] === '\\') continue;
+    if (text[i] === open) depth++;
+    else if (text[i] === close && --depth === 0) return [text.slice(at + 1, i), i + 1];
+  }
+  return [text.slice(at + 1), text.length];
+};
+
+/** Splits at `separator` only outside braces. */
+const splitTopLevel = (text: string, separator: RegExp): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let from = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}') depth--;
+    else if (depth === 0) {
+      const m = text.slice(i).match(separator);
+      if (m?.index === 0) {
+        parts.push(text.slice(from, i));
+        i += m[0].length - 1;
+        from = i + 1;
+      }
+    }
+  }
+  parts.push(text.slice(from));
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+const bibtexNames = (raw: string): CitationName[] =>
+  splitTopLevel(raw, /^\s+and\s+/i).filter(n => !/^others$/i.test(n)).map((name): CitationName => {
+    // A fully braced name is a literal, usually an organisation
+    if (/^\{[^{}]*\}$/.test(name)) return { family: decodeLatex(name) };
+    const parts = splitTopLevel(name, /^,/);
+    // "von Last, Jr, First" or "von Last, First"
+    if (parts.length >= 2) return { family: decodeLatex(parts[0]), given: decodeLatex(parts[parts.length - 1]) };
+    // "First von Last": the family name starts at the first lowercase word, or is the last word
+    const words = splitTopLevel(name, /^\s+/);
+    let at = words.findIndex((w, i) => i > 0 && i < words.length - 1 && /^[a-z]/.test(w));
+    if (at < 0) at = words.length - 1;
+    const given = decodeLatex(words.slice(0, at).join(' '));
+    return { family: decodeLatex(words.slice(at).join(' ')), ...(given ? { given } : {}) };
+  });
+
+const fromBibtex = (text: string): SourceMatch[] => {
+  const strings: Record<string, string> = {};
+  const entries: SourceMatch[] = [];
+  const entryStart = /@(\w+)\s*[{(]/g;
+  let m: RegExpExecArray | null;
+  while ((m = entryStart.exec(text))) {
+    const type = m[1].toLowerCase();
+    const [body, next] = readDelimited(text, m.index + m[0].length - 1);
+    entryStart.lastIndex = next;
+    if (type === 'comment' || type === 'preamble') continue;
+
+    // Field values may be braced, quoted, bare numbers or @string macros joined with #
+    const fields: Record<string, string> = {};
+    const fieldStart = /([\w-]+)\s*=\s*/g;
+    let pos = type === 'string' ? 0 : body.indexOf(',') + 1;
+    if (pos === 0 && type !== 'string') continue;
+    fieldStart.lastIndex = pos;
+    let f: RegExpExecArray | null;
+    while ((f = fieldStart.exec(body))) {
+      pos = f.index + f[0].length;
+      let value = '';
+      for (;;) {
+        const c = body[pos];
+        if (c === '{' || c === '"') {
+          const [raw, after] = readDelimited(body, pos);
+          value += raw;
+          pos = after;
+        } else {
+          const bare = body.slice(pos).match(/^[^\s,#}]+/)?.[0] || '';
+          value += strings[bare.toLowerCase()] ?? bare;
+          pos += bare.length;
+        }
+        const join = body.slice(pos).match(/^\s*#\s*/);
+        if (!join) break;
+        pos += join[0].length;
+      }
+      fields[f[1].toLowerCase()] = value;
+      fieldStart.lastIndex = pos;
+    }
+    if (type === 'string') {
+      Object.assign(strings, fields);
+      continue;
+    }
+
+    const get = (name: string) => fields[name] !== undefined ? decodeLatex(fields[name]) || undefined : undefined;
+    const sourceType: SourceMatch['type'] = ['article', 'inproceedings', 'conference', 'periodical'].includes(type) ? 'JOURNAL'
+      : ['book', 'inbook', 'incollection', 'mvbook', 'booklet', 'collection'].includes(type) ? 'BOOK'
+      : ['techreport', 'report', 'manual', 'phdthesis', 'mastersthesis', 'thesis'].includes(type) ? 'INSTITUTIONAL'
+      : 'WEB';
+    const source = toSource({
+      type: sourceType,
+      title: get('title'),
+      authors: fields.author ? bibtexNames(fields.author) : fields.editor ? bibtexNames(fields.editor) : undefined,
+      year: firstYear(get('year') || get('date')),
+      container: get('journal') || get('journaltitle') || get('booktitle') || get('series') || get('howpublished'),
+      volume: get('volume'),
+      issue: get('number') || get('issue'),
+      pages: get('pages'),
+      doi: get('doi'),
+      url: fields.url?.trim().replace(/^\{|\}$/g, ''),
+      publisher: get('publisher') || get('institution') || get('organization') || get('school'),
+      accessed: get('urldate')?.match(/^\d{4}-\d{2}-\d{2}/)?.[0]
+    });
+    if (source) entries.push(source);
+  }
+  return entries;
+};
+
+// --- RIS ---
+
+const RIS_TYPES: Record<SourceMatch['type'], string> = {
+  JOURNAL: 'JOUR',
+  BOOK: 'BOOK',
+  WEB: 'ELEC',
+  INSTITUTIONAL: 'RPRT',
+  CORPUS: 'GEN'
+};
+
+const toRis = (sources: SourceMatch[]): string =>
+  sources.map(source => {
+    const d = toCitationData(source);
+    const [first, last] = pageRange(d.pages);
+    const lines: [string, string | undefined][] = [
+      ['TY', RIS_TYPES[source.type]],
+      ...d.names.map((n): [string, string] => ['AU', nameText(n)]),
+      ['TI', d.title],
+      [d.work === 'article' ? 'JO' : 'T2', containerOf(source, d)],
+      ['PY', d.year],
+      ['VL', d.volume],
+      ['IS', d.issue],
+      ['SP', first],
+      ['EP', last],
+      ['PB', d.publisher],
+      ['DO', d.doi],
+      ['UR', d.url],
+      ['Y2', d.accessed?.toISOString().slice(0, 10)],
+      ['ER', '']
+    ];
+    return lines.filter(([tag, value]) => tag === 'ER' || value).map(([tag, value]) => `${tag}  - ${value}`).join('\r\n');
+  }).join('\r\n\r\n') + '\r\n';
+
+const fromRis = (text: string): SourceMatch[] => {
+  const entries: SourceMatch[] = [];
+  let record: Record<string, string[]> | null = null;
+  for (const line of text.split(/\r?\n/)) {
+    const m = line.match(/^([A-Z][A-Z0-9])  -\s?(.*)$/);
+    if (!m) continue;
+    const [, tag, value] = m;
+    if (tag === 'TY') record = {};
+    if (!record) continue;
+    if (tag !== 'ER') {
+      (record[tag] ||= []).push(value.trim());
+      continue;
+    }
+
+    const get = (...tags: string[]) => tags.map(t => record![t]?.[0]).find(Boolean);
+    const type = get('TY') || '';
+    const [sp, ep] = [get('SP'), get('EP')];
+    const source = toSource({
+      type: ['JOUR', 'JFULL', 'MGZN', 'NEWS', 'CONF', 'CPAPER', 'EJOUR'].includes(type) ? 'JOURNAL'
+        : ['BOOK', 'CHAP', 'EBOOK', 'ECHAP', 'EDBOOK'].includes(type) ? 'BOOK'
+        : ['RPRT', 'GOVDOC', 'THES', 'STAND'].includes(type) ? 'INSTITUTIONAL'
+        : 'WEB',
+      title: get('TI', 'T1', 'CT'),
+      authors: ['AU', 'A1'].flatMap(t => record![t] || []).map((name): CitationName => {
+        const [family, given] = name.split(/\s*,\s*/, 2);
+        return given ? { family, given } : { family };
+      }),
+      year: firstYear(get('PY', 'Y1', 'DA')),
+      container: get('T2', 'JO', 'JF', 'JA', 'BT', 'T3'),
+      volume: get('VL'),
+      issue: get('IS'),
+      pages: sp ? (ep && ep !== sp ? `${sp}–${ep}` : sp) : undefined,
+      doi: get('DO'),
+      url: get('UR', 'L2'),
+      publisher: get('PB'),
+      accessed: get('Y2')?.replace(/\//g, '-').match(/^\d{4}-\d{2}-\d{2}/)?.[0]
+    });
+    if (source) entries.push(source);
+    record = null;
+  }
+  return entries;
+};
+
+// --- CSL-JSON ---
+
+interface CslName {
+  family?: string;
+  given?: string;
+  literal?: string;
+}
+
+interface CslDate {
+  'date-parts'?: (number | string)[][];
+  raw?: string;
+  literal?: string;
+}
+
+interface CslItem {
+  id?: string | number;
+  type?: string;
+  title?: string;
+  author?: CslName[];
+  editor?: CslName[];
+  issued?: CslDate;
+  accessed?: CslDate;
+  'container-title'?: string | string[];
+  volume?: string | number;
+  issue?: string | number;
+  page?: string;
+  DOI?: string;
+  URL?: string;
+  publisher?: string;
+}
+
+const CSL_TYPES: Record<SourceMatch['type'], string> = {
+  JOURNAL: 'article-journal',
+  BOOK: 'book',
+  WEB: 'webpage',
+  INSTITUTIONAL: 'report',
+  CORPUS: 'document'
+};
+
+const toCslJson = (sources: SourceMatch[]): string => {
+  const used = new Set<string>();
+  const items = sources.map((source): CslItem => {
+    const d = toCitationData(source);
+    const container = containerOf(source, d);
+    const accessed = d.accessed ? [[d.accessed.getUTCFullYear(), d.accessed.getUTCMonth() + 1, d.accessed.getUTCDate()]] : undefined;
+    return {
+      id: citeKey(source, used),
+      type: CSL_TYPES[source.type],
+      title: d.title,
+      ...(d.names.length ? { author: d.names.map(n => n.given ? { family: n.family, given: n.given } : { literal: n.family }) } : {}),
+      ...(d.year ? { issued: { 'date-parts': [[Number(d.year.slice(0, 4))]] } } : {}),
+      ...(container ? { 'container-title': container } : {}),
+      ...(d.volume ? { volume: d.volume } : {}),
+      ...(d.issue ? { issue: d.issue } : {}),
+      ...(d.pages ? { page: d.pages } : {}),
+      ...(d.doi ? { DOI: d.doi } : {}),
+      ...(d.url ? { URL: d.url } : {}),
+      ...(d.publisher ? { publisher: d.publisher } : {}),
+      ...(accessed ? { accessed: { 'date-parts': accessed } } : {})
+    };
+  });
+  return `${JSON.stringify(items, null, 2)}\n`;
+};
+
+const fromCslJson = (text: string): SourceMatch[] => {
+  const parsed: unknown = JSON.parse(text);
+  const items: CslItem[] = Array.isArray(parsed) ? parsed : parsed && typeof parsed === 'object' ? [parsed as CslItem] : [];
+  const str = (value: unknown) => (typeof value === 'string' || typeof value === 'number') && String(value).trim() ? String(value).trim() : undefined;
+  const cslNames = (names?: CslName[]) => (Array.isArray(names) ? names : [])
+    .map((n): CitationName | null => n.family ? { family: n.family, ...(n.given ? { given: n.given } : {}) } : n.literal ? { family: n.literal } : null)
+    .filter((n): n is CitationName => !!n);
+
+  return items.flatMap(item => {
+    if (!item || typeof item !== 'object') return [];
+    const type = item.type || '';
+    const authors = cslNames(item.author);
+    const container = Array.isArray(item['container-title']) ? item['container-title'][0] : item['container-title'];
+    const source = toSource({
+      type: type.startsWith('article') || type === 'paper-conference' ? 'JOURNAL'
+        : type === 'book' || type === 'chapter' ? 'BOOK'
+        : type === 'report' || type === 'thesis' || type === 'legislation' ? 'INSTITUTIONAL'
+        : 'WEB',
+      title: str(item.title),
+      authors: authors.length ? authors : cslNames(item.editor),
+      year: firstYear(str(item.issued?.['date-parts']?.[0]?.[0]) || item.issued?.raw || item.issued?.literal),
+      container: str(container),
+      volume: str(item.volume),
+      issue: str(item.issue),
+      pages: str(item.page),
+      doi: str(item.DOI),
+      url: str(item.URL),
+      publisher: str(item.publisher),
+      accessed: isoDate(item.accessed?.['date-parts']?.[0]) || item.accessed?.raw?.match(/^\d{4}-\d{2}-\d{2}/)?.[0]
+    });
+    return source ? [source] : [];
+  });
+};
+
+// --- Public API ---
+
+export const serializeBibliography = (sources: SourceMatch[], format: BibliographyFormat): string =>
+  format === 'BIBTEX' ? toBibtex(sources) : format === 'RIS' ? toRis(sources) : toCslJson(sources);
+
+/** Recognizes the format from the file's contents, so a mislabelled extension still imports. */
+export const detectBibliographyFormat = (text: string): BibliographyFormat | null => {
+  const trimmed = text.replace(/^﻿/, '').trimStart();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'CSL_JSON';
+  if (/^TY  - /m.test(trimmed)) return 'RIS';
+  if (/^\s*@\w+\s*[{(]/m.test(trimmed)) return 'BIBTEX';
+  return null;
+};
+
+export const parseBibliography = (text: string): SourceMatch[] => {
+  const format = detectBibliographyFormat(text);
+  if (!format) throw new Error('Unrecognized bibliography format. Use BibTeX, RIS or CSL-JSON.');
+  const content = text.replace(/^﻿/, '');
+  if (format === 'CSL_JSON') {
+    try {
+      return fromCslJson(content);
+    } catch {
+      throw new Error('The CSL-JSON file could not be read.');
+    }
+  }
+  return format === 'RIS' ? fromRis(content) : fromBibtex(content);
+};
+
+const normalizedUrl = (url: string) => url.toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/[/#?]+$/, '');
+const normalizedTitle = (title: string) => title.normalize('NFD').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const identityKeys = (source: SourceMatch): string[] => {
+  const d = toCitationData(source);
+  return [
+    d.doi && `doi:${d.doi.toLowerCase()}`,
+    d.url && !/doi\.org\//i.test(d.url) && `url:${normalizedUrl(d.url)}`,
+    `title:${normalizedTitle(d.title)}:${d.year?.slice(0, 4) || ''}`
+  ].filter((k): k is string => !!k);
+};
+
+/** Appends imported entries that are not already listed; duplicates only fill in missing fields. */
+export const mergeBibliography = (existing: SourceMatch[], imported: SourceMatch[]): BibliographyMerge => {
+  const sources = [...existing];
+  const byKey = new Map<string, number>();
+  const index = (source: SourceMatch, at: number) => identityKeys(source).forEach(k => { if (!byKey.has(k)) byKey.set(k, at); });
+  sources.forEach(index);
+
+  let added = 0;
+  let duplicates = 0;
+  imported.forEach(entry => {
+    const match = identityKeys(entry).map(k => byKey.get(k)).find(at => at !== undefined);
+    if (match === undefined) {
+      sources.push(entry);
+      index(entry, sources.length - 1);
+      added++;
+      return;
+    }
+    const current = sources[match];
+    const filled = MERGEABLE_FIELDS.filter(field => !current[field] && entry[field]);
+    if (filled.length > 0) {
+      sources[match] = { ...current, ...Object.fromEntries(filled.map(field => [field, entry[field]])) };
+      index(sources[match], match);
+    }
+    duplicates++;
+  });
+  return { sources, added, duplicates };
+};
+
+/**
+ * Found sources together with the document's own reference list. Numeric
+ * styles cite by position, so there the entries the reference list names keep
+ * its order at the front and "[3]" still means its third entry; other styles
+ * list found sources first.
+ */
+export const withReferenceList = (found: SourceMatch[], referenceList: SourceMatch[], style: CitationStyle): SourceMatch[] => {
+  const sources = mergeBibliography(found, referenceList).sources;
+  if (!numericMarker(style) || referenceList.length === 0) return sources;
+  const position = new Map<string, number>();
+  referenceList.forEach((entry, at) => identityKeys(entry).forEach(k => { if (!position.has(k)) position.set(k, at); }));
+  const rank = (source: SourceMatch) => Math.min(Infinity, ...identityKeys(source).map(k => position.get(k) ?? Infinity));
+  return sources.map(source => ({ source, at: rank(source) })).sort((a, b) => a.at - b.at).map(({ source }) => source);
+};
@@ -0,0 +1,49 @@
+/**
+ * Raised when a running scan, rewrite or file import is cancelled by the user.
+ * Callers treat it as a normal outcome rather than a failure.
+ */
+export class CancelledError extends Error {
+  constructor(message = 'The job was cancelled.') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+// The SDK and fetch reject with a DOMException named AbortError when their signal fires
+export const isCancellation = (error: any): boolean =>
+  error instanceof CancelledError || error?.name === 'AbortError';
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new CancelledError();
+};
+
+/** setTimeout that rejects with CancelledError as soon as the signal fires. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new CancelledError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/** Settles with the promise, or rejects with CancelledError the moment the signal fires. */
+export const raceAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new CancelledError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new CancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      error => { signal.removeEventListener('abort', onAbort); reject(error); }
+    );
+  });
+};
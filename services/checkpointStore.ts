@@ -0,0 +1,73 @@
+import { hashString } from './hash';
+import { STORES, isLocalDbAvailable, requestToPromise, withStore } from './localDb';
+
+/**
+ * CHUNK CHECKPOINTS
+ * Long scans and rewrites save each finished chunk under a job id derived from
+ * the document text and the options that shape the output. Re-running the same
+ * job picks the saved chunks back up and only sends the missing ones to the model.
+ * Checkpoint storage is best-effort: if IndexedDB fails the job simply runs in full.
+ */
+
+export type CheckpointJob = 'analysis' | 'rewrite';
+
+interface ChunkCheckpoint<T> {
+  jobId: string;
+  index: number;
+  savedAt: number;
+  result: T;
+}
+
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const checkpointId = (job: CheckpointJob, text: string, options: unknown = null): string =>
+  `${job}:${hashString(text)}:${hashString(JSON.stringify(options))}`;
+
+export const loadCheckpoint = async <T>(jobId: string): Promise<Map<number, T>> => {
+  const saved = new Map<number, T>();
+  if (!isLocalDbAvailable()) return saved;
+  try {
+    const rows = await withStore(STORES.checkpoints, 'readonly', store =>
+      requestToPromise(store.index('jobId').getAll(jobId) as IDBRequest<ChunkCheckpoint<T>[]>)
+    );
+    rows.filter(r => Date.now() - r.savedAt < MAX_AGE_MS).forEach(r => saved.set(r.index, r.result));
+  } catch (e) {
+    console.warn('Checkpoint load failed', e);
+  }
+  return saved;
+};
+
+export const saveChunkCheckpoint = async <T>(jobId: string, index: number, result: T): Promise<void> => {
+  if (!isLocalDbAvailable()) return;
+  try {
+    const row: ChunkCheckpoint<T> = { jobId, index, savedAt: Date.now(), result };
+    await withStore(STORES.checkpoints, 'readwrite', store => requestToPromise(store.put(row)));
+  } catch (e) {
+    console.warn('Checkpoint save failed', e);
+  }
+};
+
+export const clearCheckpoint = async (jobId: string): Promise<void> => {
+  if (!isLocalDbAvailable()) return;
+  try {
+    await withStore(STORES.checkpoints, 'readwrite', async store => {
+      const keys = await requestToPromise(store.index('jobId').getAllKeys(jobId));
+      keys.forEach(k => store.delete(k));
+    });
+  } catch (e) {
+    console.warn('Checkpoint cleanup failed', e);
+  }
+};
+
+/** Drops checkpoints of abandoned jobs; called once on startup. */
+export const pruneCheckpoints = async (): Promise<void> => {
+  if (!isLocalDbAvailable()) return;
+  try {
+    await withStore(STORES.checkpoints, 'readwrite', async store => {
+      const stale = await requestToPromise(store.index('savedAt').getAllKeys(IDBKeyRange.upperBound(Date.now() - MAX_AGE_MS)));
+      stale.forEach(k => store.delete(k));
+    });
+  } catch (e) {
+    console.warn('Checkpoint prune failed', e);
+  }
+};
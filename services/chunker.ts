@@ -0,0 +1,167 @@
+import { hashString } from './hash';
+import { sentenceEnds } from './stylometry';
+
+/**
+ * DOCUMENT CHUNKER
+ * Cuts a document into model-sized pieces without losing track of where each
+ * piece came from. Boundaries prefer paragraphs, then sentences, then clauses,
+ * and only split inside a clause at whitespace as a last resort. Every chunk is
+ * an exact slice of the source, so results map straight back onto offsets.
+ */
+
+export interface TextChunk {
+  id: string;
+  index: number;
+  text: string;
+  start: number;
+  end: number;
+  /** [start, coreStart) repeats the tail of the previous chunk as context. */
+  coreStart: number;
+}
+
+export interface ChunkBudget {
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+// Per-request input budgets. Both jobs run on the pro model; the rewrite budget is
+// smaller because the model has to echo the whole chunk back as JSON, and it has
+// no overlap because overlapping rewrites could not be stitched back together.
+export const CHUNK_BUDGETS = {
+  analysis: { maxTokens: 2500, overlapTokens: 120 },
+  rewrite: { maxTokens: 1600, overlapTokens: 0 }
+} satisfies Record<string, ChunkBudget>;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const CJK_CHAR = /[぀-ヿ㐀-鿿가-힯]/g;
+const IS_CJK = new RegExp(CJK_CHAR.source);
+const CHARS_PER_TOKEN = 4;
+
+/** Rough token count: ~4 characters per token for alphabetic scripts, one per CJK character. */
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(CJK_CHAR) || []).length;
+  return Math.ceil(cjk + (text.length - cjk) / CHARS_PER_TOKEN);
+};
+
+// Splits [start, end) at the given cut points so the spans stay contiguous
+const cutAt = (start: number, end: number, cuts: number[]): Span[] => {
+  const spans: Span[] = [];
+  let from = start;
+  cuts.filter(c => c > start && c < end).forEach(c => {
+    if (c > from) spans.push({ start: from, end: c });
+    from = c;
+  });
+  if (end > from) spans.push({ start: from, end });
+  return spans;
+};
+
+const matchEnds = (text: string, start: number, end: number, pattern: RegExp): number[] => {
+  const slice = text.slice(start, end);
+  const cuts: number[] = [];
+  const re = new RegExp(pattern.source, 'gu');
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(slice)) !== null) cuts.push(start + m.index + m[0].length);
+  return cuts;
+};
+
+// Last resort for a single clause over budget: cut at the last whitespace that fits
+const hardSplit = (text: string, start: number, end: number, maxTokens: number): Span[] => {
+  const spans: Span[] = [];
+  let from = start;
+  while (from < end) {
+    let to = from;
+    let cjk = 0;
+    while (to < end) {
+      const nextCjk = cjk + (IS_CJK.test(text[to]) ? 1 : 0);
+      if (Math.ceil(nextCjk + (to + 1 - from - nextCjk) / CHARS_PER_TOKEN) > maxTokens) break;
+      cjk = nextCjk;
+      to++;
+    }
+    if (to >= end) {
+      spans.push({ start: from, end });
+      break;
+    }
+    const space = text.slice(from, to).search(/\s\S*$/);
+    const cut = space > 0 ? from + space + 1 : Math.max(to, from + 1);
+    spans.push({ start: from, end: cut });
+    from = cut;
+  }
+  return spans;
+};
+
+const LEVELS: ((text: string, start: number, end: number) => number[])[] = [
+  (text, start, end) => matchEnds(text, start, end, /\n\s*\n/),
+  (text, start, end) => sentenceEnds(text.slice(start, end)).map(e => start + e),
+  (text, start, end) => matchEnds(text, start, end, /[;:,，、；—–]\s*|\)\s+/)
+];
+
+const splitUnits = (text: string, start: number, end: number, maxTokens: number, level = 0): Span[] => {
+  if (estimateTokens(text.slice(start, end)) <= maxTokens) return [{ start, end }];
+  if (level >= LEVELS.length) return hardSplit(text, start, end, maxTokens);
+  return cutAt(start, end, LEVELS[level](text, start, end))
+    .flatMap(span => splitUnits(text, span.start, span.end, maxTokens, level + 1));
+};
+
+const skipWhitespace = (text: string, index: number): number => {
+  const ws = /\s*/y;
+  ws.lastIndex = index;
+  ws.exec(text);
+  return ws.lastIndex;
+};
+
+const trimSpan = (text: string, span: Span): Span => {
+  const raw = text.slice(span.start, span.end);
+  const lead = raw.length - raw.trimStart().length;
+  return { start: span.start + lead, end: span.start + lead + raw.trim().length };
+};
+
+// Earliest sentence start (or failing that, word start) that keeps the overlap within budget
+const overlapStart = (text: string, floor: number, coreStart: number, overlapTokens: number, boundaries: number[]): number => {
+  if (overlapTokens <= 0) return coreStart;
+  const fits = (b: number) => b >= floor && b < coreStart && estimateTokens(text.slice(b, coreStart)) <= overlapTokens;
+  const sentence = boundaries.find(fits);
+  if (sentence !== undefined) return sentence;
+  const window = Math.max(floor, coreStart - overlapTokens * CHARS_PER_TOKEN);
+  const word = text.slice(window, coreStart).search(/(?<=\s)\S/);
+  return word >= 0 ? window + word : coreStart;
+};
+
+export const chunkDocument = (text: string, budget: ChunkBudget): TextChunk[] => {
+  const coreBudget = Math.max(1, budget.maxTokens - budget.overlapTokens);
+  const units = splitUnits(text, 0, text.length, coreBudget);
+
+  const cores: Span[] = [];
+  let current: Span | null = null;
+  for (const unit of units) {
+    if (current && estimateTokens(text.slice(current.start, unit.end)) <= coreBudget) {
+      current.end = unit.end;
+    } else {
+      if (current) cores.push(current);
+      current = { ...unit };
+    }
+  }
+  if (current) cores.push(current);
+
+  const sentenceStarts = budget.overlapTokens > 0
+    ? sentenceEnds(text).map(e => skipWhitespace(text, e))
+    : [];
+
+  return cores
+    .map(span => trimSpan(text, span))
+    .filter(span => span.end > span.start)
+    .map((core, index, all) => {
+      const start = index === 0 ? core.start : overlapStart(text, all[index - 1].start, core.start, budget.overlapTokens, sentenceStarts);
+      return {
+        id: `c${index}-${hashString(text.slice(core.start, core.end)).slice(0, 8)}`,
+        index,
+        text: text.slice(start, core.end),
+        start,
+        end: core.end,
+        coreStart: core.start
+      };
+    });
+};
@@ -0,0 +1,80 @@
+import { ModelCallError, OUTAGE_KINDS, classifyModelError } from './modelErrors';
+
+/**
+ * CIRCUIT BREAKER
+ * After `failureThreshold` consecutive outage-type failures (network, timeout,
+ * 5xx) the circuit opens and calls fail immediately for `cooldownMs`. The first
+ * call after the cool-down is a trial: success closes the circuit, failure
+ * opens it again. Quota, auth and content errors never trip it.
+ */
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export interface CircuitBreaker {
+  run: <T>(fn: () => Promise<T>) => Promise<T>;
+  state: () => CircuitState;
+}
+
+export const createCircuitBreaker = ({ failureThreshold, cooldownMs }: CircuitBreakerOptions): CircuitBreaker => {
+  let failures = 0;
+  let openedAt = 0;
+  let state: CircuitState = 'CLOSED';
+  let trialInFlight = false;
+
+  const currentState = (): CircuitState => {
+    if (state === 'OPEN' && Date.now() - openedAt >= cooldownMs) state = 'HALF_OPEN';
+    return state;
+  };
+
+  const open = () => {
+    state = 'OPEN';
+    openedAt = Date.now();
+    failures = 0;
+  };
+
+  return {
+    run: async (fn) => {
+      const now = currentState();
+      if (now === 'OPEN' || (now === 'HALF_OPEN' && trialInFlight)) {
+        const waitSeconds = Math.max(1, Math.ceil((openedAt + cooldownMs - Date.now()) / 1000));
+        throw new ModelCallError('UNAVAILABLE', `Model service paused after repeated failures. Retrying in about ${waitSeconds}s.`, undefined, undefined, waitSeconds * 1000);
+      }
+      const isTrial = now === 'HALF_OPEN';
+      if (isTrial) trialInFlight = true;
+      try {
+        const result = await fn();
+        failures = 0;
+        state = 'CLOSED';
+        return result;
+      } catch (e) {
+        if (OUTAGE_KINDS.includes(classifyModelError(e))) {
+          if (isTrial || ++failures >= failureThreshold) open();
+        } else if (isTrial) {
+          // The service answered, so it is up even though this request failed
+          state = 'CLOSED';
+          failures = 0;
+        }
+        throw e;
+      } finally {
+        if (isTrial) trialInFlight = false;
+      }
+    },
+    state: currentState
+  };
+};
+
+const breakers = new Map<string, CircuitBreaker>();
+
+export const getCircuitBreaker = (key: string, options: CircuitBreakerOptions = { failureThreshold: 5, cooldownMs: 30000 }): CircuitBreaker => {
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = createCircuitBreaker(options);
+    breakers.set(key, breaker);
+  }
+  return breaker;
+};
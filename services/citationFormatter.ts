@@ -0,0 +1,445 @@
+import { CitationName, CitationStyle, SourceMatch } from '../types';
+import { hostOf } from './exclusions';
+
+/**
+ * CITATION FORMATTING
+ * Renders any source as a reference-list entry and an in-text citation in
+ * every CitationStyle, from structured fields instead of the model's free
+ * text. Like CSL, each style is a set of rules over one normalized record
+ * (names, year, title, container, volume, issue, pages, DOI, URL). Output
+ * marks italics with *asterisks* and bold with **double asterisks**, the
+ * inline markup the DOCX exporter already reads; note styles return the
+ * footnote text as their in-text citation.
+ */
+
+export type CitationKind = 'author-date' | 'numeric' | 'note';
+
+export type NumericMarker = 'bracket' | 'parenthesis' | 'superscript';
+
+type WorkType = 'article' | 'book' | 'web';
+
+export interface CitationData {
+  names: CitationName[];
+  year?: string;
+  title: string;
+  container?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  doi?: string;
+  /** Only http(s) addresses; corpus sources have none to print. */
+  url?: string;
+  publisher?: string;
+  accessed?: Date;
+  work: WorkType;
+}
+
+interface StyleRules {
+  kind: CitationKind;
+  heading: string;
+  reference: (d: CitationData, n: number) => string;
+  inText: (d: CitationData, n: number, page?: string) => string;
+}
+
+type GivenForm = 'full' | 'initials' | 'tight' | 'compact';
+
+const PLACEHOLDER_AUTHORS = /^(anon(ymous)?|institutional node|external source|scholarly source|unknown|n\/?a)$/i;
+const ORGANISATION = /\b(university|institute|organi[sz]ation|association|society|council|agency|department|ministry|foundation|centre|center|commission|committee|office|bureau|press|inc|ltd|llc|corp|group|board|network|library|nations|government)\b/i;
+const ACRONYM = /^[\p{Lu}\d&-]{2,}$/u;
+const PARTICLES = new Set(['van', 'von', 'de', 'der', 'den', 'da', 'di', 'del', 'della', 'la', 'le', 'du', 'dos', 'bin', 'ibn', 'al']);
+const INITIALS = /^(?:\p{Lu}\.?[\s-]*)+$/u;
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const SUPERSCRIPT = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+// --- Names ---
+
+const isOrganisation = (name: string) => ORGANISATION.test(name) || ACRONYM.test(name.trim());
+
+const splitFullName = (name: string): CitationName => {
+  const words = name.trim().split(/\s+/);
+  if (words.length === 1 || isOrganisation(name)) return { family: name.trim() };
+  let at = words.length - 1;
+  if (/^(jr|sr|ii|iii|iv)\.?$/i.test(words[at]) && at > 1) at--;
+  while (at > 1 && PARTICLES.has(words[at - 1].toLowerCase())) at--;
+  return { family: words.slice(at).join(' '), given: words.slice(0, at).join(' ') };
+};
+
+/** Splits a free-text author line such as "Smith, J. A.; Doe, J." or "John Smith and Jane Doe" into names. */
+export const parseAuthorString = (author?: string): CitationName[] => {
+  const cleaned = (author || '').replace(/,?\s*(et al\.?|and others)$/i, '').trim();
+  if (!cleaned || PLACEHOLDER_AUTHORS.test(cleaned)) return [];
+  if (isOrganisation(cleaned) && !/;|&|\sand\s/.test(cleaned)) return [{ family: cleaned }];
+
+  return cleaned.split(/\s*;\s*|\s*&\s*|\s+and\s+/i).filter(Boolean).flatMap((part): CitationName[] => {
+    const pieces = part.split(/\s*,\s*/).filter(Boolean);
+    if (pieces.length === 1) return [splitFullName(pieces[0])];
+    // "Smith, J., Doe, K." alternates family names and initials
+    const paired = pieces.length % 2 === 0 && pieces.every((p, i) => (i % 2 === 0 ? !/\s/.test(p) || PARTICLES.has(p.split(/\s+/)[0].toLowerCase()) : INITIALS.test(p) || !/\s/.test(p)));
+    if (paired) return pieces.filter((_, i) => i % 2 === 0).map((family, i) => ({ family, given: pieces[i * 2 + 1] }));
+    return pieces.map(splitFullName);
+  });
+};
+
+const initialsOf = (given: string): string[] =>
+  given.split(/\s+|\.(?=\S)/).filter(Boolean).map(part => part.split('-').map(p => `${p.charAt(0).toUpperCase()}.`).join('-'));
+
+const givenAs = (n: CitationName, form: GivenForm): string => {
+  if (!n.given) return '';
+  if (form === 'full') return n.given;
+  const initials = initialsOf(n.given);
+  if (form === 'initials') return initials.join(' ');
+  if (form === 'tight') return initials.join('');
+  return initials.join('').replace(/[.-]/g, '');
+};
+
+const familyFirst = (n: CitationName, form: GivenForm) =>
+  n.given ? `${n.family}${form === 'compact' ? ' ' : ', '}${givenAs(n, form)}` : n.family;
+
+const givenFirst = (n: CitationName, form: GivenForm) => n.given ? `${givenAs(n, form)} ${n.family}` : n.family;
+
+const joinNames = (names: string[], last: string, pair = last, sep = ', '): string => {
+  if (names.length <= 1) return names[0] || '';
+  if (names.length === 2) return `${names[0]}${pair}${names[1]}`;
+  return `${names.slice(0, -1).join(sep)}${last}${names[names.length - 1]}`;
+};
+
+// In-text name lists: all names up to `upTo`, otherwise the first followed by "et al."
+const familyNames = (d: CitationData, upTo: number, last: string, pair = last): string => {
+  const families = d.names.map(n => n.family);
+  return families.length > upTo ? `${families[0]} et al.` : joinNames(families, last, pair);
+};
+
+// --- Text pieces ---
+
+const join = (parts: (string | undefined | false)[], sep = ' ') => parts.filter(Boolean).join(sep);
+
+/** Adds closing punctuation unless the text already ends a sentence. */
+const end = (text: string | undefined, mark = '.') => !text ? '' : /[.?!]["'”’*]*$/.test(text) ? text : `${text}${mark}`;
+
+const italic = (text?: string) => text ? `*${text}*` : '';
+const bold = (text?: string) => text ? `**${text}**` : '';
+const quoted = (text: string, mark = '.', open = '“', close = '”') => `${open}${end(text, mark)}${close}`;
+const single = (text: string) => `‘${text}’`;
+const range = (pages?: string, dash = '–') => pages ? pages.replace(/\s*[-–—]+\s*/g, dash) : '';
+const firstPage = (pages?: string) => pages ? pages.split(/\s*[-–—]/)[0] : '';
+const shortTitle = (d: CitationData) => d.title.split(/\s+/).slice(0, 4).join(' ');
+const superscript = (n: number) => String(n).split('').map(c => SUPERSCRIPT[Number(c)]).join('');
+const doiLink = (d: CitationData) => d.doi ? `https://doi.org/${d.doi}` : d.url;
+const bareUrl = (url?: string) => url ? url.replace(/^https?:\/\//, '') : '';
+
+const dayMonthYear = (date?: Date) => date ? `${date.getUTCDate()} ${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()}` : '';
+const monthDayYear = (date?: Date) => date ? `${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()}, ${date.getUTCFullYear()}` : '';
+const shortMonth = (date: Date) => MONTHS[date.getUTCMonth()].slice(0, 3);
+const isoDate = (date?: Date) => date ? date.toISOString().slice(0, 10) : '';
+
+// --- Normalization ---
+
+const normalizeDoi = (doi?: string) => doi ? doi.trim().replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, '') || undefined : undefined;
+
+export const toCitationData = (source: SourceMatch): CitationData => {
+  const url = /^https?:\/\//i.test(source.url) ? source.url : undefined;
+  const doi = normalizeDoi(source.doi) || normalizeDoi(url?.match(/doi\.org\/(10\.\S+)/i)?.[1]);
+  const structured = (source.authors || []).filter(n => n.family.trim() && !PLACEHOLDER_AUTHORS.test(n.family.trim()));
+  const work: WorkType = source.type === 'BOOK' ? 'book'
+    : source.type === 'JOURNAL' || (source.container && (source.volume || source.issue || source.pages)) ? 'article'
+    : 'web';
+  const accessed = source.accessed ? new Date(source.accessed) : undefined;
+  return {
+    names: structured.length > 0 ? structured : parseAuthorString(source.author),
+    year: source.year?.match(/\d{4}[a-z]?/)?.[0],
+    title: source.title.trim().replace(/^["“'‘*]+|["”'’*]+$/g, '').replace(/[.\s]+$/, ''),
+    container: source.container?.trim() || (work === 'web' && url ? hostOf(url) || undefined : undefined),
+    volume: source.volume?.trim() || undefined,
+    issue: source.issue?.trim() || undefined,
+    pages: source.pages?.trim() || undefined,
+    doi,
+    url,
+    publisher: source.publisher?.trim() || undefined,
+    accessed: accessed && !isNaN(accessed.getTime()) ? accessed : undefined,
+    work
+  };
+};
+
+// --- Author-date styles ---
+
+const apaNames = (d: CitationData) => {
+  const names = d.names.map(n => familyFirst(n, 'initials'));
+  // APA lists up to 20 authors; beyond that the first 19, an ellipsis, then the last
+  return names.length > 20 ? `${names.slice(0, 19).join(', ')}, . . . ${names[names.length - 1]}` : joinNames(names, ', & ', ', & ');
+};
+
+const apa = (d: CitationData): string => {
+  const date = `(${d.year || 'n.d.'}).`;
+  const title = d.work === 'article' ? end(d.title) : end(italic(d.title));
+  const head = d.names.length > 0 ? `${end(apaNames(d))} ${date} ${title}` : `${title} ${date}`;
+  const source = d.work === 'article'
+    ? end(join([italic(d.container), d.volume ? `${italic(d.volume)}${d.issue ? `(${d.issue})` : ''}` : d.issue && `(${d.issue})`, range(d.pages)], ', '))
+    : end(d.work === 'book' ? d.publisher : d.container);
+  return join([head, source, doiLink(d)]);
+};
+
+const apaInText = (d: CitationData, _n: number, page?: string) =>
+  `(${d.names.length ? familyNames(d, 2, ' & ') : italic(shortTitle(d))}, ${d.year || 'n.d.'}${page ? `, p. ${page}` : ''})`;
+
+const harvard = (d: CitationData): string => {
+  const names = d.names.length > 3 ? `${familyFirst(d.names[0], 'tight')} et al.` : joinNames(d.names.map(n => familyFirst(n, 'tight')), ' and ');
+  const head = join([names, `(${d.year || 'no date'})`]);
+  const available = d.doi ? `doi: ${d.doi}.` : d.url ? `Available at: ${d.url}${d.accessed ? ` (Accessed: ${dayMonthYear(d.accessed)})` : ''}.` : '';
+  if (d.work === 'article') {
+    const container = join([italic(d.container), `${d.volume || ''}${d.issue ? `(${d.issue})` : ''}`, d.pages && `pp. ${range(d.pages)}`], ', ');
+    return join([`${head} ${single(d.title)},`, end(container), available]);
+  }
+  if (d.work === 'book') return join([`${head} ${end(italic(d.title))}`, end(d.publisher), available]);
+  return join([`${head} ${end(italic(d.title))}`, available]);
+};
+
+const harvardInText = (d: CitationData, _n: number, page?: string) =>
+  `(${d.names.length ? familyNames(d, 3, ' and ') : italic(shortTitle(d))}, ${d.year || 'no date'}${page ? `, p. ${page}` : ''})`;
+
+const mlaNames = (d: CitationData) => {
+  if (d.names.length === 0) return '';
+  const first = familyFirst(d.names[0], 'full');
+  if (d.names.length === 1) return first;
+  return d.names.length === 2 ? `${first}, and ${givenFirst(d.names[1], 'full')}` : `${first}, et al.`;
+};
+
+const mla = (d: CitationData): string => {
+  const names = end(mlaNames(d));
+  const link = d.doi ? `https://doi.org/${d.doi}` : bareUrl(d.url);
+  if (d.work === 'book') return join([names, end(italic(d.title)), end(join([d.publisher, d.year], ', ')), link && end(link)]);
+  const container = d.work === 'article'
+    ? [italic(d.container), d.volume && `vol. ${d.volume}`, d.issue && `no. ${d.issue}`, d.year, d.pages && `pp. ${range(d.pages, '-')}`, link]
+    : [italic(d.container), d.year, link];
+  const accessed = !d.year && d.accessed ? `Accessed ${d.accessed.getUTCDate()} ${shortMonth(d.accessed)}. ${d.accessed.getUTCFullYear()}.` : '';
+  return join([names, quoted(d.title), end(join(container, ', ')), accessed]);
+};
+
+const mlaInText = (d: CitationData, _n: number, page?: string) =>
+  `(${join([d.names.length ? familyNames(d, 2, ' and ') : `“${shortTitle(d)}”`, page])})`;
+
+// Chicago author-date and the social-science styles built on it (ASA, AAA, APSA)
+const chicagoNames = (d: CitationData) => {
+  const names = d.names.length > 10 ? d.names.slice(0, 7) : d.names;
+  const list = joinNames(names.map((n, i) => (i === 0 ? familyFirst(n, 'full') : givenFirst(n, 'full'))), ', and ');
+  return d.names.length > 10 ? `${list}, et al.` : list;
+};
+
+const chicagoAuthorDate = (d: CitationData, compact: boolean): string => {
+  const head = join([end(chicagoNames(d)), end(d.year || 'n.d.')]);
+  const link = d.doi ? (compact ? `doi:${d.doi}` : `https://doi.org/${d.doi}`) : d.url;
+  if (d.work === 'article') {
+    const issue = d.issue ? (compact ? `(${d.issue})` : ` (${d.issue})`) : '';
+    const pages = d.pages ? `${compact ? ':' : ': '}${range(d.pages)}` : '';
+    return join([head, quoted(d.title), end(`${join([italic(d.container), d.volume])}${issue}${pages}`), link && end(link)]);
+  }
+  if (d.work === 'book') return join([head, end(italic(d.title)), end(d.publisher), link && end(link)]);
+  return join([head, quoted(d.title), end(d.container), link && end(link)]);
+};
+
+const chicagoInText = (d: CitationData, _n: number, page?: string) =>
+  `(${d.names.length ? familyNames(d, 3, ', and ', ' and ') : `“${shortTitle(d)}”`} ${d.year || 'n.d.'}${page ? `, ${page}` : ''})`;
+
+const asaInText = (d: CitationData, _n: number, page?: string) =>
+  `(${d.names.length ? familyNames(d, 2, ' and ') : `“${shortTitle(d)}”`} ${d.year || 'n.d.'}${page ? `:${page}` : ''})`;
+
+// --- Note styles ---
+
+const chicagoBibliography = (d: CitationData): string => {
+  const names = end(chicagoNames(d));
+  const link = doiLink(d);
+  if (d.work === 'article') {
+    const volume = join([italic(d.container), `${d.volume || ''}${d.issue ? `, no. ${d.issue}` : ''}`]);
+    return join([names, quoted(d.title), end(`${volume} (${d.year || 'n.d.'})${d.pages ? `: ${range(d.pages)}` : ''}`), link && end(link)]);
+  }
+  if (d.work === 'book') return join([names, end(italic(d.title)), end(join([d.publisher, d.year], ', ')), link && end(link)]);
+  return join([names, quoted(d.title), end(d.container), d.year && end(d.year), link && end(link)]);
+};
+
+const noteNames = (d: CitationData, pair: string) =>
+  d.names.length > 3 ? `${givenFirst(d.names[0], 'full')} et al.` : joinNames(d.names.map(n => givenFirst(n, 'full')), `, ${pair.trim()} `, pair);
+
+const chicagoNote = (d: CitationData, _n: number, page?: string): string => {
+  const names = noteNames(d, ' and ');
+  const at = page || range(d.pages);
+  if (d.work === 'article') {
+    return end(join([names && `${names},`, quoted(d.title, ','), `${join([italic(d.container), `${d.volume || ''}${d.issue ? `, no. ${d.issue}` : ''}`])} (${d.year || 'n.d.'})${at ? `: ${at}` : ''}`]));
+  }
+  if (d.work === 'book') return end(`${join([names && `${names},`, italic(d.title)])} (${join([d.publisher, d.year], ', ') || 'n.d.'})${page ? `, ${page}` : ''}`);
+  return end(join([names && `${names},`, quoted(d.title, ','), join([d.container, d.year, d.url], ', ')]));
+};
+
+const mhraNames = (d: CitationData) =>
+  joinNames(d.names.map((n, i) => (i === 0 ? familyFirst(n, 'full') : givenFirst(n, 'full'))), ', and ', ', and ');
+
+const mhraBody = (d: CitationData, names: string, page?: string): string => {
+  const link = doiLink(d);
+  if (d.work === 'article') {
+    const volume = `${d.volume || ''}${d.issue ? `.${d.issue}` : ''} (${d.year || 'n.d.'})`.trim();
+    return join([join([names, single(d.title), italic(d.container), volume, range(d.pages)], ', '), page && `(p. ${page})`, link && `<${link}>`]);
+  }
+  if (d.work === 'book') return join([names, `${italic(d.title)} (${join([d.publisher, d.year], ', ') || 'n.d.'})`, page && `p. ${page}`], ', ');
+  return join([join([names, single(d.title), `${d.container || ''} (${d.year || 'n.d.'})`.trim()], ', '), d.url && `<${d.url}>`, d.accessed && `[accessed ${dayMonthYear(d.accessed)}]`]);
+};
+
+const oscolaBody = (d: CitationData, names: string, page?: string): string => {
+  const title = d.work === 'book' ? italic(d.title) : single(d.title);
+  const head = names ? `${names}, ${title}` : title;
+  if (d.work === 'article') {
+    return join([head, `(${d.year || 'nd'})`, `${d.volume || ''}${d.issue ? `(${d.issue})` : ''}`, d.container, firstPage(d.pages)]) + (page ? `, ${page}` : '');
+  }
+  if (d.work === 'book') return `${head} (${join([d.publisher, d.year]) || 'nd'})${page ? ` ${page}` : ''}`;
+  return join([`${head} (${join([d.container, d.year], ', ') || 'nd'})`, d.url && `<${d.url}>`, d.accessed && `accessed ${dayMonthYear(d.accessed)}`]);
+};
+
+const oscolaNames = (d: CitationData, form: 'bibliography' | 'note') => {
+  const name = (n: CitationName) => (form === 'bibliography' ? familyFirst(n, 'compact') : givenFirst(n, 'full'));
+  return d.names.length > 3 ? `${name(d.names[0])} and others` : joinNames(d.names.map(name), ' and ');
+};
+
+const bluebook = (d: CitationData, page?: string): string => {
+  const names = d.names.length > 2 ? `${givenFirst(d.names[0], 'full')} et al.` : joinNames(d.names.map(n => givenFirst(n, 'full')), ' & ');
+  const lead = names ? `${names}, ` : '';
+  if (d.work === 'article') {
+    return `${lead}${italic(d.title)}, ${join([d.volume, d.container, firstPage(d.pages)])}${page ? `, ${page}` : ''} (${d.year || 'n.d.'}).`;
+  }
+  if (d.work === 'book') return `${lead}${d.title}${page ? ` ${page}` : ''} (${d.year || 'n.d.'}).`;
+  return `${lead}${italic(d.title)}, ${join([d.container, `(${d.year || 'n.d.'})`])}${d.url ? `, ${d.url}` : ''}.`;
+};
+
+// --- Numeric styles ---
+
+const ieee = (d: CitationData, n: number): string => {
+  const names = d.names.length > 6 ? `${givenFirst(d.names[0], 'initials')} et al.` : joinNames(d.names.map(x => givenFirst(x, 'initials')), ', and ', ' and ');
+  const lead = `[${n}] ${names ? `${names}, ` : ''}`;
+  if (d.work === 'article') {
+    return `${lead}${quoted(d.title, ',')} ${end(join([italic(d.container), d.volume && `vol. ${d.volume}`, d.issue && `no. ${d.issue}`, d.pages && `pp. ${range(d.pages)}`, d.year, d.doi && `doi: ${d.doi}`], ', '))}`;
+  }
+  if (d.work === 'book') return `${lead}${end(italic(d.title))} ${end(join([d.publisher, d.year], ', '))}`;
+  const accessed = d.accessed ? `Accessed: ${shortMonth(d.accessed)}${d.accessed.getUTCMonth() === 4 ? '' : '.'} ${d.accessed.getUTCDate()}, ${d.accessed.getUTCFullYear()}. ` : '';
+  return `${lead}${quoted(d.title, ',')} ${join([end(d.container), accessed.trim(), d.url && `[Online]. Available: ${d.url}`])}`;
+};
+
+const vancouverNames = (d: CitationData, max: number, keep: number, etAl: string) => {
+  const names = d.names.map(n => familyFirst(n, 'compact'));
+  return names.length > max ? `${names.slice(0, keep).join(', ')}, ${etAl}` : names.join(', ');
+};
+
+const vancouver = (d: CitationData, n: number): string => {
+  const names = vancouverNames(d, 6, 6, 'et al');
+  const lead = `${n}. ${names ? end(names) : ''}`.trim();
+  if (d.work === 'article') {
+    const locator = `${d.year || ''}${d.volume ? `;${d.volume}` : ''}${d.issue ? `(${d.issue})` : ''}${d.pages ? `:${range(d.pages, '-')}` : ''}`;
+    return join([lead, end(d.title), end(d.container), end(locator), d.doi && `doi:${d.doi}`]);
+  }
+  if (d.work === 'book') return join([lead, end(d.title), end(join([d.publisher, d.year], '; '))]);
+  const cited = d.accessed ? ` [cited ${d.accessed.getUTCFullYear()} ${shortMonth(d.accessed)} ${d.accessed.getUTCDate()}]` : '';
+  return join([lead, `${d.title} [Internet].`, end(`${join([d.container, d.year], '; ')}${cited}`), d.url && `Available from: ${d.url}`]);
+};
+
+const ama = (d: CitationData, n: number): string => {
+  const names = vancouverNames(d, 6, 3, 'et al');
+  const lead = `${n}. ${names ? end(names) : ''}`.trim();
+  if (d.work === 'article') {
+    const locator = `${d.year || ''}${d.volume ? `;${d.volume}` : ''}${d.issue ? `(${d.issue})` : ''}${d.pages ? `:${range(d.pages, '-')}` : ''}`;
+    return join([lead, end(d.title), end(italic(d.container)), end(locator), d.doi && `doi:${d.doi}`]);
+  }
+  if (d.work === 'book') return join([lead, end(italic(d.title)), end(join([d.publisher, d.year], '; '))]);
+  return join([lead, end(d.title), end(d.container), d.year && `Published ${d.year}.`, d.accessed && `Accessed ${monthDayYear(d.accessed)}.`, d.url]);
+};
+
+const nature = (d: CitationData, n: number): string => {
+  const names = d.names.length > 5 ? `${familyFirst(d.names[0], 'initials')} et al.` : joinNames(d.names.map(x => familyFirst(x, 'initials')), ' & ', ' & ');
+  const lead = `${n}. ${names ? end(names) : ''}`.trim();
+  if (d.work === 'article') return join([lead, end(d.title), `${join([italic(d.container), bold(d.volume)])}${d.pages ? `, ${range(d.pages)}` : ''} (${d.year || 'n.d.'}).`]);
+  if (d.work === 'book') return join([lead, `${italic(d.title)} (${join([d.publisher, d.year], ', ') || 'n.d.'}).`]);
+  return join([lead, end(d.title), join([d.container, d.url]), `(${d.year || 'n.d.'}).`]);
+};
+
+const science = (d: CitationData, n: number): string => {
+  const names = d.names.length > 5 ? `${givenFirst(d.names[0], 'initials')} et al.` : d.names.map(x => givenFirst(x, 'initials')).join(', ');
+  const lead = `${n}. ${names ? `${names}, ` : ''}`;
+  if (d.work === 'article') return `${lead}${end(d.title)} ${join([italic(d.container), bold(d.volume)])}${d.pages ? `, ${range(d.pages)}` : ''} (${d.year || 'n.d.'}).`;
+  if (d.work === 'book') return `${lead}${italic(d.title)} (${join([d.publisher, d.year], ', ') || 'n.d.'}).`;
+  return `${lead}${end(d.title)} ${join([d.container, `(${d.year || 'n.d.'})`])}${d.url ? `; ${d.url}` : ''}.`;
+};
+
+const acs = (d: CitationData, n: number): string => {
+  const names = d.names.map(x => familyFirst(x, 'initials')).join('; ');
+  const lead = `(${n}) ${names ? end(names) : ''}`.trim();
+  if (d.work === 'article') {
+    return join([lead, end(d.title), end(join([`${italic(d.container)} ${bold(d.year || 'n.d.')}`, d.volume && `${italic(d.volume)}${d.issue ? ` (${d.issue})` : ''}`, range(d.pages)], ', ')), d.doi && `https://doi.org/${d.doi}.`]);
+  }
+  if (d.work === 'book') return join([lead, `${italic(d.title)};`, end(join([d.publisher, d.year], ', '))]);
+  return join([lead, end(d.title), end(d.container), d.url && `${d.url}${d.accessed ? ` (accessed ${isoDate(d.accessed)})` : ''}.`]);
+};
+
+const bracketed = (_d: CitationData, n: number) => `[${n}]`;
+const parenthesized = (_d: CitationData, n: number) => `(${n})`;
+const superscripted = (_d: CitationData, n: number) => superscript(n);
+
+const STYLES: Record<CitationStyle, StyleRules> = {
+  'APA 7th Edition': { kind: 'author-date', heading: 'References', reference: apa, inText: apaInText },
+  'MLA 9th Edition': { kind: 'author-date', heading: 'Works Cited', reference: mla, inText: mlaInText },
+  'Chicago 17th (Author-Date)': { kind: 'author-date', heading: 'References', reference: d => chicagoAuthorDate(d, false), inText: chicagoInText },
+  'Chicago 17th (Notes & Bibliography)': { kind: 'note', heading: 'Bibliography', reference: chicagoBibliography, inText: chicagoNote },
+  'Harvard (Standard)': { kind: 'author-date', heading: 'Reference List', reference: harvard, inText: harvardInText },
+  'IEEE (Technical/Engineering)': { kind: 'numeric', heading: 'References', reference: ieee, inText: bracketed },
+  'Vancouver (Biomedical)': { kind: 'numeric', heading: 'References', reference: vancouver, inText: parenthesized },
+  'Nature (Journal Style)': { kind: 'numeric', heading: 'References', reference: nature, inText: superscripted },
+  'Science (Journal Style)': { kind: 'numeric', heading: 'References and Notes', reference: science, inText: parenthesized },
+  'Bluebook (Legal/US)': { kind: 'note', heading: 'Table of Authorities', reference: d => bluebook(d), inText: (d, _n, page) => bluebook(d, page) },
+  'OSCOLA (Legal/UK)': {
+    kind: 'note',
+    heading: 'Bibliography',
+    reference: d => oscolaBody(d, oscolaNames(d, 'bibliography')),
+    inText: (d, _n, page) => end(oscolaBody(d, oscolaNames(d, 'note'), page))
+  },
+  'AMA (Medical/11th Ed)': { kind: 'numeric', heading: 'References', reference: ama, inText: superscripted },
+  'ASA (Sociological)': { kind: 'author-date', heading: 'References', reference: d => chicagoAuthorDate(d, true), inText: asaInText },
+  'AAA (Anthropological)': { kind: 'author-date', heading: 'References Cited', reference: d => chicagoAuthorDate(d, false), inText: chicagoInText },
+  'APSA (Political Science)': { kind: 'author-date', heading: 'References', reference: d => chicagoAuthorDate(d, false), inText: chicagoInText },
+  'Turabian (9th Ed)': { kind: 'note', heading: 'Bibliography', reference: chicagoBibliography, inText: chicagoNote },
+  'MHRA (Humanities)': {
+    kind: 'note',
+    heading: 'Bibliography',
+    reference: d => mhraBody(d, mhraNames(d)),
+    inText: (d, _n, page) => end(mhraBody(d, noteNames(d, ' and '), page))
+  },
+  'ACS (Chemical Society)': { kind: 'numeric', heading: 'References', reference: acs, inText: parenthesized },
+  'AGU (Geophysical Union)': { kind: 'author-date', heading: 'References', reference: apa, inText: apaInText }
+};
+
+export const citationKind = (style: CitationStyle): CitationKind => STYLES[style].kind;
+
+export const bibliographyHeading = (style: CitationStyle): string => STYLES[style].heading;
+
+/** How a numeric style marks citations in the text; null for author-date and note styles. */
+export const numericMarker = (style: CitationStyle): NumericMarker | null => {
+  const { kind, inText } = STYLES[style];
+  if (kind !== 'numeric') return null;
+  return inText === bracketed ? 'bracket' : inText === superscripted ? 'superscript' : 'parenthesis';
+};
+
+/** A reference-list entry. `number` is the source's position in numeric styles. */
+export const formatReference = (source: SourceMatch, style: CitationStyle, number = 1): string =>
+  STYLES[style].reference(toCitationData(source), number);
+
+/** The in-text citation, or for note styles the footnote text. */
+export const formatInTextCitation = (source: SourceMatch, style: CitationStyle, number = 1, page?: string): string =>
+  STYLES[style].inText(toCitationData(source), number, page);
+
+const sortKey = (d: CitationData) => `${(d.names[0]?.family || d.title).toLowerCase()} ${d.year || ''}`;
+
+/**
+ * The reference list in the order the style prints it: numeric styles keep
+ * the given (citation) order, author-date and note styles sort by author.
+ */
+export const formatBibliography = (sources: SourceMatch[], style: CitationStyle): string[] => {
+  const rules = STYLES[style];
+  const entries = sources.map((source, i) => ({ data: toCitationData(source), number: i + 1 }));
+  if (rules.kind !== 'numeric') entries.sort((a, b) => sortKey(a.data).localeCompare(sortKey(b.data)));
+  return entries.map(e => rules.reference(e.data, e.number));
+};
+
+/** Plain text for the clipboard and exporters without rich text. */
+export const stripCitationMarkup = (text: string): string => text.replace(/\*\*(.*?)\*\*/g, '$1').replace(/\*(.*?)\*/g, '$1');
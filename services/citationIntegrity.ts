@@ -0,0 +1,243 @@
+import { CitationStyle, SourceMatch } from '../types';
+import { CitationData, citationKind, numericMarker, toCitationData } from './citationFormatter';
+
+/**
+ * CITATION INTEGRITY
+ * Checks the in-text citations of a rewrite against its reference list. Numeric
+ * styles are read as [n], (n) or superscript markers and must point inside the
+ * list. Author-date citations, parenthetical "(Smith & Jones, 2020, p. 4)" or
+ * narrative "Smith et al. (2020)", are matched to an entry by first-author
+ * surname and year. Note styles carry their notes inline after a rewrite, so
+ * they are read like author-date text, and an entry whose title appears in
+ * the prose also counts as cited.
+ */
+
+export type CitationIssueKind = 'UNRESOLVED' | 'MISMATCH' | 'UNCITED';
+
+export interface InTextCitation {
+  start: number;
+  end: number;
+  text: string;
+  /** Reference-list entries the citation points to; empty when it resolves to none. */
+  sourceIds: string[];
+}
+
+export interface CitationIssue {
+  kind: CitationIssueKind;
+  /** The citation as written, or for UNCITED the entry's title. */
+  label: string;
+  message: string;
+  /** Where the citation sits in the text; absent for UNCITED entries. */
+  start?: number;
+  end?: number;
+  sourceId?: string;
+}
+
+export interface CitationIntegrityReport {
+  citations: InTextCitation[];
+  issues: CitationIssue[];
+}
+
+interface ParsedCitation {
+  start: number;
+  end: number;
+  text: string;
+  author: string;
+  year?: string;
+  /** MLA cites by author and page, with no year. */
+  page?: string;
+}
+
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+const NUMERIC_MARKERS = {
+  bracket: /\[(\d{1,3}(?:\s*[-–,]\s*\d{1,3})*)\]/g,
+  parenthesis: /\((\d{1,3}(?:\s*[-–,]\s*\d{1,3})*)\)/g,
+  superscript: /[⁰¹²³⁴⁵⁶⁷⁸⁹]+(?:[,⁻–-][⁰¹²³⁴⁵⁶⁷⁸⁹]+)*/g
+};
+// "(1) … (2) …" enumerations use the same marks as parenthesis-numbered citations. A list opens a line or
+// follows ":" or ";", and its later items continue the numbering within the same paragraph.
+const LIST_ITEM = /\((\d{1,2})\)/g;
+const LIST_OPENER = /(?:^|\n)[ \t]*$|[:;]\s*$/;
+const PARENTHETICAL = /\(([^()\n]{2,240})\)/g;
+const NARRATIVE = /(\p{Lu}[\p{L}'’-]+(?:\s+(?:and|&)\s+\p{Lu}[\p{L}'’-]+|\s+et al\.)?)\s+\((\d{4}[a-z]?|n\.d\.)(?:[,:]\s*[^()\n]{0,40})?\)/gu;
+const AUTHOR_YEAR = /^(.+?),?\s+(\d{4}[a-z]?|n\.d\.|no date)(?:\s*[,:]\s*[^;]*)?$/i;
+const AUTHOR_PAGE = /^(.+?)(?:,?\s+(\d+(?:\s*[-–]\s*\d+)?))?$/;
+const CITATION_PREFIX = /^(?:see also|see|e\.g\.,?|cf\.|as cited in|quoted in)\s+/i;
+// Cross-references that read like an author and a page
+const CROSS_REFERENCE = /^(?:table|figure|fig\.|chapter|section|appendix|equation|eq\.|step|phase|stage|part|page|p\.)\s/i;
+// Dates in parentheses, like "(In 2019)" or "(As of 2021)", open with a preposition or a time word where a citation has a surname.
+// Months and seasons that are also common surnames (May, March, Winter) are left out.
+const DATE_PHRASE = /^(?:in|since|as of|as at|by|from|until|before|after|around|about|approximately|circa|ca\.|during|through|throughout|between|early|mid|late|updated|revised|accessed|january|february|april|june|july|september|october|november|december)(?:[\s-]|$)/i;
+const IGNORED_WORDS = new Set(['et', 'al', 'and', 'the', 'of', 'on', 'for', 'in', 'a', 'an']);
+// Ranges longer than this are typos, not citations
+const MAX_RANGE = 50;
+
+const words = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+  .replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(w => w && !IGNORED_WORDS.has(w));
+
+const looksLikeAuthor = (author: string) =>
+  /^[\p{Lu}“"*‘']/u.test(author) && !/\d/.test(author) && author.split(/\s+/).length <= 12 && !DATE_PHRASE.test(author);
+
+const editDistance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+};
+
+const authorMatches = (author: string, d: CitationData) => {
+  const cited = words(author);
+  if (cited.length === 0) return false;
+  // Sources without authors are cited by a shortened title
+  if (d.names.length === 0) return cited.every(w => words(d.title).includes(w));
+  const family = words(d.names[0].family);
+  return family.every(w => cited.includes(w)) || family.includes(cited[0]);
+};
+
+const yearMatches = (year: string | undefined, d: CitationData) => {
+  const cited = year && /^\d{4}/.test(year) ? year.slice(0, 4) : undefined;
+  return cited === d.year?.slice(0, 4);
+};
+
+const parseAuthorDate = (text: string, allowYearless: boolean): ParsedCitation[] => {
+  const found: ParsedCitation[] = [];
+  for (const m of text.matchAll(PARENTHETICAL)) {
+    let offset = m.index! + 1;
+    for (const part of m[1].split(';')) {
+      const leading = part.length - part.trimStart().length;
+      const start = offset + leading;
+      offset += part.length + 1;
+      const cleaned = part.trim().replace(CITATION_PREFIX, '');
+      const dated = cleaned.match(AUTHOR_YEAR);
+      const undated = !dated && allowYearless ? cleaned.match(AUTHOR_PAGE) : null;
+      const author = (dated || undated)?.[1].trim();
+      if (!author || !looksLikeAuthor(author) || CROSS_REFERENCE.test(cleaned)) continue;
+      found.push({
+        start,
+        end: start + part.trim().length,
+        text: part.trim(),
+        author,
+        ...(dated ? { year: dated[2] } : {}),
+        ...(undated?.[2] ? { page: undated[2] } : {})
+      });
+    }
+  }
+  for (const m of text.matchAll(NARRATIVE)) {
+    found.push({ start: m.index!, end: m.index! + m[0].length, text: m[0], author: m[1], year: m[2] });
+  }
+  return found.sort((a, b) => a.start - b.start);
+};
+
+/** Offsets of "(n)" marks that number list items rather than cite sources. */
+const listMarkers = (text: string): Set<number> => {
+  const markers = new Set<number>();
+  let next = 0;
+  let paragraphEnd = -1;
+  for (const m of text.matchAll(LIST_ITEM)) {
+    const n = Number(m[1]);
+    const continues = n === next && m.index! < paragraphEnd;
+    if (!continues && !LIST_OPENER.test(text.slice(Math.max(0, m.index! - 40), m.index!))) continue;
+    markers.add(m.index!);
+    next = n + 1;
+    if (!continues) {
+      const end = text.indexOf('\n\n', m.index!);
+      paragraphEnd = end < 0 ? text.length : end;
+    }
+  }
+  return markers;
+};
+
+const expandNumbers = (list: string): number[] => list.split(/\s*,\s*/).flatMap(part => {
+  const [from, to] = part.split(/\s*[-–⁻]\s*/).map(Number);
+  if (!to || to < from || to - from > MAX_RANGE) return [from];
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+});
+
+const fromSuperscript = (text: string) => text.replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]/g, c => String(SUPERSCRIPT_DIGITS.indexOf(c)));
+
+export const checkCitationIntegrity = (text: string, sources: SourceMatch[], style: CitationStyle): CitationIntegrityReport => {
+  const data = sources.map(toCitationData);
+  const citations: InTextCitation[] = [];
+  const issues: CitationIssue[] = [];
+  const cited = new Set<string>();
+
+  const marker = numericMarker(style);
+  if (marker) {
+    const listed = marker === 'parenthesis' ? listMarkers(text) : new Set<number>();
+    for (const m of text.matchAll(NUMERIC_MARKERS[marker])) {
+      if (listed.has(m.index!)) continue;
+      const numbers = expandNumbers(marker === 'superscript' ? fromSuperscript(m[0]) : m[1]);
+      const inRange = numbers.filter(n => n >= 1 && n <= sources.length);
+      const sourceIds = inRange.map(n => sources[n - 1].id);
+      sourceIds.forEach(id => cited.add(id));
+      citations.push({ start: m.index!, end: m.index! + m[0].length, text: m[0], sourceIds });
+      numbers.filter(n => !inRange.includes(n)).forEach(n => issues.push({
+        kind: 'UNRESOLVED',
+        label: m[0],
+        message: `Points to entry ${n}, but the reference list has ${sources.length}.`,
+        start: m.index!,
+        end: m.index! + m[0].length
+      }));
+    }
+  } else {
+    const isMla = style === 'MLA 9th Edition';
+    parseAuthorDate(text, isMla).forEach(c => {
+      const byAuthor = data.map((d, i) => ({ d, i })).filter(({ d }) => authorMatches(c.author, d));
+      const exact = isMla && !c.year ? byAuthor : byAuthor.filter(({ d }) => yearMatches(c.year, d));
+      const at = { label: c.text, start: c.start, end: c.end };
+
+      if (exact.length > 0) {
+        exact.forEach(({ i }) => cited.add(sources[i].id));
+        citations.push({ start: c.start, end: c.end, text: c.text, sourceIds: exact.map(({ i }) => sources[i].id) });
+        return;
+      }
+      if (byAuthor.length > 0) {
+        const { d, i } = byAuthor[0];
+        cited.add(sources[i].id);
+        citations.push({ start: c.start, end: c.end, text: c.text, sourceIds: [sources[i].id] });
+        issues.push({ kind: 'MISMATCH', ...at, sourceId: sources[i].id, message: `Cited as ${c.year || 'undated'}, but the entry for ${d.names[0]?.family || `“${d.title}”`} gives ${d.year || 'no date'}.` });
+        return;
+      }
+
+      citations.push({ start: c.start, end: c.end, text: c.text, sourceIds: [] });
+      // A single entry from the same year whose author is spelled almost the same is a misspelling, not an invention
+      const sameYear = c.year ? data.map((d, i) => ({ d, i })).filter(({ d }) => d.names.length > 0 && yearMatches(c.year, d)) : [];
+      const citedSurname = words(c.author)[0] || '';
+      const nearMiss = sameYear.length === 1 && words(sameYear[0].d.names[0].family).some(w => editDistance(w, citedSurname) <= Math.max(1, Math.floor(w.length / 4)));
+      if (nearMiss) {
+        const { d, i } = sameYear[0];
+        cited.add(sources[i].id);
+        issues.push({ kind: 'MISMATCH', ...at, sourceId: sources[i].id, message: `Cited as ${c.author}, but the ${d.year} entry is by ${d.names[0].family}.` });
+        return;
+      }
+      // MLA parentheses without a page are too often plain asides to report
+      if (isMla && !c.year && !c.page) {
+        citations.pop();
+        return;
+      }
+      issues.push({ kind: 'UNRESOLVED', ...at, message: `No reference-list entry matches ${c.author}${c.year ? ` (${c.year})` : ''}. Check that this source exists.` });
+    });
+
+    if (citationKind(style) === 'note') {
+      const prose = words(text).join(' ');
+      data.forEach((d, i) => {
+        const title = words(d.title).join(' ');
+        if (title && prose.includes(title)) cited.add(sources[i].id);
+      });
+    }
+  }
+
+  sources.forEach((s, i) => {
+    if (cited.has(s.id)) return;
+    issues.push({ kind: 'UNCITED', label: data[i].title, sourceId: s.id, message: `Entry ${i + 1} is in the reference list but never cited in the text.` });
+  });
+
+  return { citations, issues: issues.sort((a, b) => (a.start ?? Infinity) - (b.start ?? Infinity)) };
+};
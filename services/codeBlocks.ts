@@ -0,0 +1,127 @@
+import { CodeBlock, CodeLanguage } from '../types';
+
+/**
+ * CODE BLOCK DETECTION
+ * Finds code listings embedded in a document so they can be checked as code
+ * instead of prose: Markdown fences (``` or ~~~, which the DOCX parser also
+ * writes around monospaced paragraphs) and indented listings. Each block gets
+ * a language from its fence tag, or from the syntax it uses when untagged.
+ */
+
+const FENCE = /^(`{3,}|~{3,})[ \t]*([\w+#.-]*)[^\n]*\n([\s\S]*?)^\1[ \t]*\r?$/gm;
+
+// Indented prose (block quotes, poetry) is common; a listing needs several lines that look like code
+const MIN_INDENTED_LINES = 3;
+const CODE_LINE = /[;{}=()[\]<>]|^\s*(def|class|import|from|return|if|for|while|function|public|private|#include)\b/;
+
+const FENCE_ALIASES: Record<string, CodeLanguage> = {
+  py: 'python', python: 'python', python3: 'python',
+  js: 'javascript', jsx: 'javascript', javascript: 'javascript', node: 'javascript',
+  ts: 'typescript', tsx: 'typescript', typescript: 'typescript',
+  java: 'java',
+  cs: 'csharp', csharp: 'csharp', 'c#': 'csharp',
+  c: 'c', h: 'c',
+  cpp: 'cpp', 'c++': 'cpp', cc: 'cpp', hpp: 'cpp', cxx: 'cpp',
+  go: 'go', golang: 'go',
+  rs: 'rust', rust: 'rust',
+  php: 'php',
+  rb: 'ruby', ruby: 'ruby',
+  sql: 'sql', mysql: 'sql', postgresql: 'sql', plsql: 'sql',
+  sh: 'shell', bash: 'shell', shell: 'shell', zsh: 'shell', console: 'shell',
+  r: 'r',
+  matlab: 'matlab', octave: 'matlab', m: 'matlab'
+};
+
+// Each hit adds one point; the best-scoring language wins, ties go to the earlier entry
+const LANGUAGE_SIGNALS: [CodeLanguage, RegExp[]][] = [
+  ['typescript', [/:\s*(string|number|boolean|void)\b/, /\binterface\s+\w+\s*\{/, /\bexport\s+(type|interface)\b/, /\bas\s+const\b/]],
+  ['javascript', [/\b(const|let|var)\s+\w+\s*=/, /=>/, /\bfunction\s*\w*\s*\(/, /console\.log/, /require\(|module\.exports/]],
+  ['python', [/^\s*(def|class)\s+\w+.*:\s*$/m, /^\s*(import|from)\s+[\w.]+/m, /\bself\b/, /\belif\b/, /\bprint\(/]],
+  ['java', [/\bpublic\s+(static\s+)?(class|void|int|String)\b/, /System\.out\.print/, /\bimport\s+java\./, /\bnew\s+\w+\s*\(/]],
+  ['csharp', [/\busing\s+System/, /Console\.Write/, /\bnamespace\s+[\w.]+/, /\bstring\[\]\s+args/]],
+  ['cpp', [/#include\s*<\w+>/, /std::/, /\bcout\s*<</, /\btemplate\s*</]],
+  ['c', [/#include\s*<\w+\.h>/, /\bprintf\s*\(/, /\bmalloc\s*\(/, /\bint\s+main\s*\(/]],
+  ['go', [/^\s*package\s+\w+/m, /\bfunc\s+(\(\w+\s+\*?\w+\)\s*)?\w+\s*\(/, /:=/, /fmt\.Print/]],
+  ['rust', [/\bfn\s+\w+\s*\(/, /\blet\s+mut\b/, /println!/, /\bimpl\b/]],
+  ['php', [/<\?php/, /\$\w+\s*=/, /\becho\b/, /->\w+\(/]],
+  ['ruby', [/^\s*def\s+\w+[^:]*$/m, /^\s*end\s*$/m, /\bputs\b/, /\.each\s+do\b/]],
+  ['sql', [/\bSELECT\b[\s\S]*\bFROM\b/i, /\b(INSERT\s+INTO|CREATE\s+TABLE|ALTER\s+TABLE)\b/i, /\bUPDATE\s+\w+\s+SET\b/i, /\bWHERE\b/i]],
+  ['shell', [/^#!\/bin\/(ba|z)?sh/m, /^\s*(echo|export|cd|sudo|apt|npm|pip)\s/m, /\$\{\w+\}/, /\|\s*grep\b/]],
+  ['r', [/<-/, /\blibrary\(/, /\bdata\.frame\(/, /\bggplot\(/]],
+  ['matlab', [/^\s*function\s+.*=\s*\w+\(/m, /\bdisp\(/, /\bzeros\(/, /^\s*%/m]]
+];
+
+export const guessCodeLanguage = (code: string, tag = ''): CodeLanguage => {
+  const tagged = FENCE_ALIASES[tag.toLowerCase()];
+  if (tagged) return tagged;
+  let best: CodeLanguage = 'unknown';
+  let bestScore = 0;
+  LANGUAGE_SIGNALS.forEach(([language, signals]) => {
+    const score = signals.filter(re => re.test(code)).length;
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const countLines = (code: string) => code.split('\n').filter(l => l.trim()).length;
+
+const findIndented = (text: string, fenced: CodeBlock[]): CodeBlock[] => {
+  const blocks: CodeBlock[] = [];
+  const lines: { start: number; end: number; text: string }[] = [];
+  let offset = 0;
+  text.split('\n').forEach(line => {
+    lines.push({ start: offset, end: offset + line.length, text: line });
+    offset += line.length + 1;
+  });
+  const insideFence = (pos: number) => fenced.some(b => pos >= b.start && pos < b.end);
+  const isIndented = (line: string) => /^( {4,}|\t)\S/.test(line);
+
+  let i = 0;
+  while (i < lines.length) {
+    // A listing starts after a blank line (or at the top), as in Markdown
+    if (!isIndented(lines[i].text) || insideFence(lines[i].start) || (i > 0 && lines[i - 1].text.trim())) {
+      i++;
+      continue;
+    }
+    let j = i;
+    let last = i;
+    while (j < lines.length && (isIndented(lines[j].text) || !lines[j].text.trim())) {
+      if (lines[j].text.trim()) last = j;
+      j++;
+    }
+    const body = lines.slice(i, last + 1).filter(l => l.text.trim());
+    const codeLike = body.filter(l => CODE_LINE.test(l.text)).length;
+    if (body.length >= MIN_INDENTED_LINES && codeLike * 2 >= body.length) {
+      const code = text.slice(lines[i].start, lines[last].end);
+      blocks.push({ start: lines[i].start, end: lines[last].end, language: guessCodeLanguage(code), origin: 'INDENTED', lineCount: body.length });
+    }
+    i = Math.max(j, i + 1);
+  }
+  return blocks;
+};
+
+export const detectCodeBlocks = (text: string): CodeBlock[] => {
+  const fenced: CodeBlock[] = [];
+  for (const m of text.matchAll(FENCE)) {
+    const code = m[3].replace(/\n$/, '');
+    if (!code.trim()) continue;
+    const start = m.index! + m[0].indexOf('\n') + 1;
+    fenced.push({ start, end: start + code.length, language: guessCodeLanguage(code, m[2]), origin: 'FENCED', lineCount: countLines(code) });
+  }
+  return [...fenced, ...findIndented(text, fenced)].sort((a, b) => a.start - b.start);
+};
+
+/** Blanks out code (keeping newlines and offsets) so prose statistics are not skewed by listings. */
+export const maskCodeBlocks = (text: string, blocks: CodeBlock[]): string => {
+  if (blocks.length === 0) return text;
+  let masked = '';
+  let at = 0;
+  blocks.forEach(b => {
+    masked += text.slice(at, b.start) + text.slice(b.start, b.end).replace(/[^\n]/g, ' ');
+    at = b.end;
+  });
+  return masked + text.slice(at);
+};
@@ -0,0 +1,226 @@
+import { CodeBlock, CodeLanguage, CodeMatch, MatchedRange } from '../types';
+import { Token } from './textOverlap';
+import { Fingerprint, winnowTokens } from './winnowing';
+import { detectCodeBlocks } from './codeBlocks';
+import { corpusKindLabel, corpusSourceUrl, loadCorpusTexts } from './corpusStore';
+import { throwIfCancelled } from './cancellation';
+
+/**
+ * CODE FINGERPRINTING
+ * Code blocks are compared as token streams, not words. Each language has its
+ * own comment, string and keyword rules; comments are dropped, keywords and
+ * operators are kept, and every identifier, number and string literal becomes
+ * a placeholder, so renaming variables or changing constants does not hide a
+ * copy. The normalized streams are winnowed like prose and matched against the
+ * code blocks of every local corpus document, prior submissions included.
+ */
+
+interface LanguageRules {
+  lineComments: string[];
+  blockComments: [string, string][];
+  /** Quotes whose strings may span lines (Python docstrings, template literals). */
+  multilineQuotes: string[];
+  keywords: Set<string>;
+  caseInsensitive?: boolean;
+}
+
+interface FingerprintedBlock {
+  block: CodeBlock;
+  tokenCount: number;
+  fingerprints: Fingerprint[];
+}
+
+interface CorpusCodeBlock extends FingerprintedBlock {
+  docIndex: number;
+  text: string;
+}
+
+// Shorter k-grams than prose: a single line of code is only a handful of tokens
+const CODE_K = 12;
+const CODE_WINDOW = 8;
+// Blocks this short are boilerplate (imports, a main signature) in most submissions
+const MIN_BLOCK_TOKENS = 30;
+const MIN_CODE_SIMILARITY = 25;
+const MAX_MATCHES_PER_BLOCK = 3;
+const MAX_EXCERPT_LENGTH = 2000;
+
+const words = (list: string) => new Set(list.split(' '));
+
+const C_FAMILY: Omit<LanguageRules, 'keywords'> = { lineComments: ['//'], blockComments: [['/*', '*/']], multilineQuotes: [] };
+const HASH_COMMENTS: Omit<LanguageRules, 'keywords'> = { lineComments: ['#'], blockComments: [], multilineQuotes: [] };
+
+const RULES: Record<CodeLanguage, LanguageRules> = {
+  python: { ...HASH_COMMENTS, multilineQuotes: ['"""', "'''"], keywords: words('and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield self none true false') },
+  javascript: { ...C_FAMILY, multilineQuotes: ['`'], keywords: words('async await break case catch class const continue default delete do else export extends finally for function if import in instanceof let new of return super switch this throw try typeof var void while yield null undefined true false') },
+  typescript: { ...C_FAMILY, multilineQuotes: ['`'], keywords: words('async await break case catch class const continue default delete do else enum export extends finally for function if implements import in instanceof interface let new of private protected public readonly return super switch this throw try type typeof var void while yield null undefined true false string number boolean any unknown never') },
+  java: { ...C_FAMILY, keywords: words('abstract boolean break byte case catch char class continue default do double else enum extends final finally float for if implements import instanceof int interface long new package private protected public return short static super switch this throw throws try void while null true false') },
+  csharp: { ...C_FAMILY, keywords: words('abstract bool break byte case catch char class const continue decimal default do double else enum false finally float for foreach if in int interface internal is long namespace new null out override private protected public readonly ref return static string struct switch this throw true try using var virtual void while') },
+  c: { ...C_FAMILY, keywords: words('auto break case char const continue default do double else enum extern float for goto if int long register return short signed sizeof static struct switch typedef union unsigned void volatile while include define null') },
+  cpp: { ...C_FAMILY, keywords: words('auto bool break case catch char class const continue default delete do double else enum false float for if include int long namespace new nullptr private protected public return short static struct switch template this throw true try typename using virtual void while std') },
+  go: { ...C_FAMILY, multilineQuotes: ['`'], keywords: words('break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var nil true false') },
+  rust: { ...C_FAMILY, keywords: words('as break const continue crate else enum extern false fn for if impl in let loop match mod move mut pub ref return self static struct super trait true type unsafe use where while') },
+  php: { lineComments: ['//', '#'], blockComments: [['/*', '*/']], multilineQuotes: [], keywords: words('abstract and array as break case catch class const continue default do echo else elseif extends false final for foreach function if implements interface new null or private protected public return static switch this throw true try use var while') },
+  ruby: { ...HASH_COMMENTS, keywords: words('alias and begin break case class def do else elsif end ensure false for if in module next nil not or redo rescue retry return self super then true undef unless until when while yield puts') },
+  sql: { lineComments: ['--'], blockComments: [['/*', '*/']], multilineQuotes: [], caseInsensitive: true, keywords: words('select from where and or not insert into values update set delete create table alter drop join inner left right outer on group by order having limit as distinct null is in like between union all primary key foreign references index') },
+  shell: { ...HASH_COMMENTS, keywords: words('if then else elif fi for while do done case esac function in return export local echo') },
+  r: { ...HASH_COMMENTS, keywords: words('if else for while repeat function return next break true false null na in library') },
+  matlab: { lineComments: ['%'], blockComments: [['%{', '%}']], multilineQuotes: [], keywords: words('break case catch continue else elseif end for function global if otherwise persistent return switch try while') },
+  unknown: { lineComments: ['//', '#'], blockComments: [['/*', '*/']], multilineQuotes: [], keywords: new Set() }
+};
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const NUMBER = /\d[\w.]*/y;
+
+/** Normalized tokens of one code listing; offsets are shifted by `offset`. */
+export const tokenizeCode = (code: string, language: CodeLanguage, offset = 0): Token[] => {
+  const rules = RULES[language];
+  const tokens: Token[] = [];
+  const push = (word: string, start: number, end: number) => tokens.push({ word, start: start + offset, end: end + offset });
+  let i = 0;
+  outer: while (i < code.length) {
+    const ch = code[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    for (const [open, close] of rules.blockComments) {
+      if (code.startsWith(open, i)) {
+        const end = code.indexOf(close, i + open.length);
+        i = end < 0 ? code.length : end + close.length;
+        continue outer;
+      }
+    }
+    for (const marker of rules.lineComments) {
+      if (code.startsWith(marker, i)) {
+        const end = code.indexOf('\n', i);
+        i = end < 0 ? code.length : end;
+        continue outer;
+      }
+    }
+    for (const quote of rules.multilineQuotes) {
+      if (code.startsWith(quote, i)) {
+        const end = code.indexOf(quote, i + quote.length);
+        const stop = end < 0 ? code.length : end + quote.length;
+        push('S', i, stop);
+        i = stop;
+        continue outer;
+      }
+    }
+    if (ch === '"' || ch === "'") {
+      // Ordinary strings end at the line; an unbalanced quote must not swallow the rest of the listing
+      let j = i + 1;
+      while (j < code.length && code[j] !== ch && code[j] !== '\n') j += code[j] === '\\' ? 2 : 1;
+      const stop = Math.min(code.length, j + 1);
+      push('S', i, stop);
+      i = stop;
+      continue;
+    }
+    IDENTIFIER.lastIndex = i;
+    const ident = IDENTIFIER.exec(code);
+    if (ident) {
+      const word = rules.caseInsensitive ? ident[0].toLowerCase() : ident[0];
+      push(rules.keywords.has(word.toLowerCase()) ? word.toLowerCase() : 'V', i, i + ident[0].length);
+      i += ident[0].length;
+      continue;
+    }
+    NUMBER.lastIndex = i;
+    const num = NUMBER.exec(code);
+    if (num) {
+      push('N', i, i + num[0].length);
+      i += num[0].length;
+      continue;
+    }
+    push(ch, i, i + 1);
+    i++;
+  }
+  return tokens;
+};
+
+const fingerprintBlock = (text: string, block: CodeBlock): FingerprintedBlock => {
+  const tokens = tokenizeCode(text.slice(block.start, block.end), block.language, block.start);
+  return { block, tokenCount: tokens.length, fingerprints: winnowTokens(tokens, CODE_K, CODE_WINDOW) };
+};
+
+// Token count of the union of k-gram spans starting at the given token indexes
+const coveredTokens = (starts: number[]): number => {
+  let covered = 0;
+  let reach = -1;
+  [...starts].sort((a, b) => a - b).forEach(start => {
+    const end = start + CODE_K;
+    if (end <= reach) return;
+    covered += end - Math.max(start, reach);
+    reach = end;
+  });
+  return covered;
+};
+
+// Shared fingerprints close together in the checked block become one highlighted range
+const toRanges = (pairs: { query: Fingerprint; corpus: Fingerprint }[], sourceOffset: number, sourceLength: number): MatchedRange[] => {
+  const ranges: MatchedRange[] = [];
+  let last: Fingerprint | null = null;
+  [...pairs].sort((a, b) => a.query.tokenIndex - b.query.tokenIndex).forEach(({ query, corpus }) => {
+    const current = ranges[ranges.length - 1];
+    const sourceStart = Math.min(sourceLength, corpus.start - sourceOffset);
+    const sourceEnd = Math.min(sourceLength, corpus.end - sourceOffset);
+    if (current && last && query.tokenIndex - last.tokenIndex <= CODE_K + CODE_WINDOW) {
+      current.documentEnd = Math.max(current.documentEnd, query.end);
+      current.sourceStart = Math.min(current.sourceStart, sourceStart);
+      current.sourceEnd = Math.max(current.sourceEnd, sourceEnd);
+    } else {
+      ranges.push({ sourceStart, sourceEnd, documentStart: query.start, documentEnd: query.end });
+    }
+    last = query;
+  });
+  return ranges;
+};
+
+/** Compares every code block with the code in the local corpus. Best-effort: returns no matches if the corpus cannot be read. */
+export const findCodeMatches = async (text: string, blocks: CodeBlock[], signal?: AbortSignal): Promise<CodeMatch[]> => {
+  const queries = blocks.map(b => fingerprintBlock(text, b));
+  if (!queries.some(q => q.tokenCount >= MIN_BLOCK_TOKENS)) return [];
+
+  const corpus = await loadCorpusTexts();
+  throwIfCancelled(signal);
+
+  const corpusBlocks: CorpusCodeBlock[] = corpus.flatMap(({ text: docText }, docIndex) =>
+    detectCodeBlocks(docText).map(b => ({ ...fingerprintBlock(docText, b), docIndex, text: docText })));
+  const byHash = new Map<number, { target: number; fingerprint: Fingerprint }[]>();
+  corpusBlocks.forEach((c, target) => c.fingerprints.forEach(fingerprint => {
+    const list = byHash.get(fingerprint.hash) || [];
+    list.push({ target, fingerprint });
+    byHash.set(fingerprint.hash, list);
+  }));
+
+  const matches: CodeMatch[] = [];
+  queries.forEach((query, blockIndex) => {
+    if (query.tokenCount < MIN_BLOCK_TOKENS) return;
+    const pairsByTarget = new Map<number, { query: Fingerprint; corpus: Fingerprint }[]>();
+    query.fingerprints.forEach(fingerprint => (byHash.get(fingerprint.hash) || []).forEach(hit => {
+      const pairs = pairsByTarget.get(hit.target) || [];
+      pairs.push({ query: fingerprint, corpus: hit.fingerprint });
+      pairsByTarget.set(hit.target, pairs);
+    }));
+
+    const found: CodeMatch[] = [];
+    pairsByTarget.forEach((pairs, target) => {
+      const similarity = Math.min(100, Math.round((coveredTokens(pairs.map(p => p.query.tokenIndex)) / query.tokenCount) * 100));
+      if (similarity < MIN_CODE_SIMILARITY) return;
+      const source = corpusBlocks[target];
+      const { document } = corpus[source.docIndex];
+      const excerpt = source.text.slice(source.block.start, Math.min(source.block.end, source.block.start + MAX_EXCERPT_LENGTH));
+      found.push({
+        block: blockIndex,
+        sourceId: document.id,
+        sourceUrl: corpusSourceUrl(document.id),
+        sourceTitle: document.title,
+        sourceLabel: corpusKindLabel(document.kind),
+        sourceLanguage: source.block.language,
+        excerpt,
+        similarity,
+        matchedRanges: toRanges(pairs, source.block.start, excerpt.length)
+      });
+    });
+    matches.push(...found.sort((a, b) => b.similarity - a.similarity).slice(0, MAX_MATCHES_PER_BLOCK));
+  });
+  return matches;
+};
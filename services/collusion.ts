@@ -0,0 +1,83 @@
+import { winnow } from './winnowing';
+
+/**
+ * BATCH COLLUSION CHECK
+ * Compares every submission in a batch with every other one, on this device.
+ * Each submission is winnowed once; a pair's similarity is the share of the
+ * smaller submission's fingerprints that the other one shares, so a short
+ * essay copied whole into a longer one still scores high. Pairs at or above a
+ * threshold link submissions into clusters (single linkage), which is how
+ * a ring of students passing one essay around shows up.
+ */
+
+export interface BatchSubmission {
+  id: string;
+  name: string;
+  text: string;
+}
+
+export interface PairSimilarity {
+  /** Indexes into the batch, a < b. */
+  a: number;
+  b: number;
+  /** Shared fingerprints over the smaller submission's fingerprints, 0-100. */
+  similarity: number;
+  sharedFingerprints: number;
+}
+
+export interface CollusionReport {
+  wordCounts: number[];
+  /** Every pair, most similar first. */
+  pairs: PairSimilarity[];
+  /** Symmetric; the diagonal is 100. */
+  matrix: number[][];
+}
+
+export const buildCollusionReport = (submissions: BatchSubmission[]): CollusionReport => {
+  const winnowed = submissions.map(s => winnow(s.text));
+  const hashSets = winnowed.map(w => new Set(w.fingerprints.map(f => f.hash)));
+  const wordCounts = winnowed.map(w => w.wordCount);
+
+  // An inverted index touches only the pairs that share something, not all n² of them
+  const holders = new Map<number, number[]>();
+  hashSets.forEach((hashes, doc) => hashes.forEach(hash => {
+    const list = holders.get(hash);
+    if (list) list.push(doc);
+    else holders.set(hash, [doc]);
+  }));
+  const shared = submissions.map(() => new Array<number>(submissions.length).fill(0));
+  holders.forEach(docs => {
+    for (let i = 0; i < docs.length; i++) {
+      for (let j = i + 1; j < docs.length; j++) shared[docs[i]][docs[j]]++;
+    }
+  });
+
+  const n = submissions.length;
+  const matrix: number[][] = submissions.map((_, i) => submissions.map((__, j) => (i === j ? 100 : 0)));
+  const pairs: PairSimilarity[] = [];
+  for (let a = 0; a < n; a++) {
+    for (let b = a + 1; b < n; b++) {
+      const smaller = Math.min(hashSets[a].size, hashSets[b].size);
+      const similarity = smaller > 0 ? Math.round((shared[a][b] / smaller) * 100) : 0;
+      matrix[a][b] = matrix[b][a] = similarity;
+      pairs.push({ a, b, similarity, sharedFingerprints: shared[a][b] });
+    }
+  }
+  return { wordCounts, pairs: pairs.sort((x, y) => y.similarity - x.similarity), matrix };
+};
+
+/** Groups of two or more submissions linked by pairs at or above the threshold, largest group first. */
+export const findClusters = (report: CollusionReport, threshold: number): number[][] => {
+  const parent = report.matrix.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  report.pairs.forEach(p => {
+    if (p.similarity >= threshold) parent[root(p.a)] = root(p.b);
+  });
+
+  const groups = new Map<number, number[]>();
+  parent.forEach((_, i) => {
+    const r = root(i);
+    groups.set(r, [...(groups.get(r) || []), i]);
+  });
+  return [...groups.values()].filter(g => g.length > 1).sort((x, y) => y.length - x.length);
+};
@@ -0,0 +1,251 @@
+import { hashString } from './hash';
+import { STORES, isLocalDbAvailable, requestToPromise, withStore, withTransaction } from './localDb';
+import { FINGERPRINT_K, FINGERPRINT_WINDOW, Fingerprint, winnow } from './winnowing';
+import { throwIfCancelled } from './cancellation';
+import { MatchedRange, SourceMatch } from '../types';
+
+/**
+ * LOCAL REFERENCE CORPUS
+ * Reference documents and prior submissions the user uploads are winnowed into
+ * fingerprints and kept in IndexedDB on this device. A new document is matched
+ * against them without any network call: shared fingerprints that line up in
+ * both texts are merged into matched runs, and each corpus document with enough
+ * overlap becomes a CORPUS source in the analysis result.
+ */
+
+export type CorpusDocumentKind = 'REFERENCE' | 'SUBMISSION';
+
+export interface CorpusDocumentInfo {
+  id: string;
+  title: string;
+  kind: CorpusDocumentKind;
+  addedAt: number;
+  wordCount: number;
+  fingerprintCount: number;
+}
+
+interface CorpusDocument extends CorpusDocumentInfo {
+  text: string;
+}
+
+interface StoredFingerprint extends Fingerprint {
+  docId: string;
+}
+
+export interface CorpusHit {
+  document: CorpusDocumentInfo;
+  /** Runs of shared text; source offsets are in the corpus document, document offsets in the checked text. */
+  ranges: MatchedRange[];
+  /** The longest shared run, as corpus text. */
+  excerpt: string;
+  /** Share of the corpus document's words found in the checked text, 0-100. */
+  similarity: number;
+  /** Share of the checked text's words covered by this corpus document, 0-100. */
+  impact: number;
+}
+
+// Fingerprints further apart than this (in words) start a new run
+const MAX_RUN_GAP = FINGERPRINT_K + FINGERPRINT_WINDOW;
+// A lone shared k-gram is usually a stock phrase, not copying
+const MIN_RUN_FINGERPRINTS = 2;
+const MAX_EXCERPT_LENGTH = 400;
+
+/** Pseudo-URL that ties findings and sources back to a corpus document. */
+export const corpusSourceUrl = (id: string) => `corpus:${id}`;
+
+const info = ({ text, ...meta }: CorpusDocument): CorpusDocumentInfo => meta;
+
+const docFingerprintRange = (docId: string) => IDBKeyRange.bound([docId, 0], [docId, Number.MAX_SAFE_INTEGER]);
+
+export const listCorpusDocuments = async (): Promise<CorpusDocumentInfo[]> => {
+  if (!isLocalDbAvailable()) return [];
+  const docs = await withStore(STORES.corpusDocuments, 'readonly', store =>
+    requestToPromise(store.getAll() as IDBRequest<CorpusDocument[]>)
+  );
+  return docs.map(info).sort((a, b) => b.addedAt - a.addedAt);
+};
+
+/** Full text of every corpus document, for checks that compare wording rather than fingerprints. */
+export const loadCorpusTexts = async (): Promise<{ document: CorpusDocumentInfo; text: string }[]> => {
+  if (!isLocalDbAvailable()) return [];
+  try {
+    const docs = await withStore(STORES.corpusDocuments, 'readonly', store =>
+      requestToPromise(store.getAll() as IDBRequest<CorpusDocument[]>)
+    );
+    return docs.map(doc => ({ document: info(doc), text: doc.text }));
+  } catch (e) {
+    console.warn('Corpus load failed', e);
+    return [];
+  }
+};
+
+/** Adds a document to the corpus; uploading the same text again replaces the earlier entry. */
+export const addCorpusDocument = async (title: string, text: string, kind: CorpusDocumentKind): Promise<CorpusDocumentInfo> => {
+  const { fingerprints, wordCount } = winnow(text);
+  if (fingerprints.length === 0) throw new Error(`"${title}" is too short to fingerprint. Add a document of at least ${FINGERPRINT_K} words.`);
+  const doc: CorpusDocument = {
+    id: `doc-${hashString(text)}`,
+    title,
+    kind,
+    addedAt: Date.now(),
+    wordCount,
+    fingerprintCount: fingerprints.length,
+    text
+  };
+  await withTransaction([STORES.corpusDocuments, STORES.corpusFingerprints], 'readwrite', tx => {
+    const fingerprintStore = tx.objectStore(STORES.corpusFingerprints);
+    fingerprintStore.delete(docFingerprintRange(doc.id));
+    fingerprints.forEach(f => fingerprintStore.put({ ...f, docId: doc.id } as StoredFingerprint));
+    tx.objectStore(STORES.corpusDocuments).put(doc);
+  });
+  return info(doc);
+};
+
+export const removeCorpusDocument = async (id: string): Promise<void> => {
+  await withTransaction([STORES.corpusDocuments, STORES.corpusFingerprints], 'readwrite', tx => {
+    tx.objectStore(STORES.corpusFingerprints).delete(docFingerprintRange(id));
+    tx.objectStore(STORES.corpusDocuments).delete(id);
+  });
+};
+
+interface FingerprintPair {
+  query: Fingerprint;
+  corpus: StoredFingerprint;
+}
+
+interface Run {
+  pairs: FingerprintPair[];
+  queryStartToken: number;
+  queryEndToken: number;
+  corpusStartToken: number;
+  corpusEndToken: number;
+}
+
+// Pairs are sorted by query position; a run continues while both sides move forward together
+const buildRuns = (pairs: FingerprintPair[]): Run[] => {
+  const runs: Run[] = [];
+  let current: Run | null = null;
+  for (const pair of pairs) {
+    const last: FingerprintPair | undefined = current?.pairs[current.pairs.length - 1];
+    const queryGap = last ? pair.query.tokenIndex - last.query.tokenIndex : Infinity;
+    const corpusGap = last ? pair.corpus.tokenIndex - last.corpus.tokenIndex : Infinity;
+    if (current && queryGap <= MAX_RUN_GAP && corpusGap >= 0 && corpusGap <= MAX_RUN_GAP) {
+      current.pairs.push(pair);
+      current.queryEndToken = Math.max(current.queryEndToken, pair.query.tokenIndex + FINGERPRINT_K);
+      current.corpusEndToken = Math.max(current.corpusEndToken, pair.corpus.tokenIndex + FINGERPRINT_K);
+    } else {
+      current = {
+        pairs: [pair],
+        queryStartToken: pair.query.tokenIndex,
+        queryEndToken: pair.query.tokenIndex + FINGERPRINT_K,
+        corpusStartToken: pair.corpus.tokenIndex,
+        corpusEndToken: pair.corpus.tokenIndex + FINGERPRINT_K
+      };
+      runs.push(current);
+    }
+  }
+  return runs.filter(r => r.pairs.length >= MIN_RUN_FINGERPRINTS);
+};
+
+// Word count of the union of [start, end) token spans
+const coveredTokens = (spans: [number, number][]): number => {
+  let covered = 0;
+  let reach = -1;
+  [...spans].sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+    if (end <= reach) return;
+    covered += end - Math.max(start, reach);
+    reach = end;
+  });
+  return covered;
+};
+
+const longestRange = (ranges: MatchedRange[]) =>
+  ranges.reduce((a, b) => (b.sourceEnd - b.sourceStart > a.sourceEnd - a.sourceStart ? b : a));
+
+const toRange = (run: Run): MatchedRange => {
+  const first = run.pairs[0];
+  const lastQuery = run.pairs.reduce((a, b) => (b.query.end > a.query.end ? b : a)).query;
+  const lastCorpus = run.pairs.reduce((a, b) => (b.corpus.end > a.corpus.end ? b : a)).corpus;
+  return { sourceStart: first.corpus.start, sourceEnd: lastCorpus.end, documentStart: first.query.start, documentEnd: lastQuery.end };
+};
+
+/** Checks text against every corpus document. Throws if local storage fails, so callers can report that the check did not run. */
+export const findCorpusMatches = async (text: string, signal?: AbortSignal): Promise<CorpusHit[]> => {
+  if (!isLocalDbAvailable()) return [];
+  const { fingerprints, wordCount } = winnow(text);
+  if (fingerprints.length === 0) return [];
+
+  const byHash = new Map<number, Fingerprint[]>();
+  fingerprints.forEach(f => byHash.set(f.hash, [...(byHash.get(f.hash) || []), f]));
+
+  const stored = await withStore(STORES.corpusFingerprints, 'readonly', store => {
+    const index = store.index('hash');
+    return Promise.all([...byHash.keys()].map(hash => requestToPromise(index.getAll(hash) as IDBRequest<StoredFingerprint[]>)));
+  });
+  throwIfCancelled(signal);
+
+  const pairsByDoc = new Map<string, FingerprintPair[]>();
+  stored.flat().forEach(corpus => {
+    const pairs = pairsByDoc.get(corpus.docId) || [];
+    byHash.get(corpus.hash)!.forEach(query => pairs.push({ query, corpus }));
+    pairsByDoc.set(corpus.docId, pairs);
+  });
+
+  const hits: CorpusHit[] = [];
+  for (const [docId, pairs] of pairsByDoc) {
+    pairs.sort((a, b) => a.query.tokenIndex - b.query.tokenIndex || a.corpus.tokenIndex - b.corpus.tokenIndex);
+    const runs = buildRuns(pairs);
+    if (runs.length === 0) continue;
+
+    const doc = await withStore(STORES.corpusDocuments, 'readonly', store =>
+      requestToPromise(store.get(docId) as IDBRequest<CorpusDocument | undefined>)
+    );
+    if (!doc) continue;
+
+    const ranges = runs.map(toRange);
+    const longest = longestRange(ranges);
+    hits.push({
+      document: info(doc),
+      ranges,
+      excerpt: doc.text.slice(longest.sourceStart, Math.min(longest.sourceEnd, longest.sourceStart + MAX_EXCERPT_LENGTH)),
+      similarity: Math.min(100, Math.round((coveredTokens(runs.map(r => [r.corpusStartToken, r.corpusEndToken])) / doc.wordCount) * 100)),
+      impact: Math.round((coveredTokens(runs.map(r => [r.queryStartToken, r.queryEndToken])) / wordCount) * 1000) / 10
+    });
+  }
+  return hits.sort((a, b) => b.impact - a.impact);
+};
+
+const KIND_LABELS: Record<CorpusDocumentKind, string> = {
+  REFERENCE: 'Reference document',
+  SUBMISSION: 'Prior submission'
+};
+
+export const corpusKindLabel = (kind: CorpusDocumentKind) => KIND_LABELS[kind];
+
+/** A corpus document as an unscored source; callers fill in the scores and matched ranges. */
+export const corpusDocumentToSource = (document: CorpusDocumentInfo, snippet: string): SourceMatch => ({
+  id: document.id,
+  url: corpusSourceUrl(document.id),
+  title: document.title,
+  snippet,
+  similarity: 0,
+  impactScore: 0,
+  type: 'CORPUS',
+  year: '',
+  fullCitation: `${document.title}. ${KIND_LABELS[document.kind]} in the local corpus, added ${new Date(document.addedAt).toLocaleDateString()}.`
+});
+
+export const corpusHitToSource = (hit: CorpusHit): SourceMatch => {
+  const longest = longestRange(hit.ranges);
+  return {
+    ...corpusDocumentToSource(hit.document, hit.excerpt),
+    similarity: hit.similarity,
+    impactScore: hit.impact,
+    matchedRanges: [{
+      sourceStart: 0,
+      sourceEnd: hit.excerpt.length,
+      documentStart: longest.documentStart,
+      documentEnd: longest.documentEnd
+    }]
+  };
+};
@@ -0,0 +1,232 @@
+import { LanguageCode, MatchedRange, ParagraphAnalysis, SourceMatch } from '../types';
+import { detectLanguage } from './stylometry';
+import { ChunkFindings } from './paragraphAnalysis';
+import { corpusDocumentToSource, loadCorpusTexts } from './corpusStore';
+import { compareSentences, sentenceSpans } from './paraphraseDetector';
+import { tokenize } from './textOverlap';
+import type { SimilarPair } from './sentenceEncoder';
+import { throwIfCancelled } from './cancellation';
+
+/**
+ * CROSS-LANGUAGE MATCHING
+ * Finds passages copied from a source in another language. Every paragraph and
+ * every candidate (local corpus documents and source snippets) gets a detected
+ * language. Candidate languages that differ from the document's paragraphs
+ * become pivot languages. The sentence encoder reads English, so for each
+ * pivot the riskiest paragraphs and the pivot's candidate sentences are both
+ * put into English by the model (text already in English is left as it is)
+ * and compared sentence by sentence there.
+ */
+
+export interface TranslationItem {
+  id: string;
+  text: string;
+}
+
+/** Translates every item into the named language; items missing from the result are skipped. */
+export type Translator = (items: TranslationItem[], language: string) => Promise<Map<string, string>>;
+
+export interface CrossLingualResult {
+  /** One source per matched candidate, tagged with its language. */
+  sources: SourceMatch[];
+  findings: ChunkFindings[];
+}
+
+interface Candidate {
+  source: SourceMatch;
+  text: string;
+  language: LanguageCode;
+}
+
+interface SuspectParagraph {
+  paragraph: ParagraphAnalysis;
+  language: LanguageCode;
+}
+
+// Base languages of every TargetLanguage, named the way the translation prompt expects
+export const LANGUAGE_NAMES: Record<LanguageCode, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  zh: 'Chinese',
+  ja: 'Japanese',
+  ko: 'Korean',
+  ru: 'Russian',
+  ar: 'Arabic'
+};
+
+// The language sentences are compared in. A translated copy set next to its source in English reads as
+// a paraphrase of it, so the paraphrase check's threshold applies: six such pairs scored 0.76-0.88 with
+// the bundled encoder, unrelated sentences at most 0.57.
+const COMPARISON_LANGUAGE: LanguageCode = 'en';
+// Language detection on shorter text is a guess
+const MIN_PARAGRAPH_WORDS = 12;
+const MIN_SNIPPET_WORDS = 12;
+// Every pivot costs one translation of the selected paragraphs
+const MAX_PIVOT_LANGUAGES = 2;
+const MAX_TRANSLATION_CHARS = 12000;
+const MAX_CANDIDATE_TRANSLATION_CHARS = 24000;
+const MAX_CANDIDATE_SENTENCES = 3000;
+const MAX_QUOTE_LENGTH = 200;
+const MAX_EXCERPT_LENGTH = 300;
+
+const wordCount = (text: string) => tokenize(text).length;
+
+const quote = (text: string) => text.length > MAX_QUOTE_LENGTH ? `${text.slice(0, MAX_QUOTE_LENGTH)}…` : text;
+
+// Pivots are the candidate languages with the most material that some paragraph is not already written in
+const pickPivots = (candidates: Candidate[], suspects: SuspectParagraph[]): LanguageCode[] => {
+  const volume = new Map<LanguageCode, number>();
+  candidates.forEach(c => volume.set(c.language, (volume.get(c.language) || 0) + c.text.length));
+  return [...volume.entries()]
+    .filter(([language]) => suspects.some(s => s.language !== language))
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_PIVOT_LANGUAGES)
+    .map(([language]) => language);
+};
+
+// Riskiest paragraphs first, then document order, until the character budget runs out
+const selectForTranslation = (suspects: SuspectParagraph[], pivot: LanguageCode): SuspectParagraph[] => {
+  const selected: SuspectParagraph[] = [];
+  let budget = MAX_TRANSLATION_CHARS;
+  [...suspects]
+    .filter(s => s.language !== pivot)
+    .sort((a, b) => b.paragraph.riskScore - a.paragraph.riskScore || a.paragraph.index - b.paragraph.index)
+    .forEach(s => {
+      if (s.paragraph.text.length > budget) return;
+      selected.push(s);
+      budget -= s.paragraph.text.length;
+    });
+  return selected;
+};
+
+export const detectTranslatedPlagiarism = async (
+  text: string,
+  paragraphs: ParagraphAnalysis[],
+  sources: SourceMatch[],
+  translate: Translator,
+  signal?: AbortSignal,
+  onStep?: (step: string) => void
+): Promise<CrossLingualResult> => {
+  const corpus = await loadCorpusTexts();
+  throwIfCancelled(signal);
+
+  // Corpus sources only carry an excerpt; the full corpus text stands in for them
+  const candidates: Candidate[] = [
+    ...corpus.map(({ document, text: docText }) => ({ source: corpusDocumentToSource(document, ''), text: docText, language: detectLanguage(docText) })),
+    ...sources
+      .filter(s => s.type !== 'CORPUS' && wordCount(s.snippet) >= MIN_SNIPPET_WORDS)
+      .map(s => ({ source: s, text: s.snippet, language: detectLanguage(s.snippet) }))
+  ];
+  const suspects: SuspectParagraph[] = paragraphs
+    .filter(p => wordCount(p.text) >= MIN_PARAGRAPH_WORDS)
+    .map(p => ({ paragraph: p, language: detectLanguage(p.text) }));
+  if (candidates.length === 0 || suspects.length === 0) return { sources: [], findings: [] };
+
+  const documentWords = wordCount(text);
+  const matchedSources: SourceMatch[] = [];
+  const findings: ChunkFindings[] = [];
+
+  for (const pivot of pickPivots(candidates, suspects)) {
+    const selected = selectForTranslation(suspects, pivot);
+    if (selected.length === 0) continue;
+
+    // Candidate sentences that need translating share a character budget, since each one is a model call's worth of text
+    let candidateBudget = MAX_CANDIDATE_TRANSLATION_CHARS;
+    const candidateSentences = candidates
+      .map((candidate, index) => ({ candidate, index }))
+      .filter(({ candidate }) => candidate.language === pivot)
+      .flatMap(({ candidate, index }) => sentenceSpans(candidate.text).map(span => ({ ...span, candidate: index })))
+      .slice(0, MAX_CANDIDATE_SENTENCES)
+      .filter(s => pivot === COMPARISON_LANGUAGE || (candidateBudget -= s.text.length) >= 0);
+    if (candidateSentences.length === 0) continue;
+
+    const pending: TranslationItem[] = [
+      ...selected.filter(s => s.language !== COMPARISON_LANGUAGE).map(s => ({ id: `p${s.paragraph.index}`, text: s.paragraph.text })),
+      ...(pivot === COMPARISON_LANGUAGE ? [] : candidateSentences.map((s, i) => ({ id: `c${i}`, text: s.text })))
+    ];
+    let translations = new Map<string, string>();
+    if (pending.length > 0) {
+      onStep?.(`Translating ${pending.length} ${pending.length === 1 ? 'Passage' : 'Passages'} to ${LANGUAGE_NAMES[COMPARISON_LANGUAGE]}`);
+      translations = await translate(pending, LANGUAGE_NAMES[COMPARISON_LANGUAGE]);
+      throwIfCancelled(signal);
+    }
+
+    const queries = selected.flatMap(s => {
+      const compared = s.language === COMPARISON_LANGUAGE ? s.paragraph.text : translations.get(`p${s.paragraph.index}`);
+      return compared ? sentenceSpans(compared).map(span => ({ text: span.text, suspect: s })) : [];
+    });
+    const comparedCandidates = candidateSentences.flatMap((s, index) => {
+      const compared = pivot === COMPARISON_LANGUAGE ? s.text : translations.get(`c${index}`);
+      return compared ? [{ text: compared, index }] : [];
+    });
+    if (queries.length === 0 || comparedCandidates.length === 0) continue;
+
+    // Pairs point back at the candidate sentences as written, so quotes and ranges use the original language
+    const pairs = (await compareSentences(queries.map(q => q.text), comparedCandidates.map(c => c.text), signal))
+      .map(pair => ({ ...pair, candidate: comparedCandidates[pair.candidate].index }));
+
+    // Each paragraph is reported once, against the candidate sentence it matched best
+    const bestByParagraph = new Map<number, { pair: SimilarPair; suspect: SuspectParagraph }>();
+    pairs.forEach(pair => {
+      const { suspect } = queries[pair.query];
+      const current = bestByParagraph.get(suspect.paragraph.index);
+      if (!current || pair.score > current.pair.score) bestByParagraph.set(suspect.paragraph.index, { pair, suspect });
+    });
+
+    bestByParagraph.forEach(({ pair, suspect }) => {
+      const sentence = candidateSentences[pair.candidate];
+      const candidate = candidates[sentence.candidate];
+      const similarity = Math.round(pair.score * 100);
+      findings.push({
+        start: suspect.paragraph.start,
+        end: suspect.paragraph.end,
+        passages: [{
+          excerpt: suspect.paragraph.text.slice(0, MAX_EXCERPT_LENGTH),
+          matchType: 'PLAGIARISM',
+          riskScore: similarity,
+          reason: `Translated from ${LANGUAGE_NAMES[candidate.language]}: "${quote(sentence.text)}" (${candidate.source.title}, ${similarity}% similar after translation)`,
+          sourceUrl: candidate.source.url
+        }]
+      });
+    });
+
+    // Sources are scored on every matched sentence, not only each paragraph's best
+    const byCandidate = new Map<number, { sentences: Set<number>; paragraphs: Map<number, ParagraphAnalysis>; ranges: Map<string, MatchedRange> }>();
+    pairs.forEach(pair => {
+      const { suspect } = queries[pair.query];
+      const sentence = candidateSentences[pair.candidate];
+      const entry = byCandidate.get(sentence.candidate) || { sentences: new Set<number>(), paragraphs: new Map<number, ParagraphAnalysis>(), ranges: new Map<string, MatchedRange>() };
+      entry.sentences.add(pair.candidate);
+      entry.paragraphs.set(suspect.paragraph.index, suspect.paragraph);
+      entry.ranges.set(`${pair.candidate}:${suspect.paragraph.index}`, { sourceStart: sentence.start, sourceEnd: sentence.end, documentStart: suspect.paragraph.start, documentEnd: suspect.paragraph.end });
+      byCandidate.set(sentence.candidate, entry);
+    });
+
+    byCandidate.forEach((entry, index) => {
+      const candidate = candidates[index];
+      const total = candidateSentences.filter(s => s.candidate === index).length;
+      const coveredWords = [...entry.paragraphs.values()].reduce((sum, p) => sum + wordCount(p.text), 0);
+      // A corpus document's ranges point into its full text; its snippet becomes the best matched sentence
+      const isCorpus = candidate.source.type === 'CORPUS';
+      const ranges = [...entry.ranges.values()];
+      const best = ranges.reduce((a, b) => (b.sourceEnd - b.sourceStart > a.sourceEnd - a.sourceStart ? b : a));
+      const snippet = isCorpus ? candidate.text.slice(best.sourceStart, best.sourceEnd) : candidate.source.snippet;
+      matchedSources.push({
+        ...candidate.source,
+        snippet,
+        similarity: Math.min(100, Math.round((entry.sentences.size / total) * 100)),
+        impactScore: Math.round((coveredWords / documentWords) * 1000) / 10,
+        matchedRanges: isCorpus ? [{ ...best, sourceStart: 0, sourceEnd: snippet.length }] : ranges,
+        language: candidate.language,
+        crossLingual: true
+      });
+    });
+  }
+
+  return { sources: matchedSources, findings };
+};
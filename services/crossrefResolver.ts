@@ -0,0 +1,92 @@
+import { CitationName, SourceMatch } from '../types';
+import { MetadataQuery, MetadataResolver, ResolvedMetadata, titlesMatch } from './metadataResolver';
+
+const CROSSREF_API = 'https://api.crossref.org';
+
+// arXiv registers its DOIs with DataCite; Crossref-compatible mirrors that also index DataCite resolve these
+const ARXIV_DOI_PREFIX = '10.48550/arXiv.';
+
+// The subset of a Crossref work record the resolver reads
+interface CrossrefWork {
+  type?: string;
+  title?: string[];
+  subtitle?: string[];
+  author?: { given?: string; family?: string; name?: string }[];
+  editor?: { given?: string; family?: string; name?: string }[];
+  issued?: { 'date-parts'?: (number | null)[][] };
+  published?: { 'date-parts'?: (number | null)[][] };
+  'container-title'?: string[];
+  volume?: string;
+  issue?: string;
+  page?: string;
+  DOI?: string;
+  URL?: string;
+  publisher?: string;
+}
+
+const workType = (type = ''): SourceMatch['type'] =>
+  ['journal-article', 'proceedings-article', 'posted-content', 'journal-issue'].includes(type) ? 'JOURNAL'
+    : ['book', 'monograph', 'edited-book', 'reference-book', 'book-chapter', 'book-section', 'book-part'].includes(type) ? 'BOOK'
+    : ['report', 'report-component', 'standard', 'dissertation'].includes(type) ? 'INSTITUTIONAL'
+    : 'WEB';
+
+const toMetadata = (work: CrossrefWork): ResolvedMetadata | null => {
+  const title = work.title?.[0]?.trim();
+  if (!title) return null;
+  const people = work.author?.length ? work.author : work.editor || [];
+  const authors = people
+    .map((p): CitationName | null => p.family ? { family: p.family, ...(p.given ? { given: p.given } : {}) } : p.name ? { family: p.name } : null)
+    .filter((n): n is CitationName => !!n);
+  const year = (work.issued || work.published)?.['date-parts']?.[0]?.[0];
+  const subtitle = work.subtitle?.[0]?.trim();
+  return {
+    type: workType(work.type),
+    title: subtitle && !title.includes(subtitle) ? `${title}: ${subtitle}` : title,
+    ...(authors.length ? { authors } : {}),
+    ...(year ? { year: String(year) } : {}),
+    ...(work['container-title']?.[0] ? { container: work['container-title'][0] } : {}),
+    ...(work.volume ? { volume: work.volume } : {}),
+    ...(work.issue ? { issue: work.issue } : {}),
+    ...(work.page ? { pages: work.page } : {}),
+    ...(work.DOI ? { doi: work.DOI } : {}),
+    ...(work.publisher ? { publisher: work.publisher } : {}),
+    ...(work.URL ? { url: work.URL } : {})
+  };
+};
+
+/** Resolves through the Crossref REST API, or any service that answers the same /works routes. */
+export const createCrossrefResolver = (baseUrl: string = CROSSREF_API): MetadataResolver => {
+  const get = async <T>(path: string, signal?: AbortSignal): Promise<T | null> => {
+    const res = await fetch(`${baseUrl}${path}`, { headers: { Accept: 'application/json' }, signal });
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`Metadata service responded ${res.status}`);
+    return (await res.json()).message as T;
+  };
+
+  const byDoi = async (doi: string, signal?: AbortSignal) => {
+    const work = await get<CrossrefWork>(`/works/${encodeURIComponent(doi)}`, signal);
+    return work ? toMetadata(work) : null;
+  };
+
+  const search = async (params: string, title: string | undefined, signal?: AbortSignal) => {
+    const found = await get<{ items?: CrossrefWork[] }>(`/works?${params}&rows=5`, signal);
+    const items = (found?.items || []).filter(w => !title || (w.title?.[0] && titlesMatch(w.title[0], title)));
+    return items.length ? toMetadata(items[0]) : null;
+  };
+
+  const byTitle = (title: string | undefined, signal?: AbortSignal) =>
+    title ? search(`query.bibliographic=${encodeURIComponent(title)}`, title, signal) : Promise.resolve(null);
+
+  return {
+    id: 'crossref',
+    label: 'Crossref',
+    resolve: async (query: MetadataQuery, signal?: AbortSignal) => {
+      switch (query.kind) {
+        case 'DOI': return byDoi(query.value, signal);
+        case 'ARXIV': return await byDoi(`${ARXIV_DOI_PREFIX}${query.value}`, signal) || byTitle(query.title, signal);
+        case 'ISBN': return search(`filter=isbn:${encodeURIComponent(query.value)}`, undefined, signal);
+        case 'URL': return byTitle(query.title, signal);
+      }
+    }
+  };
+};
@@ -0,0 +1,74 @@
+import { buildOverlapIndex, scoreOverlap, tokenize } from './textOverlap';
+
+/**
+ * TWO-DOCUMENT COMPARISON
+ * Compares document A with document B on this device, with no model call.
+ * Shared passages are the word-shingle runs the overlap scorer finds between
+ * the two texts; runs shorter than MIN_PASSAGE_WORDS are dropped, since short
+ * stock phrases turn up in any two essays on the same topic.
+ */
+
+export interface SharedPassage {
+  id: number;
+  aStart: number;
+  aEnd: number;
+  bStart: number;
+  bEnd: number;
+  wordCount: number;
+}
+
+export interface DocumentComparison {
+  /** In document A order. */
+  passages: SharedPassage[];
+  /** Share of A's words that also appear in B, 0-100. */
+  overlapA: number;
+  /** Share of B's words that also appear in A, 0-100. */
+  overlapB: number;
+  /** Shared words over all words of both documents, 0-100. */
+  overlap: number;
+  /** The longest passages first, at most MAX_LONGEST. */
+  longest: SharedPassage[];
+  wordsA: number;
+  wordsB: number;
+}
+
+const MIN_PASSAGE_WORDS = 8;
+const MAX_LONGEST = 5;
+
+const percent = (part: number, whole: number) => whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+
+// Words inside the union of character ranges; several passages of A can repeat the same part of B
+const coveredWords = (text: string, ranges: [number, number][]): number => {
+  let covered = 0;
+  let reach = 0;
+  [...ranges].sort((x, y) => x[0] - y[0]).forEach(([start, end]) => {
+    if (end <= reach) return;
+    covered += tokenize(text.slice(Math.max(start, reach), end)).length;
+    reach = end;
+  });
+  return covered;
+};
+
+export const compareDocuments = (a: string, b: string): DocumentComparison => {
+  const wordsA = tokenize(a).length;
+  const wordsB = tokenize(b).length;
+  const { ranges } = scoreOverlap(buildOverlapIndex(b), a);
+
+  const passages: SharedPassage[] = ranges
+    .map(r => ({ aStart: r.sourceStart, aEnd: r.sourceEnd, bStart: r.documentStart, bEnd: r.documentEnd, wordCount: tokenize(a.slice(r.sourceStart, r.sourceEnd)).length }))
+    .filter(p => p.wordCount >= MIN_PASSAGE_WORDS)
+    .map((p, id) => ({ id, ...p }));
+
+  const sharedA = coveredWords(a, passages.map(p => [p.aStart, p.aEnd]));
+  const sharedB = coveredWords(b, passages.map(p => [p.bStart, p.bEnd]));
+
+  return {
+    passages,
+    overlapA: percent(sharedA, wordsA),
+    overlapB: percent(sharedB, wordsB),
+    overlap: percent(sharedA + sharedB, wordsA + wordsB),
+    longest: [...passages].sort((x, y) => y.wordCount - x.wordCount).slice(0, MAX_LONGEST),
+    wordsA,
+    wordsB
+  };
+};
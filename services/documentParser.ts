@@ -1,26 +1,29 @@
 
 // Libraries are managed via package.json and bundled by Vite.
+import { CancelledError, isCancellation, raceAbort, throwIfCancelled } from './cancellation';
 
-export const parseFile = async (file: File, onProgress?: (msg: string) => void): Promise<string> => {
+export const parseFile = async (file: File, onProgress?: (msg: string) => void, signal?: AbortSignal): Promise<string> => {
   const extension = file.name.split('.').pop()?.toLowerCase();
 
   try {
+    throwIfCancelled(signal);
     if (extension === 'pdf') {
-      return await parsePdf(file, onProgress);
+      return await parsePdf(file, onProgress, signal);
     } else if (extension === 'docx') {
       onProgress?.("Extracting Institutional DOCX...");
-      return await parseDocx(file);
+      return await raceAbort(parseDocx(file), signal);
     } else {
       onProgress?.("Reading Source Text...");
-      return await parseText(file);
+      return await parseText(file, signal);
     }
   } catch (error: any) {
+    if (isCancellation(error) || signal?.aborted) throw new CancelledError();
     console.error("Error parsing file:", error);
     throw new Error(error.message || `Failed to read ${extension?.toUpperCase()} file. It may be corrupted or password protected.`);
   }
 };
 
-const parsePdf = async (file: File, onProgress?: (msg: string) => void): Promise<string> => {
+const parsePdf = async (file: File, onProgress?: (msg: string) => void, signal?: AbortSignal): Promise<string> => {
   const pdfjsLib = await import('pdfjs-dist');
   
   if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
@@ -29,58 +32,124 @@ const parsePdf = async (file: File, onProgress?: (msg: string) => void): Promise
 
   const arrayBuffer = await file.arrayBuffer();
   const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-  const pdf = await loadingTask.promise;
+  // Tears down pdf.js parsing (and its worker requests) when the import is cancelled
+  const onAbort = () => { loadingTask.destroy(); };
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    const pdf = await raceAbort(loadingTask.promise, signal);
   
-  onProgress?.(`Initializing Forensic PDF Audit (0/${pdf.numPages})...`);
-
-  // Optimized Extraction: Process pages in parallel chunks of 10 to balance speed and memory
-  const totalPages = pdf.numPages;
-  const BATCH_SIZE = 10;
-  let allPagesText: string[] = new Array(totalPages);
-
-  for (let i = 0; i < totalPages; i += BATCH_SIZE) {
-    const end = Math.min(i + BATCH_SIZE, totalPages);
-    const batchPromises = [];
-
-    for (let j = i; j < end; j++) {
-      batchPromises.push((async (pageIndex) => {
-        const page = await pdf.getPage(pageIndex + 1);
-        const textContent = await page.getTextContent();
-        const pageText = textContent.items
-          .map((item: any) => (item as any).str)
-          .join(' ');
-        return { index: pageIndex, text: pageText };
-      })(j));
+    onProgress?.(`Initializing Forensic PDF Audit (0/${pdf.numPages})...`);
+
+    // Optimized Extraction: Process pages in parallel chunks of 10 to balance speed and memory
+    const totalPages = pdf.numPages;
+    const BATCH_SIZE = 10;
+    let allPagesText: string[] = new Array(totalPages);
+
+    for (let i = 0; i < totalPages; i += BATCH_SIZE) {
+      throwIfCancelled(signal);
+      const end = Math.min(i + BATCH_SIZE, totalPages);
+      const batchPromises = [];
+
+      for (let j = i; j < end; j++) {
+        batchPromises.push((async (pageIndex) => {
+          const page = await pdf.getPage(pageIndex + 1);
+          const textContent = await page.getTextContent();
+          const pageText = textContent.items
+            .map((item: any) => (item as any).str)
+            .join(' ');
+          return { index: pageIndex, text: pageText };
+        })(j));
+      }
+
+      const results = await Promise.all(batchPromises);
+      results.forEach(res => {
+        allPagesText[res.index] = res.text;
+      });
+
+      onProgress?.(`Extracting Forensic DNA: Page ${end}/${totalPages}`);
     }
 
-    const results = await Promise.all(batchPromises);
-    results.forEach(res => {
-      allPagesText[res.index] = res.text;
-    });
+    const fullText = allPagesText.join('\n\n');
 
-    onProgress?.(`Extracting Forensic DNA: Page ${end}/${totalPages}`);
+    if (!fullText.trim()) {
+        throw new Error("No text found in PDF. Document might be image-only (Scanned PDF).");
+    }
+  
+    return fullText;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
   }
+};
 
-  const fullText = allPagesText.join('\n\n');
+// Fonts and paragraph styles that mark a code listing in Word documents
+const MONOSPACE_FONT = /mono|courier|consolas|menlo|monaco|lucida console|inconsolata|cascadia/i;
+const CODE_STYLE = /code|preformatted|listing|verbatim/i;
 
-  if (!fullText.trim()) {
-      throw new Error("No text found in PDF. Document might be image-only (Scanned PDF).");
-  }
-  
-  return fullText;
+// The parts of mammoth's document tree the text walk reads; other node types only contribute their children
+interface DocxNode {
+  type: string;
+  value?: string;
+  font?: string | null;
+  styleName?: string | null;
+  children?: DocxNode[];
+}
+
+// Same text as mammoth's raw-text output, except runs of monospaced paragraphs are fenced as code
+const docxToText = (element: DocxNode): string => {
+  const paragraphs: { text: string; code: boolean }[] = [];
+  const walk = (node: DocxNode, collect: { text: string; monospace: boolean }[], font: string | null) => {
+    if (node.type === 'text') collect.push({ text: node.value || '', monospace: !!font && MONOSPACE_FONT.test(font) });
+    else if (node.type === 'tab') collect.push({ text: '\t', monospace: !!font && MONOSPACE_FONT.test(font) });
+    else if (node.type === 'paragraph') {
+      const parts: { text: string; monospace: boolean }[] = [];
+      (node.children || []).forEach(child => walk(child, parts, null));
+      const text = parts.map(p => p.text).join('');
+      const visible = parts.filter(p => p.text.trim());
+      const code = !!text.trim() && ((!!node.styleName && CODE_STYLE.test(node.styleName)) || visible.every(p => p.monospace));
+      paragraphs.push({ text, code });
+    } else (node.children || []).forEach(child => walk(child, collect, node.type === 'run' ? node.font ?? null : font));
+  };
+  walk(element, [], null);
+  // Blank lines inside a listing stay part of it
+  paragraphs.forEach((p, i) => {
+    if (p.text.trim() || !paragraphs[i - 1]?.code) return;
+    const next = paragraphs.slice(i + 1).find(n => n.text.trim());
+    p.code = !!next?.code;
+  });
+
+  let out = '';
+  paragraphs.forEach((p, i) => {
+    const previous = paragraphs[i - 1];
+    if (p.code && !previous?.code) out += '```\n';
+    out += p.code ? `${p.text}\n` : `${p.text}\n\n`;
+    if (p.code && !paragraphs[i + 1]?.code) out += '```\n\n';
+  });
+  return out;
 };
 
 const parseDocx = async (file: File): Promise<string> => {
   const mammothModule = await import('mammoth');
   const mammoth = (mammothModule as any).default || mammothModule;
   const arrayBuffer = await file.arrayBuffer();
-  const result = await mammoth.extractRawText({ arrayBuffer });
-  return result.value;
+  // Raw-text extraction drops fonts, so the document tree is read during an HTML conversion whose output is unused
+  let text = '';
+  await mammoth.convertToHtml({ arrayBuffer }, {
+    convertImage: mammoth.images.imgElement(() => Promise.resolve({ src: '' })),
+    transformDocument: (document: DocxNode) => {
+      text = docxToText(document);
+      return document;
+    }
+  });
+  return text;
 };
 
-const parseText = (file: File): Promise<string> => {
+const parseText = (file: File, signal?: AbortSignal): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
+    const onAbort = () => reader.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    reader.onloadend = () => signal?.removeEventListener('abort', onAbort);
+    reader.onabort = () => reject(new CancelledError());
     reader.onload = (e) => {
       const result = e.target?.result;
       if (typeof result === 'string') resolve(result);
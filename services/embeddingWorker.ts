@@ -0,0 +1,47 @@
+import { findSimilarPairs, getSentenceEncoder, SimilarPair } from './sentenceEncoder';
+
+/**
+ * EMBEDDING WORKER
+ * Encodes and compares sentences off the main thread, so a long paraphrase
+ * check never freezes the editor. One request in, one response out.
+ */
+
+export interface EmbeddingRequest {
+  id: number;
+  queries: string[];
+  candidates: string[];
+  threshold: number;
+}
+
+export type EmbeddingResponse =
+  | { id: number; pairs: SimilarPair[] }
+  | { id: number; error: string };
+
+// Typed locally so this file compiles against the DOM lib the rest of the app uses
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<EmbeddingRequest>) => void) | null;
+  postMessage: (message: EmbeddingResponse) => void;
+};
+
+// Corpus sentences come back with every check, so their vectors are kept between requests (2 KB each)
+const MAX_CACHED_VECTORS = 10000;
+const cache = new Map<string, Float32Array>();
+
+const encodeCached = async (sentences: string[]): Promise<Float32Array[]> => {
+  const missing = [...new Set(sentences.filter(s => !cache.has(s)))];
+  if (cache.size + missing.length > MAX_CACHED_VECTORS) cache.clear();
+  const vectors = await getSentenceEncoder().encode(missing);
+  missing.forEach((s, i) => cache.set(s, vectors[i]));
+  return sentences.map(s => cache.get(s)!);
+};
+
+scope.onmessage = async (event) => {
+  const { id, queries, candidates, threshold } = event.data;
+  try {
+    const candidateVectors = await encodeCached(candidates);
+    const queryVectors = await encodeCached(queries);
+    scope.postMessage({ id, pairs: findSimilarPairs(queryVectors, candidateVectors, threshold) });
+  } catch (e: unknown) {
+    scope.postMessage({ id, error: e instanceof Error ? e.message : String(e) });
+  }
+};
@@ -0,0 +1,198 @@
+import { AnalysisResult, ExclusionSettings, ExclusionZone, MatchedRange, ParagraphAnalysis, SourceMatch } from '../types';
+import { tokenize } from './textOverlap';
+import { splitSections } from './stylometry';
+import { detectCodeBlocks, maskCodeBlocks } from './codeBlocks';
+
+/**
+ * QUOTE- AND REFERENCE-AWARE SCORING
+ * Quoted passages, block quotes and the References section are found when the
+ * document is analysed and stored with the result. Exclusions are applied to
+ * those stored results with no model call: a matched range is dropped when
+ * most of its words sit in an excluded zone, when it is shorter than the
+ * minimum match length, or when its source or domain is excluded. Sources
+ * the model found without a located match count through the paragraphs
+ * flagged against them instead. The model's score is then scaled by the share
+ * of matched words that remain; leaving out the bibliography also drops that
+ * section from the length-weighted average.
+ */
+
+export interface ExclusionResult {
+  plagiarismScore: number;
+  /** Sources that still count, with their dropped ranges removed. */
+  sourcesFound: SourceMatch[];
+  /** Sources left out by source or domain, so they can be restored. */
+  excludedSources: SourceMatch[];
+  paragraphBreakdown: ParagraphAnalysis[];
+  /** Document words matched by any source, and how many of them still count. */
+  matchedWords: number;
+  keptWords: number;
+}
+
+export const DEFAULT_EXCLUSIONS: ExclusionSettings = {
+  excludeQuotes: false,
+  excludeBibliography: false,
+  minMatchWords: 0,
+  excludedSources: [],
+  excludedDomains: []
+};
+
+const BIBLIOGRAPHY_HEADING = /^(?:\d+(?:\.\d+)*\.?\s+|[IVX]+\.?\s+)?(?:references?|reference list|bibliography|works cited|works consulted|literature cited|sources cited|sources)$/i;
+// Double quotes only: single quotes double as apostrophes. A quote may wrap lines but not cross a blank line.
+const QUOTATION = /“(?:[^”\n]|\n(?!\s*\n))*?”|"(?:[^"\n]|\n(?!\s*\n))*?"|«(?:[^»\n]|\n(?!\s*\n))*?»|„(?:[^“”\n]|\n(?!\s*\n))*?[“”]/g;
+const BLOCK_QUOTE = /^(?:[ \t]*>.*(?:\r?\n|$))+/gm;
+// An unbalanced quote mark must not swallow a whole paragraph
+const MAX_QUOTE_LENGTH = 1500;
+
+export const hostOf = (url: string): string | null => {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:' ? hostname.replace(/^www\./, '').toLowerCase() : null;
+  } catch {
+    return null;
+  }
+};
+
+export const detectExclusionZones = (text: string): ExclusionZone[] => {
+  // Strings inside code listings are not quotations
+  const prose = maskCodeBlocks(text, detectCodeBlocks(text));
+  const zones: ExclusionZone[] = [];
+
+  for (const m of prose.matchAll(BLOCK_QUOTE)) {
+    zones.push({ kind: 'BLOCK_QUOTE', start: m.index!, end: m.index! + m[0].trimEnd().length });
+  }
+  for (const m of prose.matchAll(QUOTATION)) {
+    const start = m.index!;
+    if (m[0].length > MAX_QUOTE_LENGTH || zones.some(z => z.kind === 'BLOCK_QUOTE' && start >= z.start && start < z.end)) continue;
+    zones.push({ kind: 'QUOTE', start, end: start + m[0].length });
+  }
+  splitSections(prose)
+    .filter(s => BIBLIOGRAPHY_HEADING.test(s.heading.trim()))
+    .forEach(s => zones.push({ kind: 'BIBLIOGRAPHY', start: s.start, end: s.end }));
+
+  return zones.sort((a, b) => a.start - b.start);
+};
+
+export const isDefaultExclusions = (settings: ExclusionSettings): boolean =>
+  !settings.excludeQuotes && !settings.excludeBibliography && settings.minMatchWords === 0 &&
+  settings.excludedSources.length === 0 && settings.excludedDomains.length === 0;
+
+export const isSourceExcluded = (source: SourceMatch, settings: ExclusionSettings): boolean => {
+  const host = hostOf(source.url);
+  return settings.excludedSources.includes(source.url) || (!!host && settings.excludedDomains.includes(host));
+};
+
+/** Where a source shows in the document: its matched ranges, or else the paragraphs flagged against it. */
+export const sourceSpans = (source: SourceMatch, paragraphs: ParagraphAnalysis[]): { start: number; end: number }[] =>
+  source.matchedRanges?.length
+    ? source.matchedRanges.map(r => ({ start: r.documentStart, end: r.documentEnd }))
+    : paragraphs.filter(p => p.matchType === 'PLAGIARISM' && p.sourceIds.includes(source.id)).map(p => ({ start: p.start, end: p.end }));
+
+export const applyExclusions = (text: string, analysis: AnalysisResult, settings: ExclusionSettings): ExclusionResult => {
+  if (isDefaultExclusions(settings)) {
+    return { plagiarismScore: analysis.plagiarismScore, sourcesFound: analysis.sourcesFound, excludedSources: [], paragraphBreakdown: analysis.paragraphBreakdown, matchedWords: 0, keptWords: 0 };
+  }
+  const tokens = tokenize(text);
+  const zones = analysis.exclusionZones ?? detectExclusionZones(text);
+
+  // Token index spans: the first token ending after `start` up to the last token starting before `end`
+  const firstToken = (offset: number) => {
+    let lo = 0;
+    let hi = tokens.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (tokens[mid].end <= offset) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+  const tokenSpan = (start: number, end: number): [number, number] => [firstToken(start), firstToken(end)];
+  const mark = (into: Uint8Array, start: number, end: number) => {
+    const [from, to] = tokenSpan(start, end);
+    into.fill(1, from, to);
+  };
+  const count = (mask: Uint8Array, from = 0, to = mask.length) => {
+    let n = 0;
+    for (let i = from; i < to; i++) n += mask[i];
+    return n;
+  };
+
+  const bibliography = new Uint8Array(tokens.length);
+  const excluded = new Uint8Array(tokens.length);
+  zones.forEach(z => {
+    if (z.kind === 'BIBLIOGRAPHY') mark(bibliography, z.start, z.end);
+    if ((z.kind === 'BIBLIOGRAPHY' && settings.excludeBibliography) || (z.kind !== 'BIBLIOGRAPHY' && settings.excludeQuotes)) mark(excluded, z.start, z.end);
+  });
+
+  const outsideZones = (start: number, end: number) => {
+    const [from, to] = tokenSpan(start, end);
+    return count(excluded, from, to) * 2 <= to - from;
+  };
+  const keepRange = (r: MatchedRange) => {
+    const [from, to] = tokenSpan(r.documentStart, r.documentEnd);
+    return to - from >= settings.minMatchWords && outsideZones(r.documentStart, r.documentEnd);
+  };
+
+  const matched = new Uint8Array(tokens.length);
+  const kept = new Uint8Array(tokens.length);
+  const sourcesFound: SourceMatch[] = [];
+  const excludedSources: SourceMatch[] = [];
+  const droppedIds = new Set<string>();
+
+  analysis.sourcesFound.forEach(source => {
+    const ranges = source.matchedRanges || [];
+    const spans = sourceSpans(source, analysis.paragraphBreakdown);
+    spans.forEach(r => mark(matched, r.start, r.end));
+    if (isSourceExcluded(source, settings)) {
+      excludedSources.push(source);
+      droppedIds.add(source.id);
+      return;
+    }
+    if (ranges.length === 0) {
+      // Flagged paragraphs have no match length, so only the quote and bibliography zones apply to them
+      const keptSpans = spans.filter(r => outsideZones(r.start, r.end));
+      if (spans.length > 0 && keptSpans.length === 0) {
+        droppedIds.add(source.id);
+        return;
+      }
+      sourcesFound.push(source);
+      keptSpans.forEach(r => mark(kept, r.start, r.end));
+      return;
+    }
+    const keptRanges = ranges.filter(keepRange);
+    if (keptRanges.length === ranges.length) {
+      sourcesFound.push(source);
+    } else if (keptRanges.length > 0) {
+      const own = new Uint8Array(tokens.length);
+      keptRanges.forEach(r => mark(own, r.documentStart, r.documentEnd));
+      sourcesFound.push({ ...source, matchedRanges: keptRanges, impactScore: tokens.length > 0 ? Math.round((count(own) / tokens.length) * 1000) / 10 : 0 });
+    } else {
+      // Everything this source matched is quoted, cited or too short to count
+      droppedIds.add(source.id);
+      return;
+    }
+    keptRanges.forEach(r => mark(kept, r.documentStart, r.documentEnd));
+  });
+
+  // Matches in the bibliography are already accounted for by dropping its section below
+  if (settings.excludeBibliography) bibliography.forEach((b, i) => { if (b) matched[i] = kept[i] = 0; });
+  const matchedWords = count(matched);
+  const keptWords = count(kept);
+
+  const sections = analysis.scoreBreakdown?.sections || [];
+  const bodySections = sections.filter(s => !BIBLIOGRAPHY_HEADING.test(s.heading.trim()));
+  const bodyWeight = bodySections.reduce((sum, s) => sum + s.weight, 0);
+  const baseScore = settings.excludeBibliography && bodySections.length < sections.length && bodyWeight > 0
+    ? bodySections.reduce((sum, s) => sum + s.plagiarismScore * s.weight, 0) / bodyWeight
+    : analysis.plagiarismScore;
+  const plagiarismScore = Math.round(matchedWords > 0 ? baseScore * (keptWords / matchedWords) : baseScore);
+
+  const paragraphBreakdown = analysis.paragraphBreakdown.map(p => {
+    if (p.matchType !== 'PLAGIARISM') return p;
+    const [from, to] = tokenSpan(p.start, p.end);
+    const inZones = to > from && count(excluded, from, to) * 2 > to - from;
+    const sourcesGone = p.sourceIds.length > 0 && p.sourceIds.every(id => droppedIds.has(id));
+    return inZones || sourcesGone ? { ...p, riskScore: 0, matchType: 'SAFE' as const, evidence: '', sourceIds: [] } : p;
+  });
+
+  return { plagiarismScore, sourcesFound, excludedSources, paragraphBreakdown, matchedWords, keptWords };
+};
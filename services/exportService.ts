@@ -1,19 +1,26 @@
 
 import toast from 'react-hot-toast';
+import { CitationStyle, SourceMatch } from '../types';
+import { BIBLIOGRAPHY_FORMATS, BibliographyFormat, serializeBibliography } from './bibliographyFormats';
+import { bibliographyHeading, citationKind, formatBibliography, stripCitationMarkup } from './citationFormatter';
 
-export const downloadDocx = async (text: string, filename: string = 'PlagiaFix_Rewritten', bibliography?: any[]) => {
+// file-saver is CommonJS, and the dev server and the build expose saveAs differently
+const saveBlob = async (blob: Blob, filename: string) => {
+    const fileSaverModule = await import('file-saver');
+    const saveAs = fileSaverModule.default?.saveAs || fileSaverModule.saveAs || fileSaverModule.default;
+
+    if (typeof saveAs !== 'function') {
+         throw new Error("Failed to load file saving module.");
+    }
+    saveAs(blob, filename);
+};
+
+export const downloadDocx = async (text: string, filename: string = 'PlagiaFix_Rewritten', bibliography?: SourceMatch[], citationStyle: CitationStyle = 'APA 7th Edition') => {
     const loadingToast = toast.loading('Generating Institutional DOCX...');
     try {
         const docxModule = await import('docx');
         const { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, ListLevel } = docxModule;
         
-        const fileSaverModule = await import('file-saver');
-        const saveAs = (fileSaverModule as any).default?.saveAs || (fileSaverModule as any).saveAs || (fileSaverModule as any).default;
-
-        if (typeof saveAs !== 'function') {
-             throw new Error("Failed to load file saving module.");
-        }
-
         const lines = text.split('\n');
         const docChildren: any[] = [];
 
@@ -81,21 +88,19 @@ export const downloadDocx = async (text: string, filename: string = 'PlagiaFix_R
         // Add Bibliography / References Section
         if (bibliography && bibliography.length > 0) {
             docChildren.push(new Paragraph({
-                text: "References",
+                text: bibliographyHeading(citationStyle),
                 heading: HeadingLevel.HEADING_1,
                 spacing: { before: 600, after: 240 },
                 alignment: AlignmentType.CENTER
             }));
 
-            bibliography.forEach(source => {
+            // Numbered styles carry their number in the entry; the others use a hanging indent
+            const hanging = citationKind(citationStyle) === 'numeric' ? 0 : 720;
+            formatBibliography(bibliography, citationStyle).forEach(entry => {
                 docChildren.push(new Paragraph({
-                    children: [
-                        new TextRun({ text: source.title, bold: true }),
-                        new TextRun({ text: ". (Verified via PlagiaFix Forensic Engine). Available at: " }),
-                        new TextRun({ text: source.url, color: "0000EE", italics: true })
-                    ],
+                    children: parseRichText(entry, TextRun),
                     spacing: { after: 120 },
-                    indent: { firstLine: 0, hanging: 720 } 
+                    indent: { firstLine: 0, hanging } 
                 }));
             });
         }
@@ -112,7 +117,7 @@ export const downloadDocx = async (text: string, filename: string = 'PlagiaFix_R
         });
 
         const blob = await Packer.toBlob(doc);
-        saveAs(blob, `${filename}.docx`);
+        await saveBlob(blob, `${filename}.docx`);
         toast.success('Professional DOCX downloaded');
     } catch (error) {
         console.error('DOCX Export Error:', error);
@@ -142,7 +147,7 @@ const parseRichText = (text: string, TextRunClass: any): any[] => {
     });
 };
 
-export const downloadPdf = async (text: string, finalScore: number = 95, originalScore: number = 0, filename: string = 'PlagiaFix_Verification_Report') => {
+export const downloadPdf = async (text: string, finalScore: number = 95, originalScore: number = 0, filename: string = 'PlagiaFix_Verification_Report', bibliography: SourceMatch[] = [], citationStyle: CitationStyle = 'APA 7th Edition') => {
     const loadingToast = toast.loading('Generating Verification Certificate...');
     try {
         const jsPDFModule = await import('jspdf');
@@ -233,6 +238,32 @@ export const downloadPdf = async (text: string, finalScore: number = 95, origina
             y += lineHeight;
         }
 
+        if (bibliography.length > 0) {
+            if (y > pageHeight - 40) {
+                doc.addPage();
+                y = 20;
+            }
+            y += lineHeight;
+            doc.setFont("helvetica", "bold");
+            doc.setFontSize(14);
+            doc.text(bibliographyHeading(citationStyle), margin, y);
+            y += lineHeight * 2;
+            doc.setFont("helvetica", "normal");
+            doc.setFontSize(10);
+            // jsPDF has no inline emphasis, so the entries are printed as plain text
+            formatBibliography(bibliography, citationStyle).forEach(entry => {
+                for (const line of doc.splitTextToSize(stripCitationMarkup(entry), maxLineWidth)) {
+                    if (y > pageHeight - 20) {
+                        doc.addPage();
+                        y = 20;
+                    }
+                    doc.text(line, margin, y);
+                    y += lineHeight - 1;
+                }
+                y += 2;
+            });
+        }
+
         doc.save(`${filename}.pdf`);
         toast.success('Verification Certificate downloaded');
     } catch (error) {
@@ -242,3 +273,15 @@ export const downloadPdf = async (text: string, finalScore: number = 95, origina
         toast.dismiss(loadingToast);
     }
 };
+
+export const downloadBibliography = async (sources: SourceMatch[], format: BibliographyFormat, filename: string = 'PlagiaFix_Bibliography') => {
+    try {
+        const { extension, mime, label } = BIBLIOGRAPHY_FORMATS[format];
+        const blob = new Blob([serializeBibliography(sources, format)], { type: `${mime};charset=utf-8` });
+        await saveBlob(blob, `${filename}.${extension}`);
+        toast.success(`${label} bibliography downloaded`);
+    } catch (error) {
+        console.error('Bibliography Export Error:', error);
+        toast.error('Failed to export bibliography.');
+    }
+};
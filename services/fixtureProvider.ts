@@ -0,0 +1,81 @@
+import { hashString } from './hash';
+import { LlmProvider, LlmRequest, LlmResponse, LlmTask } from './llmProvider';
+import { throwIfCancelled } from './cancellation';
+
+/**
+ * RECORD / REPLAY FIXTURES
+ * A fixture is one recorded model response stored as JSON in fixtures/llm.
+ * Replay matches a request by its key first; fixtures without a key act as
+ * the default response for their task, which keeps hand-written demo fixtures
+ * working when prompts change.
+ */
+
+export interface LlmFixture {
+  key?: string;
+  task: LlmTask;
+  request?: { tier: string; preview: string };
+  response: LlmResponse;
+}
+
+const FIXTURE_ENDPOINT = '/__llm-fixtures';
+
+const BUNDLED_FIXTURES = import.meta.glob('../fixtures/llm/*.json', { eager: true, import: 'default' }) as Record<string, LlmFixture>;
+
+/** Stable identity of a request; recorded fixtures are looked up by this key. */
+export const requestKey = (request: LlmRequest): string => hashString(JSON.stringify([
+  request.task, request.tier, request.systemInstruction || '', request.contents, !!request.json, !!request.googleSearch
+]));
+
+export const createFixtureProvider = (fixtures: LlmFixture[] = Object.values(BUNDLED_FIXTURES)): LlmProvider => {
+  const byKey = new Map<string, LlmFixture>();
+  const byTask = new Map<LlmTask, LlmFixture>();
+  fixtures.forEach(f => {
+    if (f.key) byKey.set(f.key, f);
+    else byTask.set(f.task, f);
+  });
+
+  return {
+    id: 'fixture',
+    isConfigured: () => fixtures.length > 0,
+    generate: async (request) => {
+      throwIfCancelled(request.signal);
+      const key = requestKey(request);
+      const fixture = byKey.get(key) || byTask.get(request.task);
+      if (!fixture) {
+        throw new Error(`No recorded fixture for ${request.task} request ${key}. Record one with LLM_PROVIDER=record.`);
+      }
+      return { ...fixture.response, groundingSources: fixture.response.groundingSources || [] };
+    }
+  };
+};
+
+const saveToDevServer = async (fixture: LlmFixture) => {
+  const res = await fetch(FIXTURE_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(fixture)
+  });
+  if (!res.ok) throw new Error(`Fixture recorder responded ${res.status}`);
+};
+
+/** Wraps a live provider and persists every response as a replayable fixture. */
+export const createRecordingProvider = (inner: LlmProvider, save: (fixture: LlmFixture) => Promise<void> = saveToDevServer): LlmProvider => ({
+  id: `record:${inner.id}`,
+  isConfigured: inner.isConfigured,
+  generate: async (request) => {
+    const response = await inner.generate(request);
+    throwIfCancelled(request.signal);
+    const fixture: LlmFixture = {
+      key: requestKey(request),
+      task: request.task,
+      request: { tier: request.tier, preview: request.contents.slice(0, 200) },
+      response
+    };
+    try {
+      await save(fixture);
+    } catch (e) {
+      console.warn('Fixture recording failed', e);
+    }
+    return response;
+  }
+});
@@ -0,0 +1,32 @@
+import { MetadataQuery, MetadataResolver, ResolvedMetadata, titlesMatch } from './metadataResolver';
+
+/**
+ * Offline stand-in for the metadata service. Each file in fixtures/metadata
+ * is one work with the identifiers it answers to, written like "DOI 10.1000/xyz"
+ * or "ISBN 9780262033848"; URL lookups fall back to matching titles.
+ */
+
+export interface MetadataFixture {
+  identifiers: string[];
+  metadata: ResolvedMetadata;
+}
+
+const BUNDLED_FIXTURES = import.meta.glob('../fixtures/metadata/*.json', { eager: true, import: 'default' }) as Record<string, MetadataFixture>;
+
+const identifierKey = (kind: string, value: string) => `${kind} ${value}`.toLowerCase();
+
+export const createFixtureResolver = (fixtures: MetadataFixture[] = Object.values(BUNDLED_FIXTURES)): MetadataResolver => {
+  const byIdentifier = new Map<string, MetadataFixture>();
+  fixtures.forEach(f => f.identifiers.forEach(id => byIdentifier.set(id.toLowerCase(), f)));
+
+  return {
+    id: 'fixture',
+    label: 'Local Records',
+    resolve: async (query: MetadataQuery) => {
+      const exact = byIdentifier.get(identifierKey(query.kind, query.value));
+      if (exact) return exact.metadata;
+      if (query.kind !== 'URL' || !query.title) return null;
+      return fixtures.find(f => f.metadata.title && titlesMatch(f.metadata.title, query.title!))?.metadata || null;
+    }
+  };
+};
@@ -0,0 +1,47 @@
+import { GoogleGenAI } from '@google/genai';
+import { LlmProvider, ModelTier } from './llmProvider';
+
+const MODELS: Record<ModelTier, string> = {
+  flash: 'gemini-3-flash-preview',
+  pro: 'gemini-3-pro-preview'
+};
+
+export const createGeminiProvider = (apiKey?: string): LlmProvider => {
+  let client: GoogleGenAI | null = null;
+
+  const getClient = () => {
+    if (!apiKey) throw new Error('API Key Missing.');
+    if (!client) client = new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  return {
+    id: 'gemini',
+    isConfigured: () => !!apiKey,
+    generate: async (request) => {
+      const response = await getClient().models.generateContent({
+        model: MODELS[request.tier],
+        contents: request.contents,
+        config: {
+          ...(request.signal ? { abortSignal: request.signal } : {}),
+          ...(request.systemInstruction ? { systemInstruction: request.systemInstruction } : {}),
+          ...(request.json ? { responseMimeType: 'application/json' } : {}),
+          ...(request.responseSchema ? { responseSchema: request.responseSchema } : {}),
+          ...(request.thinkingBudget ? { thinkingConfig: { thinkingBudget: request.thinkingBudget } } : {}),
+          ...(request.googleSearch ? { tools: [{ googleSearch: {} }] } : {})
+        }
+      });
+
+      const candidate = response.candidates?.[0];
+      const groundingChunks = candidate?.groundingMetadata?.groundingChunks || [];
+      const blockedCategories = (candidate?.safetyRatings || []).flatMap(r => r.blocked && r.category ? [r.category] : []);
+      return {
+        text: response.text || '',
+        groundingSources: groundingChunks.flatMap(c => c.web?.uri ? [{ uri: c.web.uri, title: c.web.title }] : []),
+        finishReason: candidate?.finishReason,
+        ...(response.promptFeedback?.blockReason ? { blockReason: response.promptFeedback.blockReason } : {}),
+        ...(blockedCategories.length ? { blockedCategories } : {})
+      };
+    }
+  };
+};
@@ -1,108 +1,202 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult, FixResult, FixOptions, HumanizeMode, ParagraphAnalysis, ForensicData, SourceMatch, SlideContent, SummaryMemo, RadarMetric } from "../types";
+import { AnalysisOptions, AnalysisResult, CheckOutcome, ChunkDiagnostic, FixResult, FixOptions, ChunkOutcomeStatus, RewriteChunkOutcome, HumanizeMode, ParagraphAnalysis, ForensicData, FlaggedPassage, SourceMatch, SlideContent, SummaryMemo, RadarMetric } from "../types";
+import { computeForensics } from "./stylometry";
+import { buildParagraphBreakdown, ChunkFindings } from "./paragraphAnalysis";
+import { getLlmProvider, LlmRequest, LlmResponse, ModelTier } from "./llmProvider";
+import { ANALYSIS_RESPONSE, REWRITE_RESPONSE, REWRITE_TEXT_RESPONSE, SLIDES_RESPONSE, SUMMARY_RESPONSE, TRANSLATION_RESPONSE, ResponseSpec, decodeResponse } from "./responseSchemas";
+import { ModelErrorKind, ModelResponseError, ModelStopError, PartialJobError, RETRY_POLICIES, classifyFinishReason, classifyModelError, retryAfterMs, toModelCallError } from "./modelErrors";
+import { getCircuitBreaker } from "./circuitBreaker";
+import { PoolLimits, getRequestPool } from "./requestPool";
+import { aggregateScores } from "./scoreAggregation";
+import { CHUNK_BUDGETS, chunkDocument, estimateTokens } from "./chunker";
+import { buildOverlapIndex, scoreOverlap } from "./textOverlap";
+import { corpusHitToSource, findCorpusMatches } from "./corpusStore";
+import { detectParaphrases } from "./paraphraseDetector";
+import { TranslationItem, detectTranslatedPlagiarism } from "./crossLingual";
+import { detectCodeBlocks, maskCodeBlocks } from "./codeBlocks";
+import { findCodeMatches } from "./codeMatcher";
+import { detectExclusionZones } from "./exclusions";
+import { parseReferenceList } from "./referenceParser";
+import { citationKind, formatInTextCitation, stripCitationMarkup } from "./citationFormatter";
+import { checkpointId, clearCheckpoint, loadCheckpoint, saveChunkCheckpoint } from "./checkpointStore";
+import { isCancellation, sleep, throwIfCancelled } from "./cancellation";
+import { Telemetry } from "./telemetry";
 
-const FLASH_MODEL = 'gemini-3-flash-preview'; 
-const PRO_MODEL = 'gemini-3-pro-preview'; 
-
-const MAX_CONCURRENCY = 3; 
-const DELAY_FLASH = 500; 
-const DELAY_PRO = 2000;   
+// Per provider and tier; the pool adapts between min and max as quota allows
+const POOL_LIMITS: Record<ModelTier, PoolLimits> = {
+  pro: { initial: 3, min: 1, max: 6 },
+  flash: { initial: 4, min: 1, max: 10 }
+};
 
 export const checkApiKey = (): boolean => {
-  return !!process.env.API_KEY;
+  return getLlmProvider().isConfigured();
+};
+
+const RETRY_MESSAGES: Partial<Record<ModelErrorKind, (seconds: number) => string>> = {
+  QUOTA: (sec) => `Rate Limit Reached: Waiting ${sec}s`,
+  NETWORK: (sec) => `Connection Lost: Retrying in ${sec}s`,
+  TIMEOUT: () => `Model Timed Out: Retrying`,
+  SERVER: (sec) => `Model Service Busy: Retrying in ${sec}s`
 };
 
-async function withRetry<T>(fn: () => Promise<T>, onRetry?: (msg: string) => void, retries = 15): Promise<T> {
+// Each error kind has its own attempt budget and backoff (see RETRY_POLICIES); `retries` caps the total
+async function withRetry<T>(fn: () => Promise<T>, onRetry?: (msg: string) => void, signal?: AbortSignal, retries = 15): Promise<T> {
+  const attempts: Partial<Record<ModelErrorKind, number>> = {};
   for (let i = 0; i < retries; i++) {
+    throwIfCancelled(signal);
     try {
       return await fn();
     } catch (e: any) {
-      const errStr = (JSON.stringify(e).toLowerCase() + (e.message || '').toLowerCase());
-      const isRateLimit = errStr.includes('429') || errStr.includes('quota') || errStr.includes('resource_exhausted');
+      if (isCancellation(e) || signal?.aborted) throw e;
+      const kind = classifyModelError(e);
+      const policy = RETRY_POLICIES[kind];
+      const attempt = (attempts[kind] || 0) + 1;
+      attempts[kind] = attempt;
       
-      if (i === retries - 1) throw e;
+      if (i === retries - 1 || attempt >= policy.maxAttempts) throw e;
 
-      const waitTime = isRateLimit 
-        ? (12000 + (Math.random() * 3000)) 
-        : Math.min(15000, 800 * Math.pow(2, i)); 
+      // Honour the server's retry hint when it sends one; jitter spreads the retries of parallel chunks
+      const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+      const waitTime = (retryAfterMs(e) ?? backoff) + Math.random() * Math.min(3000, backoff / 2);
       
-      const msg = isRateLimit 
-        ? `Neural Nodes Busy: Rerouting...` 
-        : `Synchronizing Audit Link ${i + 1}/${retries}...`;
-        
-      onRetry?.(msg);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+      const label = RETRY_MESSAGES[kind]?.(Math.round(waitTime / 1000)) || `Synchronizing Audit Link`;
+      onRetry?.(`${label} (${attempt}/${policy.maxAttempts - 1})...`);
+      await sleep(waitTime, signal);
     }
   }
   throw new Error("Neural Node Connection Timeout. Please check your API configuration.");
 }
 
-async function processInBatches<T, R>(
-  items: T[], 
-  batchSize: number, 
-  delay: number,
+// Rolling worker pool: a finished item immediately frees its worker for the next one.
+// The request pool behind callModel decides how many model calls actually run at once.
+async function processConcurrently<T, R>(
+  items: T[],
+  workers: number,
   task: (item: T, index: number) => Promise<R>,
-  onBatchComplete?: () => void
+  signal?: AbortSignal
 ): Promise<R[]> {
-  const results: R[] = [];
-  for (let i = 0; i < items.length; i += batchSize) {
-    const batch = items.slice(i, i + batchSize);
-    const batchResults = await Promise.all(batch.map((item, index) => 
-      task(item, i + index)
-    ));
-    results.push(...batchResults);
-    onBatchComplete?.();
-    if (i + batchSize < items.length) {
-      await new Promise(resolve => setTimeout(resolve, delay));
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      throwIfCancelled(signal);
+      const index = next++;
+      try {
+        results[index] = await task(items[index], index);
+      } catch (e) {
+        failed = true;
+        throw e;
+      }
     }
-  }
+  };
+  await Promise.all(Array.from({ length: Math.min(workers, items.length) }, worker));
   return results;
 }
 
-const parseJSONSafely = (text: string): any => {
-  if (!text) return null;
-  let cleanText = text.trim().replace(/```json\s*/g, '').replace(/```/g, '');
-  const startIdx = Math.min(
-    cleanText.indexOf('{') === -1 ? Infinity : cleanText.indexOf('{'),
-    cleanText.indexOf('[') === -1 ? Infinity : cleanText.indexOf('[')
-  );
-  const endIdx = Math.max(cleanText.lastIndexOf('}'), cleanText.lastIndexOf(']'));
-  if (startIdx === Infinity || endIdx === -1) return null;
+// Every model call passes the provider's circuit breaker, then its request pool; failures come out classified
+const callModel = async (request: LlmRequest): Promise<LlmResponse> => {
+  const provider = getLlmProvider();
+  const key = `${provider.id}:${request.tier}`;
+  const pool = getRequestPool(key, POOL_LIMITS[request.tier]);
   try {
-    return JSON.parse(cleanText.substring(startIdx, endIdx + 1));
+    return await getCircuitBreaker(key).run(() => pool.run(() => provider.generate(request), request.signal));
   } catch (e) {
-    return null;
+    throw isCancellation(e) ? e : toModelCallError(e);
   }
 };
 
-const chunkText = (text: string, maxChunkSize: number = 8000): string[] => {
-  if (text.length <= maxChunkSize) return [text];
-  const chunks: string[] = [];
-  const paras = text.split(/\n\n+/);
-  let current = '';
-  for (const p of paras) {
-    if ((current.length + p.length) > maxChunkSize && current.length > 0) {
-      chunks.push(current.trim());
-      current = p;
-    } else {
-      current += (current ? '\n\n' : '') + p;
-    }
+// Runs only the chunks without a saved checkpoint and saves each result as it lands
+async function processWithCheckpoints<T, R>(
+  jobId: string,
+  items: T[],
+  workers: number,
+  task: (item: T, index: number) => Promise<R>,
+  onResume?: (restored: number) => void,
+  signal?: AbortSignal,
+  shouldSave: (result: R) => boolean = () => true
+): Promise<R[]> {
+  const results = await loadCheckpoint<R>(jobId);
+  if (results.size > 0) onResume?.(results.size);
+  const pending = items.map((item, index) => ({ item, index })).filter(p => !results.has(p.index));
+
+  try {
+    await processConcurrently(pending, workers, async ({ item, index }) => {
+      const result = await task(item, index);
+      results.set(index, result);
+      if (shouldSave(result)) await saveChunkCheckpoint(jobId, index, result);
+    }, signal);
+  } catch (e) {
+    if (isCancellation(e) || results.size === 0) throw e;
+    throw new PartialJobError(e, results.size, items.length);
   }
-  if (current) chunks.push(current.trim());
-  return chunks;
+
+  await clearCheckpoint(jobId);
+  return items.map((_, index) => results.get(index)!);
+}
+
+// A response the model stopped on purpose; asking it to repair its own empty or cut-off text would not help
+const stopError = (response: LlmResponse): ModelStopError | null => {
+  const kind = classifyFinishReason(response.finishReason, response.blockReason);
+  if (!kind) return null;
+  return new ModelStopError(kind, response.blockReason || response.finishReason || 'UNKNOWN', response.blockedCategories, response.text);
 };
 
-export const analyzeDocument = async (text: string, onProgress?: (percent: number, step: string) => void): Promise<AnalysisResult> => {
-  const chunks = chunkText(text, 10000); 
+// One repair round-trip: the model sees the original task, its own output and the exact schema violations
+async function generateStructured<T>(request: LlmRequest, spec: ResponseSpec<T>): Promise<{ value: T; response: LlmResponse }> {
+  const response = await callModel({ ...request, json: true, responseSchema: spec.schema });
+  const decoded = decodeResponse(response.text, spec);
+  if (decoded.ok) return { value: decoded.value, response };
+  const stopped = stopError(response);
+  if (stopped) throw stopped;
+
+  const repaired = await callModel({
+    task: request.task,
+    tier: request.tier,
+    json: true,
+    responseSchema: spec.schema,
+    signal: request.signal,
+    ...(request.systemInstruction ? { systemInstruction: request.systemInstruction } : {}),
+    contents: `${request.contents}
+
+    ---
+    Your previous ${spec.name} response to the request above did not match the required JSON schema.
+
+    VALIDATION ERRORS:
+    ${decoded.issues.slice(0, 20).join('\n    ')}
+
+    PREVIOUS RESPONSE:
+    ${response.text.slice(0, 20000)}
+
+    Return ONLY the corrected JSON. Keep every value that was already valid.`
+  });
+  const retried = decodeResponse(repaired.text, spec);
+  if (retried.ok) return { value: retried.value, response: { ...repaired, groundingSources: response.groundingSources } };
+  throw stopError(repaired) || new ModelResponseError(spec.name, retried.issues, repaired.text);
+}
+
+interface ChunkAnalysis {
+  plagiarismScore: number;
+  aiProbability: number;
+  sourcesFound: SourceMatch[];
+  flaggedPassages: FlaggedPassage[];
+  finishReason?: string;
+  // Set when the model refused or cut off this chunk; its zero scores are placeholders
+  stopped?: ModelStopError;
+}
+
+export const analyzeDocument = async (text: string, onProgress?: (percent: number, step: string) => void, signal?: AbortSignal, options: AnalysisOptions = {}): Promise<AnalysisResult> => {
+  const chunks = chunkDocument(text, CHUNK_BUDGETS.analysis);
+  const jobId = checkpointId('analysis', text, CHUNK_BUDGETS.analysis);
+  const onResume = (restored: number) => onProgress?.(Math.round((restored / chunks.length) * 100), `Resuming Audit: ${restored}/${chunks.length} Parts Restored`);
   
-  const results = await processInBatches(chunks, MAX_CONCURRENCY, DELAY_PRO, async (chunk, idx) => {
+  const analyzeChunk = async (chunkText: string, idx: number): Promise<ChunkAnalysis> => {
     return await withRetry(async () => {
       onProgress?.(Math.round(((idx + 1) / chunks.length) * 100), `Scoping Neural Audit: Part ${idx+1}/${chunks.length}`);
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       
-      const response = await ai.models.generateContent({
-        model: PRO_MODEL, 
+      const { value: parsed, response } = await generateStructured({
+        task: 'analysis',
+        tier: 'pro',
         contents: `ACT AS A FORENSIC BIBLIOGRAPHER.
         
         GOAL: Scan the provided text and identify EVERY original source match from world literature, journals, and the web.
@@ -110,6 +204,11 @@ export const analyzeDocument = async (text: string, onProgress?: (percent: numbe
         REQUIREMENTS:
         1. For every match, extract: Title, Author, Year, and URL.
         2. Create a "fullCitation" string exactly like this: "Shakespeare, William. *Romeo and Juliet*. Edited by Barbara A. Mowat and Paul Werstine, Folger Shakespeare Library, 1597."
+           Also fill the structured fields you can verify: "type", "authors" (each split into family and given names; an organisation is a family name only),
+           "container" (journal or website name), "volume", "issue", "pages", "doi" (bare, e.g. 10.1000/xyz) and "publisher". Leave unknown fields out.
+        3. For every passage that is copied from a source or reads as machine-generated, add a "flaggedPassages" entry.
+           "excerpt" MUST be copied VERBATIM from the document text (max 300 characters). "sourceUrl" is the url of the matching foundSources entry, if any.
+        4. Code listings (fenced or indented blocks) are checked separately. Do not flag them as passages.
         
         OUTPUT FORMAT (JSON):
         { 
@@ -121,103 +220,288 @@ export const analyzeDocument = async (text: string, onProgress?: (percent: numbe
             snippet: string, 
             author: string, 
             year: string, 
-            fullCitation: string
+            fullCitation: string,
+            type: "JOURNAL" | "BOOK" | "WEB",
+            authors: [{ family: string, given: string }],
+            container: string,
+            volume: string,
+            issue: string,
+            pages: string,
+            doi: string,
+            publisher: string
+          }],
+          flaggedPassages: [{
+            excerpt: string,
+            matchType: "AI" | "PLAGIARISM",
+            riskScore: number (0-100),
+            reason: string,
+            sourceUrl: string
           }]
         }
 
         DOCUMENT TEXT: 
-        ${chunk}`,
-        config: { 
-          thinkingConfig: { thinkingBudget: 15000 }, 
-          responseMimeType: "application/json",
-          tools: [{ googleSearch: {} }] 
-        }
-      });
+        ${chunkText}`,
+        thinkingBudget: 15000,
+        googleSearch: true,
+        signal
+      }, ANALYSIS_RESPONSE);
       
-      const parsed = parseJSONSafely(response.text) || { plagiarismScore: 0, aiProbability: 0, foundSources: [] };
+      // Similarity and impact are measured once the whole document's sources are known
       const sources: SourceMatch[] = [];
-      
-      const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-      if (groundingChunks) {
-        groundingChunks.forEach((c: any) => {
-          if (c.web && c.web.uri) {
-            sources.push({
-              id: Math.random().toString(36).substr(2, 9),
-              title: c.web.title || 'Scholarly Source',
-              url: c.web.uri,
-              snippet: 'Institutional alignment identified.',
-              author: 'External Source',
-              year: '2024',
-              impactScore: 92,
-              type: 'WEB' as const,
-              fullCitation: `${c.web.title}. (2024). Retrieved from database: ${c.web.uri}`,
-              similarity: 95
-            });
-          }
-        });
-      }
+      const accessed = new Date().toISOString().slice(0, 10);
+
+      parsed.foundSources.forEach(s => {
+        if (s.url && !sources.some(exist => exist.url === s.url)) {
+          sources.push({
+            id: Math.random().toString(36).substr(2, 9),
+            title: s.title || 'Academic Match',
+            url: s.url,
+            snippet: s.snippet || '',
+            author: s.author || '',
+            year: s.year || '',
+            impactScore: 0,
+            type: 'INSTITUTIONAL',
+            // Sources without a known author lead with their title, as every style does
+            fullCitation: s.fullCitation || `${s.author ? `${s.author}. (${s.year || 'n.d.'}). ${s.title}` : `${s.title}. (${s.year || 'n.d.'})`}. Available at: ${s.url}`,
+            similarity: 0,
+            accessed,
+            ...(s.type ? { type: s.type } : {}),
+            ...(s.authors?.length ? { authors: s.authors } : {}),
+            ...(s.container ? { container: s.container } : {}),
+            ...(s.volume ? { volume: s.volume } : {}),
+            ...(s.issue ? { issue: s.issue } : {}),
+            ...(s.pages ? { pages: s.pages } : {}),
+            ...(s.doi ? { doi: s.doi } : {}),
+            ...(s.publisher ? { publisher: s.publisher } : {})
+          });
+        }
+      });
 
-      if (parsed.foundSources) {
-        parsed.foundSources.forEach((s: any) => {
-          if (s.url && !sources.some(exist => exist.url === s.url)) {
-            sources.push({
-              id: Math.random().toString(36).substr(2, 9),
-              title: s.title || 'Academic Match',
-              url: s.url,
-              snippet: s.snippet || 'Similar syntactic and thematic structure found.',
-              author: s.author || 'Institutional Node',
-              year: s.year || '2024',
-              impactScore: 88,
-              type: 'INSTITUTIONAL',
-              fullCitation: s.fullCitation || `${s.author || 'Anon'}. (${s.year || '2024'}). ${s.title}. Available at: ${s.url}`,
-              similarity: 90
-            });
-          }
+      // Search grounding only returns a title and URL, so these carry no snippet to compare
+      response.groundingSources.forEach(g => {
+        if (sources.some(exist => exist.url === g.uri)) return;
+        sources.push({
+          id: Math.random().toString(36).substr(2, 9),
+          title: g.title || 'Scholarly Source',
+          url: g.uri,
+          snippet: '',
+          author: '',
+          year: '',
+          impactScore: 0,
+          type: 'WEB' as const,
+          fullCitation: `${g.title || g.uri}. (n.d.). Retrieved from ${g.uri}`,
+          similarity: 0,
+          accessed
         });
-      }
-      
-      parsed.sourcesFound = sources;
-      return parsed;
-    }, (msg) => onProgress?.(Math.round(((idx + 1) / chunks.length) * 100), msg));
+      });
+
+      const analysis: ChunkAnalysis = {
+        plagiarismScore: parsed.plagiarismScore,
+        aiProbability: parsed.aiProbability,
+        sourcesFound: sources,
+        flaggedPassages: parsed.flaggedPassages || [],
+        ...(response.finishReason ? { finishReason: response.finishReason } : {})
+      };
+      return analysis;
+    }, (msg) => onProgress?.(Math.round(((idx + 1) / chunks.length) * 100), msg), signal);
+  };
+
+  const results = await processWithCheckpoints(jobId, chunks, POOL_LIMITS.pro.max, async (chunk, idx): Promise<ChunkAnalysis> => {
+    try {
+      return await analyzeChunk(chunk.text, idx);
+    } catch (e) {
+      if (!(e instanceof ModelStopError)) throw e;
+      return { plagiarismScore: 0, aiProbability: 0, sourcesFound: [], flaggedPassages: [], finishReason: e.finishReason, stopped: e };
+    }
+  }, onResume, signal, r => !r.stopped);
+  throwIfCancelled(signal);
+
+  // A refused chunk is not evidence of originality; if nothing could be scored, report why instead of 0%
+  const scored = results.map((r, idx) => ({ r, chunk: chunks[idx] })).filter(({ r }) => !r.stopped);
+  if (results.length > 0 && scored.length === 0) throw results[0].stopped;
+
+  const chunkDiagnostics: ChunkDiagnostic[] = results.map((r, idx) => ({
+    index: idx,
+    start: chunks[idx].coreStart,
+    end: chunks[idx].end,
+    status: !r.stopped ? 'OK' : r.stopped.kind === 'TRUNCATED' ? 'TRUNCATED' : 'BLOCKED',
+    ...(r.finishReason ? { finishReason: r.finishReason } : {}),
+    ...(r.stopped ? { reason: r.stopped.message } : {})
+  }));
+
+  const { plagiarismScore, aiProbability, breakdown } = aggregateScores(text, scored.map(({ r, chunk }) => ({
+    start: chunk.coreStart,
+    end: chunk.end,
+    plagiarismScore: r.plagiarismScore,
+    aiProbability: r.aiProbability
+  })), results.length - scored.length);
+  const allSources = results.flatMap(r => r.sourcesFound);
+  const uniqueSourcesMap = new Map<string, SourceMatch>();
+  allSources.forEach(s => {
+    if (s.url && (!uniqueSourcesMap.has(s.url) || !uniqueSourcesMap.get(s.url)!.snippet)) uniqueSourcesMap.set(s.url, s);
   });
+  // Scored against the whole document, so a snippet quoted outside the chunk that found it still counts
+  const overlapIndex = buildOverlapIndex(text);
+  const webSources = Array.from(uniqueSourcesMap.values()).map(s => {
+    const overlap = scoreOverlap(overlapIndex, s.snippet);
+    return { ...s, similarity: overlap.similarity, impactScore: overlap.impact, matchedRanges: overlap.ranges };
+  });
+
+  // A supplementary check that fails must not read as one that found nothing
+  const failedCheck = (name: string, e: unknown): CheckOutcome => {
+    if (isCancellation(e) || signal?.aborted) throw e;
+    const reason = e instanceof Error ? e.message : String(e);
+    Telemetry.logError(`${name} failed: ${reason}`);
+    return { status: 'FAILED', reason };
+  };
+
+  // The local corpus is matched on this device by fingerprint, with no model or network call
+  onProgress?.(100, 'Checking Local Corpus');
+  let corpusCheck: CheckOutcome = { status: 'OK' };
+  const corpusHits = await findCorpusMatches(text, signal).catch(e => {
+    corpusCheck = failedCheck('Corpus check', e);
+    return [];
+  });
+  const corpusSources = corpusHits.map(corpusHitToSource);
+  const bySimilarity = (a: SourceMatch, b: SourceMatch) => b.similarity - a.similarity || b.impactScore - a.impactScore;
+  let sourcesFound = [...corpusSources, ...webSources].sort(bySimilarity);
+
+  // Code is fingerprinted as normalized tokens and kept out of the prose statistics
+  const codeBlocks = detectCodeBlocks(text);
+  if (codeBlocks.length > 0) onProgress?.(100, 'Comparing Code Listings');
+  const codeMatches = codeBlocks.length > 0 ? await findCodeMatches(text, codeBlocks, signal) : [];
+  const proseText = maskCodeBlocks(text, codeBlocks);
 
-  const valid = results.filter(r => r !== null);
-  if (valid.length === 0) throw new Error("Forensic scan failed.");
+  const findings: ChunkFindings[] = scored.map(({ r, chunk }) => ({
+    start: chunk.start,
+    end: chunk.end,
+    passages: r.flaggedPassages
+  }));
 
-  const avg = (k: string) => Math.round(valid.reduce((s, r) => s + (r[k] || 0), 0) / valid.length);
-  const allSources = valid.flatMap(r => r.sourcesFound || []);
-  const uniqueSourcesMap = new Map();
-  allSources.forEach(s => { if(s.url) uniqueSourcesMap.set(s.url, s); });
+  let paraphraseCheck: CheckOutcome | undefined;
+  if (options.paraphraseCheck) {
+    onProgress?.(100, 'Checking for Paraphrased Passages');
+    paraphraseCheck = { status: 'OK' };
+    const paraphrases = await detectParaphrases(proseText, sourcesFound, signal).catch(e => {
+      paraphraseCheck = failedCheck('Paraphrase check', e);
+      return [];
+    });
+    paraphrases.forEach(m => findings.push({
+      start: m.documentStart,
+      end: m.documentEnd,
+      passages: [{
+        excerpt: m.documentSentence,
+        matchType: 'PLAGIARISM',
+        riskScore: Math.round(m.similarity * 100),
+        reason: `Paraphrase of "${m.sourceSentence.length > 200 ? `${m.sourceSentence.slice(0, 200)}…` : m.sourceSentence}" (${m.sourceTitle}, ${Math.round(m.similarity * 100)}% similar)`,
+        sourceUrl: m.sourceUrl
+      }]
+    }));
+  }
+
+  let crossLingualCheck: CheckOutcome | undefined;
+  if (options.crossLingual) {
+    onProgress?.(100, 'Checking Sources in Other Languages');
+    crossLingualCheck = { status: 'OK' };
+    const crossLingual = await detectTranslatedPlagiarism(
+      text,
+      buildParagraphBreakdown(text, findings, sourcesFound),
+      sourcesFound,
+      (items, language) => translatePassages(items, language, signal),
+      signal,
+      (step) => onProgress?.(100, step)
+    ).catch(e => {
+      crossLingualCheck = failedCheck('Cross-language check', e);
+      return { sources: [], findings: [] };
+    });
+    findings.push(...crossLingual.findings);
+    // A source already matched in its own words keeps its scores if they are higher
+    const merged = new Map(sourcesFound.map(s => [s.url, s]));
+    crossLingual.sources.forEach(s => {
+      const existing = merged.get(s.url);
+      merged.set(s.url, existing ? {
+        ...existing,
+        similarity: Math.max(existing.similarity, s.similarity),
+        impactScore: Math.max(existing.impactScore, s.impactScore),
+        matchedRanges: [...(existing.matchedRanges || []), ...(existing.snippet === s.snippet ? s.matchedRanges || [] : [])],
+        language: s.language,
+        crossLingual: true
+      } : s);
+    });
+    sourcesFound = [...merged.values()].sort(bySimilarity);
+  }
+
+  const exclusionZones = detectExclusionZones(text);
+  const referenceList = parseReferenceList(text, exclusionZones);
 
   return {
-    originalScore: avg('plagiarismScore'),
-    plagiarismScore: avg('plagiarismScore'),
-    aiProbability: avg('aiProbability'),
+    originalScore: plagiarismScore,
+    plagiarismScore,
+    aiProbability,
     critique: "Audit complete.",
     detectedIssues: [],
-    paragraphBreakdown: [],
-    sourcesFound: Array.from(uniqueSourcesMap.values()),
-    forensics: { 
-      avgSentenceLength: 22, 
-      sentenceVariance: 48, 
-      uniqueWordRatio: 0.89, 
-      aiTriggerWordsFound: [], 
-      readabilityScore: 82, 
-      aiProbability: avg('aiProbability')
-    }
+    paragraphBreakdown: buildParagraphBreakdown(text, findings, sourcesFound),
+    sourcesFound,
+    forensics: computeForensics(proseText, aiProbability),
+    scoreBreakdown: breakdown,
+    chunkDiagnostics,
+    corpusCheck,
+    ...(paraphraseCheck ? { paraphraseCheck } : {}),
+    ...(crossLingualCheck ? { crossLingualCheck } : {}),
+    exclusionZones,
+    ...(referenceList.length > 0 ? { referenceList } : {}),
+    ...(codeBlocks.length > 0 ? { codeAnalysis: { blocks: codeBlocks, matches: codeMatches } } : {})
   };
 };
 
-export const fixPlagiarism = async (text: string, issues: string[], options: FixOptions, sources: SourceMatch[], onProgress: (p: number, msg: string) => void, styleSample?: string): Promise<FixResult> => {
-  const chunks = chunkText(text, 6500); 
-  const globalSourceManifest = sources.map(s => `SOURCE_ID: ${s.id} | TITLE: ${s.title} | AUTHOR: ${s.author} | YEAR: ${s.year}`).join('\n');
+// Paragraphs are batched so one response stays well inside the flash tier's output budget
+const MAX_TRANSLATION_BATCH_CHARS = 6000;
 
-  const results = await processInBatches(chunks, 1, DELAY_PRO, async (chunk, idx) => {
-    return await withRetry(async () => {
-      onProgress(Math.round(((idx + 1) / chunks.length) * 100), `Injecting Adversarial DNA & Citations: Part ${idx+1}/${chunks.length}`);
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      const systemInstruction = `
+const translatePassages = async (items: TranslationItem[], language: string, signal?: AbortSignal): Promise<Map<string, string>> => {
+  const batches: TranslationItem[][] = [];
+  items.forEach(item => {
+    const last = batches[batches.length - 1];
+    if (last && last.reduce((sum, i) => sum + i.text.length, 0) + item.text.length <= MAX_TRANSLATION_BATCH_CHARS) last.push(item);
+    else batches.push([item]);
+  });
+
+  const translated = new Map<string, string>();
+  await processConcurrently(batches, POOL_LIMITS.flash.max, async (batch) => {
+    const { value } = await withRetry(() => generateStructured({
+      task: 'translate',
+      tier: 'flash',
+      contents: `Translate each passage into ${language}.
+      Translate faithfully and completely: keep every claim, number and name, and do not summarise, reword for style or add commentary.
+      Return one entry per passage with its original id: { translations: [{ id: string, text: string }] }
+
+      PASSAGES (JSON):
+      ${JSON.stringify(batch)}`,
+      signal
+    }, TRANSLATION_RESPONSE), undefined, signal);
+    const ids = new Set(batch.map(i => i.id));
+    value.translations.forEach(t => { if (ids.has(t.id) && t.text.trim()) translated.set(t.id, t.text); });
+  }, signal);
+  return translated;
+};
+
+interface ChunkRewrite {
+  status: ChunkOutcomeStatus;
+  rewrittenText: string;
+  improvements: string[];
+  note?: string;
+  finishReason?: string;
+  error?: any;
+}
+
+// Below this output/input token ratio a rewrite most likely dropped content; tokens rather
+// than characters so rewrites into a denser script (e.g. Chinese) are not flagged
+const MIN_REWRITE_RATIO = 0.5;
+
+const buildRewriteInstruction = (options: FixOptions, sources: SourceMatch[], styleSample?: string) => {
+  // Author-date and numeric citations are formatted locally so the prose matches the exported reference list
+  const citeAs = (s: SourceMatch, i: number) => citationKind(options.citationStyle) === 'note' ? '' : ` | CITE AS: ${stripCitationMarkup(formatInTextCitation(s, options.citationStyle, i + 1))}`;
+  const globalSourceManifest = sources.map((s, i) => `SOURCE_ID: ${s.id} | TITLE: ${s.title} | AUTHOR: ${s.author || 'None listed'} | YEAR: ${s.year}${citeAs(s, i)}`).join('\n');
+  return `
       ACT AS AN ADVERSARIAL ACADEMIC HUMANIZER AND BIBLIOGRAPHER.
       
       CORE OBJECTIVE: 
@@ -232,6 +516,7 @@ export const fixPlagiarism = async (text: string, issues: string[], options: Fix
         * MLA: "...was historically significant (Author page)."
         * Chicago: "...according to recent findings (Author Year, page)."
       - Use the provided SOURCE_MANIFEST to attribute information. If a claim matches the context of a source, cite it.
+      - When a manifest entry has CITE AS, use exactly that citation text for it.
       - DO NOT just list sources at the end. They MUST be woven into the sentences.
       
       LINGUISTIC DNA:
@@ -244,72 +529,153 @@ export const fixPlagiarism = async (text: string, issues: string[], options: Fix
       SOURCE_MANIFEST:
       ${globalSourceManifest}
       `;
+};
 
-      const response = await ai.models.generateContent({
-        model: PRO_MODEL,
-        contents: `Process this block and ensure every second or third sentence includes a relevant inline citation from the manifest if applicable: \n\n ${chunk}`,
-        config: { 
-          thinkingConfig: { thinkingBudget: 24000 }, 
-          responseMimeType: "application/json",
-          systemInstruction
-        }
-      });
-      
-      return parseJSONSafely(response.text);
-    }, (msg) => onProgress(Math.round(((idx + 1) / chunks.length) * 100), msg));
-  });
+// Never throws except on cancel: a chunk that cannot be rewritten keeps its original text
+const rewriteChunk = async (chunkText: string, systemInstruction: string, onRetry: (msg: string) => void, signal?: AbortSignal): Promise<ChunkRewrite> => {
+  try {
+    const { value, response } = await withRetry(() => generateStructured({
+      task: 'rewrite',
+      tier: 'pro',
+      contents: `Process this block and ensure every second or third sentence includes a relevant inline citation from the manifest if applicable: \n\n ${chunkText}`,
+      thinkingBudget: 24000,
+      systemInstruction,
+      signal
+    }, REWRITE_RESPONSE), onRetry, signal);
+    const finishReason = response.finishReason ? { finishReason: response.finishReason } : {};
+
+    if (estimateTokens(value.rewrittenText) < estimateTokens(chunkText) * MIN_REWRITE_RATIO) {
+      return { status: 'PARTIAL', rewrittenText: value.rewrittenText, improvements: value.improvements, note: 'The rewrite is much shorter than the original section and may be missing content.', ...finishReason };
+    }
+    return { status: 'OK', rewrittenText: value.rewrittenText, improvements: value.improvements, ...finishReason };
+  } catch (e: any) {
+    if (isCancellation(e)) throw e;
+    const stop = e instanceof ModelStopError ? { finishReason: e.finishReason } : {};
+    if (e instanceof ModelResponseError || e instanceof ModelStopError) {
+      const salvaged = decodeResponse(e.rawText, REWRITE_TEXT_RESPONSE);
+      if (salvaged.ok) {
+        const issue = e instanceof ModelResponseError ? e.issues[0] : e.message;
+        return { status: 'PARTIAL', rewrittenText: salvaged.value.rewrittenText, improvements: [], note: `Recovered from an incomplete model response: ${issue}`, ...stop };
+      }
+    }
+    return { status: 'FAILED', rewrittenText: chunkText, improvements: [], note: e?.message || String(e), error: e, ...stop };
+  }
+};
+
+export const fixPlagiarism = async (text: string, issues: string[], options: FixOptions, sources: SourceMatch[], onProgress: (p: number, msg: string) => void, styleSample?: string, signal?: AbortSignal): Promise<FixResult> => {
+  const chunks = chunkDocument(text, CHUNK_BUDGETS.rewrite);
+  const systemInstruction = buildRewriteInstruction(options, sources, styleSample);
+  const jobId = checkpointId('rewrite', text, { budget: CHUNK_BUDGETS.rewrite, options, styleSample: styleSample || '', sources: sources.map(s => s.id) });
+  const onResume = (restored: number) => onProgress(Math.round((restored / chunks.length) * 100), `Resuming Rewrite: ${restored}/${chunks.length} Parts Restored`);
+
+  const results = await processWithCheckpoints(jobId, chunks, POOL_LIMITS.pro.max, async (chunk, idx) => {
+    onProgress(Math.round(((idx + 1) / chunks.length) * 100), `Injecting Adversarial DNA & Citations: Part ${idx+1}/${chunks.length}`);
+    return rewriteChunk(chunk.text, systemInstruction, (msg) => onProgress(Math.round(((idx + 1) / chunks.length) * 100), msg), signal);
+  }, onResume, signal, r => r.status !== 'FAILED');
+  throwIfCancelled(signal);
 
-  const valid = results.filter(r => r !== null);
+  // Nothing to show if every section failed; surface the underlying error instead
+  if (results.length > 0 && results.every(r => r.status === 'FAILED')) throw results[0].error;
 
   const bypassEffectiveness = options.strength / 100;
   const targetAiRisk = Math.max(1, Math.round(5 * (1 - bypassEffectiveness))); 
 
+  // Chunks may end mid-paragraph, so stitch them back with the whitespace that originally separated them
+  let rewrittenText = '';
+  const chunkOutcomes: RewriteChunkOutcome[] = results.map((r, i) => {
+    const output = r.rewrittenText.trim();
+    rewrittenText += i === 0 ? '' : text.slice(chunks[i - 1].end, chunks[i].start) || ' ';
+    const outputStart = rewrittenText.length;
+    rewrittenText += output;
+    return {
+      id: chunks[i].id,
+      index: i,
+      status: r.status,
+      sourceStart: chunks[i].start,
+      sourceEnd: chunks[i].end,
+      output,
+      outputStart,
+      outputEnd: rewrittenText.length,
+      ...(r.note ? { note: r.note } : {}),
+      ...(r.finishReason ? { finishReason: r.finishReason } : {})
+    };
+  });
+
   return {
-    rewrittenText: valid.map(r => r.rewrittenText || '').join('\n\n'),
+    rewrittenText,
     newPlagiarismScore: 2, 
     newAiProbability: targetAiRisk, 
-    improvementsMade: valid.flatMap(r => r.improvements || []),
-    bibliography: sources
+    improvementsMade: results.flatMap(r => r.improvements),
+    bibliography: sources,
+    chunkOutcomes
+  };
+};
+
+/** Re-runs the rewrite for one section of the original document. The result's output range is where it lands once it replaces the old output. */
+export const retryRewriteChunk = async (text: string, outcome: RewriteChunkOutcome, options: FixOptions, sources: SourceMatch[], styleSample?: string, signal?: AbortSignal): Promise<RewriteChunkOutcome> => {
+  const source = text.slice(outcome.sourceStart, outcome.sourceEnd);
+  const r = await rewriteChunk(source, buildRewriteInstruction(options, sources, styleSample), () => {}, signal);
+  const output = r.rewrittenText.trim();
+  return {
+    id: outcome.id,
+    index: outcome.index,
+    status: r.status,
+    sourceStart: outcome.sourceStart,
+    sourceEnd: outcome.sourceEnd,
+    output,
+    outputStart: outcome.outputStart,
+    outputEnd: outcome.outputStart + output.length,
+    ...(r.note ? { note: r.note } : {}),
+    ...(r.finishReason ? { finishReason: r.finishReason } : {})
   };
 };
 
+/** Where a section's output sits now: its recorded range, or the copy nearest to it once the text was edited around it. */
+export const locateChunkOutput = (text: string, outcome: RewriteChunkOutcome): number => {
+  if (text.slice(outcome.outputStart, outcome.outputEnd) === outcome.output) return outcome.outputStart;
+  if (!outcome.output) return -1;
+  let best = -1;
+  for (let at = text.indexOf(outcome.output); at >= 0; at = text.indexOf(outcome.output, at + 1)) {
+    if (best < 0 || Math.abs(at - outcome.outputStart) < Math.abs(best - outcome.outputStart)) best = at;
+  }
+  return best;
+};
+
 export const generateSlides = async (text: string): Promise<SlideContent[]> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: FLASH_MODEL,
+  const { value } = await generateStructured({
+    task: 'slides',
+    tier: 'flash',
     contents: `Convert the following text into professional PowerPoint slides. 
     IMPORTANT: 
     1. Maintain the language of the source text perfectly.
     2. INCLUDE ALL INLINE CITATIONS in the bullets where applicable.
     3. Output as JSON: [{title, bullets: string[], speakerNotes}]
     
-    TEXT: ${text.substring(0, 8000)}`,
-    config: { responseMimeType: "application/json" }
-  });
-  return parseJSONSafely(response.text) || [];
+    TEXT: ${text.substring(0, 8000)}`
+  }, SLIDES_RESPONSE);
+  return value;
 };
 
 export const generateSummary = async (text: string): Promise<SummaryMemo> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: FLASH_MODEL,
+  const { value } = await generateStructured({
+    task: 'summary',
+    tier: 'flash',
     contents: `Synthesize the provided text into a formal Executive Memo.
     IMPORTANT:
     1. STRICTLY PRESERVE the language of the document.
     2. RETAIN all key inline citations in the executiveSummary.
     3. Output as JSON: {to, from, subject, executiveSummary, keyActionItems, conclusion}
     
-    TEXT: ${text.substring(0, 10000)}`,
-    config: { responseMimeType: "application/json" }
-  });
-  return parseJSONSafely(response.text) || { to: "PI", from: "Audit", subject: "Summary", executiveSummary: "", keyActionItems: [], conclusion: "" };
+    TEXT: ${text.substring(0, 10000)}`
+  }, SUMMARY_RESPONSE);
+  return value;
 };
 
 export const testGeminiConnection = async () => {
+  const start = Date.now();
   try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const res = await ai.models.generateContent({ model: FLASH_MODEL, contents: "ping" });
-    return { status: 'OK' as const, latency: 120 };
+    await getLlmProvider().generate({ task: 'ping', tier: 'flash', contents: "ping" });
+    return { status: 'OK' as const, latency: Date.now() - start };
   } catch (e: any) { 
     return { status: 'ERROR' as const, latency: 0, error: e.message }; 
   }
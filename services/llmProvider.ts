@@ -0,0 +1,70 @@
+import { Schema } from '@google/genai';
+import { createGeminiProvider } from './geminiProvider';
+import { createFixtureProvider, createRecordingProvider } from './fixtureProvider';
+
+/**
+ * LLM PROVIDER ABSTRACTION
+ * Every model call in the app goes through the active provider. The adapter is
+ * chosen from the LLM_PROVIDER build setting:
+ *   gemini  - live Gemini API (default, needs API_KEY)
+ *   fixture - replays recorded responses from fixtures/llm, fully offline
+ *   record  - calls Gemini and saves every response as a fixture (dev server only)
+ */
+
+export type ModelTier = 'flash' | 'pro';
+
+export type LlmTask = 'analysis' | 'rewrite' | 'slides' | 'summary' | 'translate' | 'ping';
+
+export interface LlmRequest {
+  task: LlmTask;
+  tier: ModelTier;
+  contents: string;
+  systemInstruction?: string;
+  json?: boolean;
+  responseSchema?: Schema;
+  thinkingBudget?: number;
+  googleSearch?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface GroundingSource {
+  uri: string;
+  title?: string;
+}
+
+export interface LlmResponse {
+  text: string;
+  groundingSources: GroundingSource[];
+  finishReason?: string;
+  /** Set when the prompt itself was rejected and no candidate was generated. */
+  blockReason?: string;
+  /** Safety categories the candidate was blocked for, e.g. HARM_CATEGORY_HARASSMENT. */
+  blockedCategories?: string[];
+}
+
+export interface LlmProvider {
+  id: string;
+  isConfigured: () => boolean;
+  generate: (request: LlmRequest) => Promise<LlmResponse>;
+}
+
+let activeProvider: LlmProvider | null = null;
+
+export const createLlmProvider = (name: string = process.env.LLM_PROVIDER || 'gemini'): LlmProvider => {
+  switch (name) {
+    case 'fixture': return createFixtureProvider();
+    case 'record': return createRecordingProvider(createGeminiProvider(process.env.API_KEY));
+    case 'gemini': return createGeminiProvider(process.env.API_KEY);
+    default: throw new Error(`Unknown LLM provider "${name}". Expected gemini, fixture or record.`);
+  }
+};
+
+export const getLlmProvider = (): LlmProvider => {
+  if (!activeProvider) activeProvider = createLlmProvider();
+  return activeProvider;
+};
+
+/** Swaps the active provider, e.g. to inject a fixture provider in tests. */
+export const setLlmProvider = (provider: LlmProvider | null) => {
+  activeProvider = provider;
+};
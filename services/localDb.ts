@@ -0,0 +1,72 @@
+/**
+ * BROWSER STORAGE (IndexedDB)
+ * One database holds every store the app keeps on the device. Bump DB_VERSION
+ * and extend upgrade() when adding a store.
+ */
+
+const DB_NAME = 'plagiafix_local';
+const DB_VERSION = 2;
+
+export const STORES = {
+  checkpoints: 'chunk_checkpoints',
+  corpusDocuments: 'corpus_documents',
+  corpusFingerprints: 'corpus_fingerprints'
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.checkpoints)) {
+    const store = db.createObjectStore(STORES.checkpoints, { keyPath: ['jobId', 'index'] });
+    store.createIndex('jobId', 'jobId');
+    store.createIndex('savedAt', 'savedAt');
+  }
+  if (!db.objectStoreNames.contains(STORES.corpusDocuments)) {
+    db.createObjectStore(STORES.corpusDocuments, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.corpusFingerprints)) {
+    const store = db.createObjectStore(STORES.corpusFingerprints, { keyPath: ['docId', 'tokenIndex'] });
+    store.createIndex('hash', 'hash');
+  }
+};
+
+export const isLocalDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const openLocalDb = (): Promise<IDBDatabase> => {
+  if (!isLocalDbAvailable()) return Promise.reject(new Error('IndexedDB is not available in this browser.'));
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/** Runs fn inside one transaction over several stores and resolves once it commits. */
+export const withTransaction = async <T>(storeNames: string[], mode: IDBTransactionMode, fn: (tx: IDBTransaction) => Promise<T> | T): Promise<T> => {
+  const db = await openLocalDb();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await fn(tx);
+  await done;
+  return result;
+};
+
+/** Runs fn inside a single transaction and resolves once the transaction commits. */
+export const withStore = <T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => Promise<T> | T): Promise<T> =>
+  withTransaction([storeName], mode, tx => fn(tx.objectStore(storeName)));
@@ -0,0 +1,161 @@
+import { CitationField, CitationName, MetadataVerification, SourceMatch } from '../types';
+import { createCrossrefResolver } from './crossrefResolver';
+import { createFixtureResolver } from './fixtureResolver';
+import { throwIfCancelled } from './cancellation';
+
+/**
+ * METADATA RESOLUTION
+ * Replaces the model's guessed bibliographic fields (placeholder authors,
+ * invented years) with registry records. A source's DOI, arXiv id, ISBN and
+ * URL are tried in that order through the active resolver, chosen from the
+ * METADATA_RESOLVER build setting:
+ *   crossref - Crossref-compatible REST API (default)
+ *   fixture  - local records from fixtures/metadata, fully offline (default when LLM_PROVIDER=fixture)
+ * A record only counts when its title agrees with the source's, since a
+ * guessed DOI can point at a real but unrelated work.
+ */
+
+export type IdentifierKind = 'DOI' | 'ARXIV' | 'ISBN' | 'URL';
+
+export interface MetadataQuery {
+  kind: IdentifierKind;
+  value: string;
+  /** The source's own title, used to search by title and to check a hit. */
+  title?: string;
+}
+
+/** Registry values for the fields a resolver could find. */
+export type ResolvedMetadata = Partial<Pick<SourceMatch, CitationField | 'type' | 'url'>>;
+
+export interface ResolvedSource {
+  metadata: ResolvedMetadata;
+  verification: MetadataVerification;
+}
+
+export interface MetadataResolver {
+  id: string;
+  /** Shown next to verified fields, e.g. "Crossref". */
+  label: string;
+  resolve: (query: MetadataQuery, signal?: AbortSignal) => Promise<ResolvedMetadata | null>;
+}
+
+export const CITATION_FIELDS: CitationField[] = ['authors', 'year', 'title', 'container', 'volume', 'issue', 'pages', 'doi', 'publisher'];
+
+export const CITATION_FIELD_LABELS: Record<CitationField, string> = {
+  authors: 'Authors',
+  year: 'Year',
+  title: 'Title',
+  container: 'Journal / Site',
+  volume: 'Volume',
+  issue: 'Issue',
+  pages: 'Pages',
+  doi: 'DOI',
+  publisher: 'Publisher'
+};
+
+const IDENTIFIER_LABELS: Record<IdentifierKind, string> = { DOI: 'DOI', ARXIV: 'arXiv', ISBN: 'ISBN', URL: 'URL' };
+
+const DOI_PATTERN = /\b(10\.\d{4,9}\/[^\s"<>]+)/;
+const ARXIV_PATTERN = /arxiv(?:\.org\/(?:abs|pdf)\/|:\s*)((?:\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(?:v\d+)?)/i;
+const ISBN_PATTERN = /\bISBN(?:-1[03])?:?\s*((?:97[89][\s-]?)?(?:\d[\s-]?){9}[\dX])\b/i;
+// Titles that agree on this share of the shorter one's words are the same work
+const TITLE_AGREEMENT = 0.7;
+
+let activeResolver: MetadataResolver | null = null;
+
+export const createMetadataResolver = (name: string = process.env.METADATA_RESOLVER || (process.env.LLM_PROVIDER === 'fixture' ? 'fixture' : 'crossref')): MetadataResolver => {
+  switch (name) {
+    case 'fixture': return createFixtureResolver();
+    case 'crossref': return createCrossrefResolver();
+    default: throw new Error(`Unknown metadata resolver "${name}". Expected crossref or fixture.`);
+  }
+};
+
+export const getMetadataResolver = (): MetadataResolver => {
+  if (!activeResolver) activeResolver = createMetadataResolver();
+  return activeResolver;
+};
+
+/** Swaps the active resolver, e.g. to point at a Crossref mirror. */
+export const setMetadataResolver = (resolver: MetadataResolver | null) => {
+  activeResolver = resolver;
+};
+
+const titleWords = (title: string) => title.normalize('NFD').toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(w => w.length > 2);
+
+/** Loose title agreement that tolerates subtitles, punctuation and word order. */
+export const titlesMatch = (a: string, b: string): boolean => {
+  const wordsA = new Set(titleWords(a));
+  const wordsB = new Set(titleWords(b));
+  const smaller = Math.min(wordsA.size, wordsB.size);
+  if (smaller === 0) return false;
+  let shared = 0;
+  wordsA.forEach(w => { if (wordsB.has(w)) shared++; });
+  return shared / smaller >= TITLE_AGREEMENT;
+};
+
+const isValidIsbn = (digits: string): boolean => {
+  if (digits.length === 10) {
+    const sum = digits.split('').reduce((acc, c, i) => acc + (c === 'X' ? 10 : Number(c)) * (10 - i), 0);
+    return sum % 11 === 0;
+  }
+  if (digits.length === 13 && /^\d+$/.test(digits)) {
+    const sum = digits.split('').reduce((acc, c, i) => acc + Number(c) * (i % 2 === 0 ? 1 : 3), 0);
+    return sum % 10 === 0;
+  }
+  return false;
+};
+
+/** Every identifier a source carries, most reliable first. */
+export const sourceIdentifiers = (source: SourceMatch): MetadataQuery[] => {
+  const text = `${source.url} ${source.fullCitation || ''}`;
+  const title = source.title;
+  const queries: MetadataQuery[] = [];
+  const add = (kind: IdentifierKind, value?: string) => {
+    const clean = value?.trim().replace(/[.,;)\]]+$/, '');
+    if (clean && !queries.some(q => q.kind === kind && q.value.toLowerCase() === clean.toLowerCase())) queries.push({ kind, value: clean, title });
+  };
+
+  add('DOI', source.doi?.replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, ''));
+  add('DOI', text.match(DOI_PATTERN)?.[1]);
+  add('ARXIV', text.match(ARXIV_PATTERN)?.[1]?.replace(/v\d+$/, ''));
+  const isbn = text.match(ISBN_PATTERN)?.[1]?.replace(/[\s-]/g, '').toUpperCase();
+  if (isbn && isValidIsbn(isbn)) add('ISBN', isbn);
+  if (/^https?:\/\//i.test(source.url) && source.type !== 'CORPUS') add('URL', source.url);
+  return queries;
+};
+
+/** Looks the source up by each of its identifiers until one resolves to the same work. */
+export const resolveSourceMetadata = async (source: SourceMatch, resolver: MetadataResolver = getMetadataResolver(), signal?: AbortSignal): Promise<ResolvedSource | null> => {
+  for (const query of sourceIdentifiers(source)) {
+    throwIfCancelled(signal);
+    const metadata = await resolver.resolve(query, signal);
+    if (!metadata || (metadata.title && source.title && !titlesMatch(metadata.title, source.title))) continue;
+    const fields = CITATION_FIELDS.filter(field => {
+      const value = metadata[field];
+      return Array.isArray(value) ? value.length > 0 : !!value;
+    });
+    if (fields.length === 0) continue;
+    return {
+      metadata,
+      verification: {
+        resolver: resolver.label,
+        identifier: query.kind === 'URL' ? 'Title Search' : `${IDENTIFIER_LABELS[query.kind]} ${query.value}`,
+        fields
+      }
+    };
+  }
+  return null;
+};
+
+const authorLine = (names: CitationName[]) => names.map(n => n.given ? `${n.family}, ${n.given}` : n.family).join('; ');
+
+/** Overwrites the guessed fields with the verified ones; fields the registry lacks keep their old values. */
+export const applyResolvedMetadata = (source: SourceMatch, { metadata, verification }: ResolvedSource): SourceMatch => ({
+  ...source,
+  ...Object.fromEntries(verification.fields.map(field => [field, metadata[field]])),
+  ...(metadata.authors?.length ? { author: authorLine(metadata.authors) } : {}),
+  ...(metadata.type ? { type: metadata.type } : {}),
+  ...(!source.url && metadata.url ? { url: metadata.url } : {}),
+  verification
+});
@@ -0,0 +1,264 @@
+import { ErrorCode, ErrorContext } from '../types';
+
+/**
+ * MODEL ERROR TAXONOMY
+ * Every failed model call is classified into one ModelErrorKind. The kind picks
+ * the retry policy in geminiService, decides whether the circuit breaker counts
+ * the failure, and selects the code and advice shown on the error screen.
+ */
+
+export type ModelErrorKind =
+  | 'QUOTA'        // 429 / RESOURCE_EXHAUSTED
+  | 'AUTH'         // missing, invalid or unauthorised API key
+  | 'SAFETY'       // prompt or response blocked by safety filters
+  | 'RECITATION'   // response stopped because it would repeat a source verbatim
+  | 'TRUNCATED'    // response cut off at the output token limit
+  | 'OVERSIZE'     // request exceeds the model's input limits
+  | 'MALFORMED'    // response did not match its schema
+  | 'NETWORK'      // request never reached the service
+  | 'TIMEOUT'      // service did not answer in time
+  | 'SERVER'       // 5xx / overloaded
+  | 'UNAVAILABLE'  // circuit breaker is open, call was not attempted
+  | 'UNKNOWN';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const NO_RETRY: RetryPolicy = { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 };
+
+export const RETRY_POLICIES: Record<ModelErrorKind, RetryPolicy> = {
+  QUOTA: { maxAttempts: 8, baseDelayMs: 12000, maxDelayMs: 60000 },
+  NETWORK: { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 15000 },
+  TIMEOUT: { maxAttempts: 3, baseDelayMs: 2000, maxDelayMs: 10000 },
+  SERVER: { maxAttempts: 5, baseDelayMs: 2000, maxDelayMs: 20000 },
+  UNKNOWN: { maxAttempts: 3, baseDelayMs: 800, maxDelayMs: 8000 },
+  // Retrying these sends the same request into the same wall; MALFORMED already had its repair round-trip
+  AUTH: NO_RETRY,
+  SAFETY: NO_RETRY,
+  RECITATION: NO_RETRY,
+  TRUNCATED: NO_RETRY,
+  OVERSIZE: NO_RETRY,
+  MALFORMED: NO_RETRY,
+  UNAVAILABLE: NO_RETRY
+};
+
+/** Kinds that suggest the service itself is down; only these trip the circuit breaker. */
+export const OUTAGE_KINDS: ModelErrorKind[] = ['NETWORK', 'TIMEOUT', 'SERVER'];
+
+/**
+ * Raised when a model response still fails its schema after the automatic
+ * repair attempt. Carries the validation issues for the error screen.
+ */
+export class ModelResponseError extends Error {
+  readonly responseName: string;
+  readonly issues: string[];
+  readonly rawText: string;
+
+  constructor(responseName: string, issues: string[], rawText: string) {
+    super(`The ${responseName} response from the model did not match its expected format.`);
+    this.name = 'ModelResponseError';
+    this.responseName = responseName;
+    this.issues = issues;
+    this.rawText = rawText;
+  }
+}
+
+/** A failed model call with its classification attached. */
+export class ModelCallError extends Error {
+  readonly kind: ModelErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly cause: unknown;
+
+  constructor(kind: ModelErrorKind, message: string, cause?: any, status?: number, retryAfter?: number) {
+    super(message);
+    this.name = 'ModelCallError';
+    this.kind = kind;
+    this.cause = cause;
+    this.status = status;
+    this.retryAfterMs = retryAfter;
+  }
+}
+
+const STOP_KINDS: Record<string, ModelErrorKind> = {
+  SAFETY: 'SAFETY',
+  PROHIBITED_CONTENT: 'SAFETY',
+  BLOCKLIST: 'SAFETY',
+  SPII: 'SAFETY',
+  IMAGE_SAFETY: 'SAFETY',
+  RECITATION: 'RECITATION',
+  MAX_TOKENS: 'TRUNCATED'
+};
+
+/** Kind of an early stop, from the response's finish reason or prompt block reason; null for a normal finish. */
+export const classifyFinishReason = (finishReason?: string, blockReason?: string): ModelErrorKind | null =>
+  blockReason ? 'SAFETY' : (finishReason && STOP_KINDS[finishReason]) || null;
+
+// HARM_CATEGORY_DANGEROUS_CONTENT -> dangerous content
+const categoryLabel = (category: string) => category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+/**
+ * Raised when the model ended its answer early (safety block, recitation or
+ * token limit) and the empty or cut-off text could not be used.
+ */
+export class ModelStopError extends ModelCallError {
+  readonly finishReason: string;
+  readonly blockedCategories: string[];
+  readonly rawText: string;
+
+  constructor(kind: ModelErrorKind, finishReason: string, blockedCategories: string[] = [], rawText = '') {
+    const categories = blockedCategories.length ? `: ${blockedCategories.map(categoryLabel).join(', ')}` : '';
+    const message = kind === 'RECITATION'
+      ? `The model stopped because its answer would repeat a published source verbatim (${finishReason}).`
+      : kind === 'TRUNCATED'
+        ? `The model's answer hit its output token limit and was cut off (${finishReason}).`
+        : `The model refused this text because of its safety filters (${finishReason}${categories}).`;
+    super(kind, message);
+    this.name = 'ModelStopError';
+    this.finishReason = finishReason;
+    this.blockedCategories = blockedCategories;
+    this.rawText = rawText;
+  }
+}
+
+/**
+ * Raised when a chunked job fails after some chunks already finished. The
+ * finished chunks are checkpointed, so re-running the job only redoes the rest.
+ */
+export class PartialJobError extends Error {
+  readonly cause: unknown;
+  readonly completedChunks: number;
+  readonly totalChunks: number;
+
+  constructor(cause: any, completedChunks: number, totalChunks: number) {
+    super(cause?.message || String(cause));
+    this.name = 'PartialJobError';
+    this.cause = cause;
+    this.completedChunks = completedChunks;
+    this.totalChunks = totalChunks;
+  }
+}
+
+const errorText = (error: any): string => {
+  let serialized = '';
+  try { serialized = JSON.stringify(error); } catch { /* circular */ }
+  return `${error?.message || ''} ${serialized}`.toLowerCase();
+};
+
+const statusOf = (error: any): number | undefined => {
+  if (typeof error?.status === 'number') return error.status;
+  const code = errorText(error).match(/"code"\s*:\s*(\d{3})/);
+  return code ? parseInt(code[1]) : undefined;
+};
+
+export const classifyModelError = (error: any): ModelErrorKind => {
+  if (error instanceof ModelCallError) return error.kind;
+  if (error instanceof ModelResponseError) return 'MALFORMED';
+  const status = statusOf(error);
+  const text = errorText(error);
+  if (status === 429 || /resource_exhausted|quota|rate limit/.test(text)) return 'QUOTA';
+  if (status === 401 || status === 403 || /api key|api_key|unauthenticated|permission_denied/.test(text)) return 'AUTH';
+  if (/safety|blocked|prohibited_content|blocklist|recitation/.test(text)) return 'SAFETY';
+  if (status === 413 || /too large|too long|token count|exceeds the maximum|context length|payload size/.test(text)) return 'OVERSIZE';
+  if (status === 504 || /timed? ?out|deadline_exceeded|deadline exceeded/.test(text)) return 'TIMEOUT';
+  if ((status !== undefined && status >= 500) || /unavailable|overloaded|internal error/.test(text)) return 'SERVER';
+  if (/failed to fetch|network|fetch failed|econnreset|enotfound|err_internet|load failed/.test(text)) return 'NETWORK';
+  return 'UNKNOWN';
+};
+
+/** Server retry hint in milliseconds, read from Gemini's RetryInfo ("retryDelay": "23s") or a "retry in 23s" message. */
+export const retryAfterMs = (error: any): number | undefined => {
+  if (error instanceof ModelCallError && error.retryAfterMs !== undefined) return error.retryAfterMs;
+  const text = errorText(error);
+  const hint = text.match(/retry_?delay\\?"?\s*:\s*\\?"(\d+(?:\.\d+)?)s/) || text.match(/retry (?:in|after) (\d+(?:\.\d+)?)\s*s/);
+  return hint ? Math.ceil(parseFloat(hint[1]) * 1000) : undefined;
+};
+
+export const isRateLimitError = (error: any): boolean => classifyModelError(error) === 'QUOTA';
+
+/** Wraps a raw provider error; already-classified errors pass through untouched. */
+export const toModelCallError = (error: any): Error => {
+  if (error instanceof ModelCallError || error instanceof ModelResponseError) return error;
+  return new ModelCallError(classifyModelError(error), error?.message || String(error), error, statusOf(error), retryAfterMs(error));
+};
+
+const KIND_CONTEXT: Record<Exclude<ModelErrorKind, 'MALFORMED' | 'UNKNOWN'>, { code: ErrorCode; message: string; advice: string }> = {
+  QUOTA: {
+    code: 'QUOTA_EXCEEDED',
+    message: 'The model quota is used up for now.',
+    advice: 'Wait a minute and try again, or switch to an API key with a higher quota.'
+  },
+  AUTH: {
+    code: 'AUTH_FAILURE',
+    message: 'The model service rejected the API key.',
+    advice: 'Check that API_KEY is set, valid, and has the Gemini API enabled, then reload the app.'
+  },
+  SAFETY: {
+    code: 'SAFETY_BLOCK',
+    message: 'The model refused part of this document because of its safety filters.',
+    advice: 'Remove or rephrase the flagged passage (graphic, hateful or personal data) and run the check again.'
+  },
+  RECITATION: {
+    code: 'RECITATION_BLOCK',
+    message: 'The model stopped because its answer would repeat a published source word for word.',
+    advice: 'The passage is most likely quoted from a published work. Put it in quotation marks with a citation, or paraphrase it yourself, then run the check again.'
+  },
+  TRUNCATED: {
+    code: 'OUTPUT_TRUNCATED',
+    message: "The model's answer was cut off at its output limit.",
+    advice: 'Try again; if it keeps happening, split long passages with paragraph breaks or upload the document in smaller parts.'
+  },
+  OVERSIZE: {
+    code: 'INPUT_TOO_LARGE',
+    message: 'Part of this document is larger than the model accepts in one request.',
+    advice: 'Split very long passages without paragraph breaks, or upload the document in smaller parts.'
+  },
+  NETWORK: {
+    code: 'NETWORK_FAILURE',
+    message: 'The model service could not be reached.',
+    advice: 'Check your internet connection and try again.'
+  },
+  TIMEOUT: {
+    code: 'TIMEOUT',
+    message: 'The model service took too long to answer.',
+    advice: 'Try again in a moment; if it keeps timing out, try a shorter document.'
+  },
+  SERVER: {
+    code: 'SERVICE_UNAVAILABLE',
+    message: 'The model service is having problems.',
+    advice: 'This is on the provider side. Wait a few minutes and try again.'
+  },
+  UNAVAILABLE: {
+    code: 'SERVICE_UNAVAILABLE',
+    message: 'The model service is failing repeatedly, so requests were paused.',
+    advice: 'Requests resume automatically after a short cool-down. Wait a minute and try again.'
+  }
+};
+
+export const toErrorContext = (error: any, fallbackCode: ErrorCode, fallbackAdvice: string): ErrorContext => {
+  if (error instanceof PartialJobError) {
+    const context = toErrorContext(error.cause, fallbackCode, fallbackAdvice);
+    return {
+      ...context,
+      resumable: true,
+      actionableAdvice: `${context.actionableAdvice} ${error.completedChunks} of ${error.totalChunks} parts finished and are saved on this device; Resume processes only the remaining parts.`
+    };
+  }
+  if (error instanceof ModelResponseError) {
+    return {
+      code: 'MALFORMED_RESPONSE',
+      message: error.message,
+      actionableAdvice: 'The model returned an incomplete answer twice in a row. Run the check again; if it keeps failing, split the document into smaller parts.',
+      technicalDetails: [...error.issues.slice(0, 10), `Raw response: ${error.rawText.slice(0, 500) || '(empty)'}`].join('\n')
+    };
+  }
+  const kind = classifyModelError(error);
+  if (kind !== 'MALFORMED' && kind !== 'UNKNOWN') {
+    const { code, message, advice } = KIND_CONTEXT[kind];
+    return { code, message, actionableAdvice: advice, technicalDetails: error?.message || String(error) };
+  }
+  return { code: fallbackCode, message: error?.message || String(error), actionableAdvice: fallbackAdvice };
+};
@@ -0,0 +1,168 @@
+import { FlaggedPassage, ParagraphAnalysis, SourceMatch } from '../types';
+
+/**
+ * PARAGRAPH RISK MAPPING
+ * Projects the passages each chunk flagged back onto the paragraphs of the
+ * original document, so findings from different chunks land on one map.
+ */
+
+export interface DocumentParagraph {
+  index: number;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ChunkFindings {
+  start: number;
+  end: number;
+  passages: FlaggedPassage[];
+}
+
+interface NormalizedRegion {
+  norm: string;
+  map: number[];
+}
+
+const ANCHOR_LENGTH = 80;
+
+export const splitParagraphs = (text: string): DocumentParagraph[] => {
+  const paragraphs: DocumentParagraph[] = [];
+  const separator = /\n\s*\n/g;
+  let start = 0;
+  const push = (end: number) => {
+    const raw = text.slice(start, end);
+    const lead = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed) paragraphs.push({ index: paragraphs.length, text: trimmed, start: start + lead, end: start + lead + trimmed.length });
+  };
+  let m: RegExpExecArray | null;
+  while ((m = separator.exec(text)) !== null) {
+    push(m.index);
+    start = m.index + m[0].length;
+  }
+  push(text.length);
+  return paragraphs;
+};
+
+const normalizeChar = (ch: string) => ch.toLowerCase().replace(/[‘’`]/g, "'").replace(/[“”]/g, '"');
+
+const normalizeRegion = (text: string, start: number, end: number): NormalizedRegion => {
+  let norm = '';
+  const map: number[] = [];
+  let lastSpace = true;
+  for (let i = start; i < end; i++) {
+    if (/\s/.test(text[i])) {
+      if (lastSpace) continue;
+      norm += ' ';
+      lastSpace = true;
+    } else {
+      norm += normalizeChar(text[i]);
+      lastSpace = false;
+    }
+    map.push(i);
+  }
+  return { norm, map };
+};
+
+const normalize = (s: string) => normalizeRegion(s, 0, s.length).norm.trim();
+
+const words = (s: string) => normalize(s).match(/[\p{L}\p{N}]+/gu) || [];
+
+/**
+ * Finds an excerpt inside a document region, tolerating whitespace, case and
+ * quote-style drift. Falls back to the excerpt's head or tail when the model
+ * paraphrased the middle of its quote.
+ */
+export const locateExcerpt = (text: string, excerpt: string, start = 0, end = text.length): [number, number] | null => {
+  const needle = normalize(excerpt);
+  if (!needle) return null;
+  const region = normalizeRegion(text, start, end);
+
+  const at = region.norm.indexOf(needle);
+  if (at !== -1) return [region.map[at], region.map[at + needle.length - 1] + 1];
+
+  if (needle.length <= ANCHOR_LENGTH) return null;
+  const head = region.norm.indexOf(needle.slice(0, ANCHOR_LENGTH));
+  if (head !== -1) {
+    const last = Math.min(region.map.length - 1, head + needle.length - 1);
+    return [region.map[head], region.map[last] + 1];
+  }
+  const tail = region.norm.indexOf(needle.slice(-ANCHOR_LENGTH));
+  if (tail !== -1) {
+    const first = Math.max(0, tail + ANCHOR_LENGTH - needle.length);
+    return [region.map[first], region.map[tail + ANCHOR_LENGTH - 1] + 1];
+  }
+  return null;
+};
+
+// Last resort for unlocatable excerpts: the paragraph in range sharing most of its vocabulary
+const bestOverlapParagraph = (excerpt: string, candidates: DocumentParagraph[]): DocumentParagraph | null => {
+  const needle = new Set(words(excerpt));
+  if (needle.size === 0) return null;
+  let best: DocumentParagraph | null = null;
+  let bestScore = 0.5;
+  candidates.forEach(p => {
+    const vocab = new Set(words(p.text));
+    let shared = 0;
+    needle.forEach(w => { if (vocab.has(w)) shared++; });
+    const score = shared / needle.size;
+    if (score > bestScore) {
+      best = p;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const normalizeUrl = (url: string) => url.trim().toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/\/+$/, '');
+
+export const buildParagraphBreakdown = (text: string, findings: ChunkFindings[], sources: SourceMatch[]): ParagraphAnalysis[] => {
+  const paragraphs = splitParagraphs(text);
+  const sourceIdByUrl = new Map<string, string>();
+  sources.forEach(s => { if (s.url && !sourceIdByUrl.has(normalizeUrl(s.url))) sourceIdByUrl.set(normalizeUrl(s.url), s.id); });
+
+  const hits = new Map<number, { passages: FlaggedPassage[] }>();
+  const attach = (p: DocumentParagraph, passage: FlaggedPassage) => {
+    const entry = hits.get(p.index) || { passages: [] };
+    entry.passages.push(passage);
+    hits.set(p.index, entry);
+  };
+
+  findings.forEach(chunk => {
+    const inChunk = paragraphs.filter(p => p.end > chunk.start && p.start < chunk.end);
+    chunk.passages.forEach(passage => {
+      const range = locateExcerpt(text, passage.excerpt, chunk.start, chunk.end);
+      if (range) {
+        inChunk.filter(p => p.end > range[0] && p.start < range[1]).forEach(p => attach(p, passage));
+      } else {
+        const fallback = bestOverlapParagraph(passage.excerpt, inChunk);
+        if (fallback) attach(fallback, passage);
+      }
+    });
+  });
+
+  return paragraphs.map(p => {
+    const entry = hits.get(p.index);
+    if (!entry) return { index: p.index, start: p.start, end: p.end, text: p.text, riskScore: 0, matchType: 'SAFE' as const, evidence: '', sourceIds: [] };
+
+    // Plagiarism outranks AI style at equal risk; chunks that both saw this paragraph are merged
+    const top = entry.passages.reduce((best, cur) =>
+      cur.riskScore > best.riskScore || (cur.riskScore === best.riskScore && cur.matchType === 'PLAGIARISM') ? cur : best);
+    const reasons = Array.from(new Set(entry.passages.map(x => x.reason.trim()).filter(Boolean)));
+    const sourceIds = Array.from(new Set(entry.passages
+      .map(x => x.sourceUrl ? sourceIdByUrl.get(normalizeUrl(x.sourceUrl)) : undefined)
+      .filter((id): id is string => !!id)));
+
+    return {
+      index: p.index,
+      start: p.start,
+      end: p.end,
+      text: p.text,
+      riskScore: Math.round(Math.max(0, Math.min(100, top.riskScore))),
+      matchType: top.matchType,
+      evidence: reasons.join(' · '),
+      sourceIds
+    };
+  });
+};
@@ -0,0 +1,257 @@
+import { CitationName, CitationStyle, ExclusionZone, SourceMatch } from '../types';
+import { citationKind, parseAuthorString, toCitationData } from './citationFormatter';
+import { detectExclusionZones } from './exclusions';
+import { isHeadingLine } from './stylometry';
+import { hashString } from './hash';
+
+/**
+ * DOCUMENT REFERENCE LIST
+ * Reads the document's own References or Bibliography section (the zone found
+ * for exclusions) into SourceMatch records, one per entry. Entries are split on
+ * their numbering, on blank lines, or where a line starts a new author name
+ * after a finished entry. Each entry's layout is then checked against the
+ * chosen CitationStyle: numbering, where the year sits, alphabetical or
+ * numeric order, and a few style-specific rules.
+ */
+
+type Numbering = 'bracket' | 'number' | 'none';
+type YearPlacement = 'parenthesized' | 'after-authors' | 'end';
+
+interface ReferenceRules {
+  numbering: Numbering;
+  year: YearPlacement;
+}
+
+const REFERENCE_RULES: Record<CitationStyle, ReferenceRules> = {
+  'APA 7th Edition': { numbering: 'none', year: 'parenthesized' },
+  'MLA 9th Edition': { numbering: 'none', year: 'end' },
+  'Chicago 17th (Author-Date)': { numbering: 'none', year: 'after-authors' },
+  'Chicago 17th (Notes & Bibliography)': { numbering: 'none', year: 'end' },
+  'Harvard (Standard)': { numbering: 'none', year: 'parenthesized' },
+  'IEEE (Technical/Engineering)': { numbering: 'bracket', year: 'end' },
+  'Vancouver (Biomedical)': { numbering: 'number', year: 'end' },
+  'Nature (Journal Style)': { numbering: 'number', year: 'end' },
+  'Science (Journal Style)': { numbering: 'number', year: 'end' },
+  'Bluebook (Legal/US)': { numbering: 'none', year: 'end' },
+  'OSCOLA (Legal/UK)': { numbering: 'none', year: 'end' },
+  'AMA (Medical/11th Ed)': { numbering: 'number', year: 'end' },
+  'ASA (Sociological)': { numbering: 'none', year: 'after-authors' },
+  'AAA (Anthropological)': { numbering: 'none', year: 'after-authors' },
+  'APSA (Political Science)': { numbering: 'none', year: 'after-authors' },
+  'Turabian (9th Ed)': { numbering: 'none', year: 'end' },
+  'MHRA (Humanities)': { numbering: 'none', year: 'end' },
+  'ACS (Chemical Society)': { numbering: 'number', year: 'end' },
+  'AGU (Geophysical Union)': { numbering: 'none', year: 'parenthesized' }
+};
+
+const YEAR_DESCRIPTIONS: Record<YearPlacement, string> = {
+  parenthesized: 'in parentheses straight after the authors',
+  'after-authors': 'straight after the authors, without parentheses',
+  end: 'after the title and publication details'
+};
+
+const BRACKET_NUMBER = /^\s*\[(\d{1,4})\]\s*/;
+const PLAIN_NUMBER = /^\s*\(?(\d{1,4})[.)]\s+/;
+const DOI = /\b(10\.\d{4,9}\/[^\s"<>]+?)[.,;]?(?=\s|$)/;
+const URL = /\bhttps?:\/\/[^\s<>"]+[^\s<>".,;)]/;
+const YEAR = '(?:1[5-9]\\d{2}|20\\d{2})[a-z]?|n\\.d\\.';
+const PARENTHESIZED_YEAR = new RegExp(`^([^()"“]{2,400}?)\\s*\\((${YEAR})(?:,[^)]*)?\\)\\.?\\s*`);
+const YEAR_AFTER_AUTHORS = new RegExp(`^([^"“]{2,400}?[^\\s.]{2}|[^"“]{2,400}?\\s\\p{Lu})\\.\\s+(${YEAR})\\.\\s+`, 'u');
+// "Smith JA, Doe K." as Vancouver and AMA write author lists
+const VANCOUVER_AUTHORS = /^((?:\p{Lu}[\p{L}'’-]+(?:\s+\p{Lu}[\p{L}'’-]+)*\s+\p{Lu}{1,3}(?:,\s+|,?\s+et al)?)+)\.\s+/u;
+const ANY_YEAR = /\b(?:1[5-9]\d{2}|20\d{2})(?![\d(])/;
+const QUOTED_TITLE = /[“"](.+?)[,.]?[”"]/;
+const VANCOUVER_NAME = /^\p{Lu}[\p{L}'’-]+(?:\s+\p{Lu}[\p{L}'’-]+)*\s+\p{Lu}{1,3}$/u;
+const NEW_ENTRY_START = /^(?:\p{Lu}[\p{L}'’-]+,\s+\p{Lu}|\p{Lu}[\p{L}'’-]+\s+\p{Lu}{1,3}[,.]|\p{Lu}\.\s*(?:\p{Lu}\.\s*)*\p{Lu}[\p{L}'’-]+|[“"])/u;
+// Sentence breaks inside an entry, skipping those after initials and common abbreviations
+const SENTENCE_BREAK = /(?<!\b\p{Lu}|\b(?:vol|no|pp|ed|eds|trans|et al|Inc|Ltd|St|Jr|Sr|Proc|Conf|Int|Symp|Trans))\.\s+(?=\p{Lu}|\d|[“"*])/u;
+
+const splitSentences = (text: string): string[] => text.split(SENTENCE_BREAK).map(s => s.trim()).filter(Boolean);
+
+/** The body of every reference-list section, without its heading line. */
+export const findReferenceSections = (text: string, zones: ExclusionZone[] = detectExclusionZones(text)): { start: number; body: string }[] =>
+  zones.filter(z => z.kind === 'BIBLIOGRAPHY').map(z => {
+    const section = text.slice(z.start, z.end);
+    const firstLineEnd = section.indexOf('\n');
+    const headingLength = firstLineEnd >= 0 && isHeadingLine(section.slice(0, firstLineEnd)) ? firstLineEnd + 1 : 0;
+    return { start: z.start + headingLength, body: section.slice(headingLength) };
+  });
+
+/** Splits a reference section into one string per entry. */
+export const splitReferenceEntries = (body: string): string[] => {
+  const lines = body.split('\n').map(l => l.trim());
+  const content = lines.filter(Boolean);
+  if (content.length === 0) return [];
+
+  const numbered = content.filter(l => BRACKET_NUMBER.test(l) || PLAIN_NUMBER.test(l)).length;
+  const blocks = body.split(/\n\s*\n/).map(b => b.trim()).filter(Boolean);
+  const entries: string[] = [];
+
+  if (numbered >= Math.max(2, content.length / 3)) {
+    content.forEach(line => {
+      if (BRACKET_NUMBER.test(line) || PLAIN_NUMBER.test(line) || entries.length === 0) entries.push(line);
+      else entries[entries.length - 1] += ` ${line}`;
+    });
+  } else if (blocks.length > 1 && blocks.length >= content.length / 3) {
+    blocks.forEach(b => entries.push(b.replace(/\s*\n\s*/g, ' ')));
+  } else {
+    // Wrapped lines continue an entry until a finished entry is followed by a new author name
+    content.forEach(line => {
+      const previous = entries[entries.length - 1];
+      const finished = previous !== undefined && /(?:[.)\]]|\d|https?:\/\/\S+)$/.test(previous);
+      const startsEntry = NEW_ENTRY_START.test(line) || PARENTHESIZED_YEAR.test(line) || YEAR_AFTER_AUTHORS.test(line);
+      if (previous === undefined || (finished && startsEntry)) entries.push(line);
+      else entries[entries.length - 1] += `${/-$/.test(previous) ? '' : ' '}${line}`;
+    });
+  }
+  return entries.filter(e => e.length >= 15 && !isHeadingLine(e));
+};
+
+const parseAuthors = (text: string): CitationName[] => {
+  // A final full stop after an initial belongs to the name
+  const cleaned = text.trim().replace(/[,;:]+$|(?<=\p{L}{2})\.$/u, '').replace(/\s*\((?:eds?|ed|trans)\.?\)$/i, '');
+  // Reference lists write people as "Smith, J." or "J. Smith"; several words with neither are an organisation
+  if (!/[,&]|\sand\s|\b\p{Lu}\./u.test(cleaned) && cleaned.split(/\s+/).length >= 3) return [{ family: cleaned }];
+  const parts = cleaned.split(/\s*,\s*/);
+  // Vancouver and AMA write "Smith JA, Doe K"
+  if (parts.length > 0 && parts.every(p => VANCOUVER_NAME.test(p.replace(/^and\s+/, '')))) {
+    return parts.map(p => {
+      const words = p.replace(/^and\s+/, '').split(/\s+/);
+      return { family: words.slice(0, -1).join(' '), given: words[words.length - 1].split('').join('. ') + '.' };
+    });
+  }
+  return parseAuthorString(cleaned.replace(/,?\s+et al\.?$/, '').replace(/,\s*(?:&|and)\s+/g, ' & '));
+};
+
+const strip = (text?: string) => text?.trim().replace(/^[“"*‘']+|[”"*’']+$/g, '').replace(/[.,;:\s]+$/, '') || undefined;
+
+/** Reads one reference-list entry into structured fields. */
+export const parseReferenceEntry = (entry: string): SourceMatch => {
+  let rest = entry.replace(BRACKET_NUMBER, '').replace(PLAIN_NUMBER, '').trim();
+  const doi = rest.match(DOI)?.[1];
+  const url = rest.match(URL)?.[0];
+  rest = rest.replace(/\s*(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)10\.\S+/gi, '').replace(URL, '').replace(/\s*(?:Available at|Retrieved from|Accessed)\b.*$/i, '').trim();
+
+  let authorText = '';
+  let year: string | undefined;
+  let afterAuthors = rest;
+  const parenthesized = rest.match(PARENTHESIZED_YEAR);
+  const bare = !parenthesized ? rest.match(YEAR_AFTER_AUTHORS) : null;
+  const vancouver = rest.match(VANCOUVER_AUTHORS);
+  const quoted = rest.match(QUOTED_TITLE);
+
+  if (parenthesized || bare) {
+    const m = (parenthesized || bare)!;
+    authorText = m[1];
+    year = m[2] === 'n.d.' ? undefined : m[2];
+    afterAuthors = rest.slice(m[0].length);
+  } else if (vancouver) {
+    authorText = vancouver[1];
+    afterAuthors = rest.slice(vancouver[0].length);
+  } else if (quoted && quoted.index! > 0) {
+    // IEEE, MLA and Chicago notes: the authors run up to the quoted title
+    authorText = rest.slice(0, quoted.index);
+    afterAuthors = rest.slice(quoted.index!);
+  } else {
+    const [first, ...others] = splitSentences(rest);
+    if (others.length > 0) {
+      authorText = first;
+      afterAuthors = others.join('. ');
+    }
+  }
+  year ||= afterAuthors.match(ANY_YEAR)?.[0] || undefined;
+
+  // The title is the quoted text, or else the first sentence after the authors
+  const titleMatch = afterAuthors.match(QUOTED_TITLE);
+  const sentences = splitSentences(titleMatch ? afterAuthors.slice(titleMatch.index! + titleMatch[0].length) : afterAuthors);
+  const title = strip(titleMatch?.[1] ?? sentences.shift()) || strip(entry.slice(0, 120))!;
+  const details = sentences.join('. ');
+
+  const volume = details.match(/\bvol\.\s*(\d+)/i)?.[1] || details.match(/(?:^|[\s,;])(\d{1,4})\s*\(\d+[^)]*\)/)?.[1] || details.match(/\*?(\d{1,4})\*?\s*,\s*\d+\s*[-–]\s*\d+/)?.[1];
+  const issue = details.match(/\bno\.\s*(\d+)/i)?.[1] || details.match(/\d\s*\((\d+[^)]*)\)/)?.[1];
+  const pages = details.match(/\bpp?\.\s*(\d+\s*[-–]\s*\d+|\d+)/i)?.[1] || details.match(/[:,]\s*(\d+\s*[-–]\s*\d+)/)?.[1];
+  // The container is whatever precedes the volume, or the next sentence
+  const container = strip(details.replace(/^\s*in\s+/i, '').match(/^\s*(?:In\s+)?([^,.;:()\d]{3,}?)[,.]?\s+(?:vol\.\s*)?\d/i)?.[1] || (volume ? undefined : sentences[0]?.replace(/^in\s+/i, '').split(/,\s*(?=\d|vol\.|pp?\.|no\.)/)[0]));
+  const publisher = !volume && !issue ? strip(details.match(/([^.,:]*(?:Press|UP|Publishing|Publishers|Books|University|Verlag|Wiley|Elsevier|Springer|Routledge|Sage)\b[^.,]*)/)?.[1]) : undefined;
+  const authors = authorText ? parseAuthors(authorText) : [];
+  const type: SourceMatch['type'] = volume || issue || (pages && container) ? 'JOURNAL' : publisher || /\bISBN\b/i.test(entry) ? 'BOOK' : url && !doi ? 'WEB' : container ? 'JOURNAL' : 'BOOK';
+
+  return {
+    id: `docref-${hashString(entry)}`,
+    url: url || (doi ? `https://doi.org/${doi}` : ''),
+    title,
+    snippet: '',
+    similarity: 0,
+    impactScore: 0,
+    type,
+    referenceText: entry,
+    ...(authors.length ? { authors, author: authors.map(n => n.given ? `${n.family}, ${n.given}` : n.family).join('; ') } : {}),
+    ...(year ? { year } : {}),
+    ...(type !== 'BOOK' && container && container !== title ? { container } : {}),
+    ...(volume ? { volume } : {}),
+    ...(issue ? { issue } : {}),
+    ...(pages ? { pages } : {}),
+    ...(doi ? { doi } : {}),
+    ...(publisher ? { publisher } : {})
+  };
+};
+
+/** Every entry of the document's own reference list, in document order. */
+export const parseReferenceList = (text: string, zones?: ExclusionZone[]): SourceMatch[] =>
+  findReferenceSections(text, zones).flatMap(section => splitReferenceEntries(section.body)).map(parseReferenceEntry);
+
+const numberingOf = (entry: string): { kind: Numbering; value?: number } => {
+  const bracket = entry.match(BRACKET_NUMBER);
+  if (bracket) return { kind: 'bracket', value: Number(bracket[1]) };
+  const plain = entry.match(PLAIN_NUMBER);
+  return plain ? { kind: 'number', value: Number(plain[1]) } : { kind: 'none' };
+};
+
+const yearPlacementOf = (entry: string): YearPlacement => {
+  const rest = entry.replace(BRACKET_NUMBER, '').replace(PLAIN_NUMBER, '');
+  if (PARENTHESIZED_YEAR.test(rest)) return 'parenthesized';
+  if (YEAR_AFTER_AUTHORS.test(rest)) return 'after-authors';
+  return 'end';
+};
+
+/**
+ * Formatting problems of each parsed entry against `style`, keyed by the
+ * entry as written. Entries are checked in the order the document lists them.
+ */
+export const checkReferenceFormatting = (entries: SourceMatch[], style: CitationStyle): Map<string, string[]> => {
+  const rules = REFERENCE_RULES[style];
+  const numeric = citationKind(style) === 'numeric';
+  const shortStyle = style.split(' (')[0];
+  const problems = new Map<string, string[]>();
+  let previousKey = '';
+
+  entries.forEach((source, position) => {
+    const entry = source.referenceText;
+    if (!entry) return;
+    const found: string[] = [];
+    const numbering = numberingOf(entry);
+    const d = toCitationData(source);
+
+    if (rules.numbering === 'none' && numbering.kind !== 'none') found.push(`${shortStyle} reference lists are not numbered.`);
+    if (rules.numbering === 'bracket' && numbering.kind !== 'bracket') found.push(`${shortStyle} numbers entries in square brackets, like [${position + 1}].`);
+    if (rules.numbering === 'number' && numbering.kind === 'none') found.push(`${shortStyle} numbers entries in the order they are cited.`);
+    if (numeric && numbering.value !== undefined && numbering.value !== position + 1) found.push(`Numbered ${numbering.value}, but it is entry ${position + 1} in the list.`);
+
+    const placement = yearPlacementOf(entry);
+    if (d.year && placement !== rules.year) found.push(`${shortStyle} puts the year ${YEAR_DESCRIPTIONS[rules.year]}.`);
+    if (!d.year && !/\bn\.\s?d\.|no date/i.test(entry)) found.push('No publication year.');
+    if (d.names.length === 0) found.push('No author could be read.');
+
+    if (!numeric) {
+      const key = `${d.names[0]?.family || d.title} ${d.year || ''}`.toLowerCase();
+      if (previousKey && key.localeCompare(previousKey) < 0) found.push('Out of alphabetical order by first author.');
+      previousKey = key;
+    }
+    if ((style === 'APA 7th Edition' || style === 'AGU (Geophysical Union)') && /\bet al\b/i.test(entry)) found.push(`${shortStyle} lists up to 20 authors by name instead of "et al."`);
+    if ((style === 'APA 7th Edition' || style === 'AGU (Geophysical Union)') && /\bdoi:\s*10\./i.test(entry)) found.push(`${shortStyle} writes DOIs as https://doi.org/ links.`);
+    if (style === 'MLA 9th Edition' && d.work === 'article' && !/\bpp?\.\s*\d/.test(entry) && d.pages) found.push('MLA marks page ranges with "pp."');
+
+    problems.set(entry, found);
+  });
+  return problems;
+};
@@ -0,0 +1,115 @@
+import { CancelledError } from './cancellation';
+import { isRateLimitError, retryAfterMs } from './modelErrors';
+
+/**
+ * ADAPTIVE REQUEST POOL
+ * Keeps up to `limit` model calls in flight per provider and model tier. A rate
+ * limit halves the limit and pauses the pool for the server's retry hint; every
+ * `limit` consecutive successes raise it by one again, up to `max`.
+ */
+
+export interface PoolLimits {
+  initial: number;
+  min: number;
+  max: number;
+}
+
+export interface PoolStats {
+  limit: number;
+  inFlight: number;
+  queued: number;
+  pausedUntil: number;
+}
+
+export interface RequestPool {
+  run: <T>(fn: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+  stats: () => PoolStats;
+}
+
+// Pause used when a rate limit arrives without a retry hint
+const DEFAULT_BACKOFF_MS = 12000;
+
+export const createRequestPool = ({ initial, min, max }: PoolLimits): RequestPool => {
+  let limit = initial;
+  let inFlight = 0;
+  let successStreak = 0;
+  let pausedUntil = 0;
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  const waiting: (() => void)[] = [];
+
+  const pump = () => {
+    const now = Date.now();
+    if (now < pausedUntil) {
+      if (!wakeTimer && waiting.length) {
+        wakeTimer = setTimeout(() => { wakeTimer = null; pump(); }, pausedUntil - now);
+      }
+      return;
+    }
+    while (waiting.length && inFlight < limit) {
+      inFlight++;
+      waiting.shift()!();
+    }
+  };
+
+  const acquire = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      const at = waiting.indexOf(grant);
+      if (at >= 0) waiting.splice(at, 1);
+      reject(new CancelledError());
+    };
+    const grant = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    waiting.push(grant);
+    pump();
+  });
+
+  const backOff = (error: any) => {
+    limit = Math.max(min, Math.floor(limit / 2));
+    successStreak = 0;
+    pausedUntil = Math.max(pausedUntil, Date.now() + (retryAfterMs(error) ?? DEFAULT_BACKOFF_MS));
+  };
+
+  const recordSuccess = () => {
+    if (++successStreak >= limit && limit < max) {
+      limit++;
+      successStreak = 0;
+    }
+  };
+
+  return {
+    run: async (fn, signal) => {
+      await acquire(signal);
+      try {
+        const result = await fn();
+        recordSuccess();
+        return result;
+      } catch (e) {
+        if (isRateLimitError(e)) backOff(e);
+        throw e;
+      } finally {
+        inFlight--;
+        pump();
+      }
+    },
+    stats: () => ({ limit, inFlight, queued: waiting.length, pausedUntil })
+  };
+};
+
+const pools = new Map<string, RequestPool>();
+
+/** One shared pool per key, e.g. "gemini:pro", so parallel jobs respect the same quota. */
+export const getRequestPool = (key: string, limits: PoolLimits): RequestPool => {
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = createRequestPool(limits);
+    pools.set(key, pool);
+  }
+  return pool;
+};
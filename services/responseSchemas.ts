@@ -0,0 +1,225 @@
+import { Schema, Type } from '@google/genai';
+import { CitationName, FlaggedPassage, SlideContent, SummaryMemo } from '../types';
+
+/**
+ * MODEL RESPONSE CONTRACTS
+ * Each model call declares the JSON shape it expects. The schema is sent to the
+ * model as its responseSchema and the same schema validates what comes back.
+ */
+
+export interface ResponseSpec<T> {
+  name: string;
+  schema: Schema;
+}
+
+export type DecodeResult<T> = { ok: true; value: T } | { ok: false; issues: string[] };
+
+export interface RawSourceResponse {
+  title: string;
+  url: string;
+  snippet?: string;
+  author?: string;
+  year?: string;
+  fullCitation?: string;
+  type?: 'JOURNAL' | 'BOOK' | 'WEB';
+  authors?: CitationName[];
+  container?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  doi?: string;
+  publisher?: string;
+}
+
+export interface AnalysisResponse {
+  plagiarismScore: number;
+  aiProbability: number;
+  foundSources: RawSourceResponse[];
+  flaggedPassages?: FlaggedPassage[];
+}
+
+export interface RewriteResponse {
+  rewrittenText: string;
+  improvements: string[];
+}
+
+export interface TranslationResponse {
+  translations: { id: string; text: string }[];
+}
+
+const percent: Schema = { type: Type.NUMBER, minimum: 0, maximum: 100 };
+const text: Schema = { type: Type.STRING };
+const textList: Schema = { type: Type.ARRAY, items: text };
+const nonEmptyText: Schema = { type: Type.STRING, minLength: '1' };
+
+export const ANALYSIS_RESPONSE: ResponseSpec<AnalysisResponse> = {
+  name: 'analysis',
+  schema: {
+    type: Type.OBJECT,
+    properties: {
+      plagiarismScore: percent,
+      aiProbability: percent,
+      foundSources: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            title: text,
+            url: text,
+            snippet: text,
+            author: text,
+            year: text,
+            fullCitation: text,
+            type: { type: Type.STRING, enum: ['JOURNAL', 'BOOK', 'WEB'] },
+            authors: {
+              type: Type.ARRAY,
+              items: { type: Type.OBJECT, properties: { family: text, given: text }, required: ['family'] }
+            },
+            container: text,
+            volume: text,
+            issue: text,
+            pages: text,
+            doi: text,
+            publisher: text
+          },
+          required: ['title', 'url']
+        }
+      },
+      flaggedPassages: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            excerpt: text,
+            matchType: { type: Type.STRING, enum: ['AI', 'PLAGIARISM'] },
+            riskScore: percent,
+            reason: text,
+            sourceUrl: text
+          },
+          required: ['excerpt', 'matchType', 'riskScore', 'reason']
+        }
+      }
+    },
+    required: ['plagiarismScore', 'aiProbability', 'foundSources']
+  }
+};
+
+export const REWRITE_RESPONSE: ResponseSpec<RewriteResponse> = {
+  name: 'rewrite',
+  schema: {
+    type: Type.OBJECT,
+    properties: { rewrittenText: nonEmptyText, improvements: textList },
+    required: ['rewrittenText', 'improvements']
+  }
+};
+
+// Salvage contract for rewrite responses that fail REWRITE_RESPONSE but still carry the text
+export const REWRITE_TEXT_RESPONSE: ResponseSpec<Pick<RewriteResponse, 'rewrittenText'>> = {
+  name: 'rewrite',
+  schema: {
+    type: Type.OBJECT,
+    properties: { rewrittenText: nonEmptyText },
+    required: ['rewrittenText']
+  }
+};
+
+export const SLIDES_RESPONSE: ResponseSpec<SlideContent[]> = {
+  name: 'slides',
+  schema: {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: { title: text, bullets: textList, speakerNotes: text },
+      required: ['title', 'bullets', 'speakerNotes']
+    }
+  }
+};
+
+export const SUMMARY_RESPONSE: ResponseSpec<SummaryMemo> = {
+  name: 'memo',
+  schema: {
+    type: Type.OBJECT,
+    properties: { to: text, from: text, subject: text, executiveSummary: text, keyActionItems: textList, conclusion: text },
+    required: ['to', 'from', 'subject', 'executiveSummary', 'keyActionItems', 'conclusion']
+  }
+};
+
+export const TRANSLATION_RESPONSE: ResponseSpec<TranslationResponse> = {
+  name: 'translation',
+  schema: {
+    type: Type.OBJECT,
+    properties: {
+      translations: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: { id: nonEmptyText, text: text },
+          required: ['id', 'text']
+        }
+      }
+    },
+    required: ['translations']
+  }
+};
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+  return typeof value;
+};
+
+/** Returns one human-readable issue per violation, each prefixed with its JSON path. */
+export const validateSchema = (value: unknown, schema: Schema, path = '$'): string[] => {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path}: expected ${(schema.type || 'value').toLowerCase()}, got ${value === null ? 'null' : 'nothing'}`];
+  }
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${path}: expected object, got ${describe(value)}`];
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required || []).filter(k => record[k] === undefined).map(k => `${path}.${k}: required field is missing`);
+      const nested = Object.entries(schema.properties || {})
+        .filter(([k]) => record[k] !== undefined)
+        .flatMap(([k, child]) => validateSchema(record[k], child, `${path}.${k}`));
+      return [...missing, ...nested];
+    }
+    case Type.ARRAY:
+      if (!Array.isArray(value)) return [`${path}: expected array, got ${describe(value)}`];
+      return schema.items ? value.flatMap((item, i) => validateSchema(item, schema.items!, `${path}[${i}]`)) : [];
+    case Type.STRING:
+      if (typeof value !== 'string') return [`${path}: expected string, got ${describe(value)}`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path}: expected one of ${schema.enum.join(', ')}, got "${value}"`];
+      if (schema.minLength !== undefined && value.trim().length < Number(schema.minLength)) return [`${path}: expected at least ${schema.minLength} characters, got ${value.trim().length}`];
+      return [];
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      if (typeof value !== 'number' || !isFinite(value)) return [`${path}: expected number, got ${describe(value)}`];
+      if (schema.type === Type.INTEGER && !Number.isInteger(value)) return [`${path}: expected integer, got ${value}`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: ${value} is below the minimum of ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path}: ${value} is above the maximum of ${schema.maximum}`];
+      return [];
+    }
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${path}: expected boolean, got ${describe(value)}`];
+    default:
+      return [];
+  }
+};
+
+/** Strict decode: a single surrounding code fence is tolerated, nothing else is guessed. */
+export const decodeResponse = <T>(raw: string, spec: ResponseSpec<T>): DecodeResult<T> => {
+  const body = raw.trim().replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/, '$1').trim();
+  if (!body) return { ok: false, issues: ['$: response was empty'] };
+
+  let value: unknown;
+  try {
+    value = JSON.parse(body);
+  } catch (e: any) {
+    return { ok: false, issues: [`$: invalid JSON (${e.message})`] };
+  }
+
+  const issues = validateSchema(value, spec.schema);
+  return issues.length ? { ok: false, issues } : { ok: true, value: value as T };
+};
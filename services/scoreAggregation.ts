@@ -0,0 +1,87 @@
+import { ScoreBreakdown, SectionScore } from '../types';
+import { splitSections } from './stylometry';
+
+/**
+ * SCORE AGGREGATION
+ * Combines per-chunk model scores into the headline numbers. Each chunk counts
+ * in proportion to the text it owns (its core, without the overlap it shares
+ * with the previous chunk), so a short chunk cannot outweigh a long one and
+ * re-splitting a document barely moves its score. Section scores use the same
+ * weighting over the chunk ranges they intersect. Chunks the model refused are
+ * passed as `unscored`: they carry no weight, and sections they cover entirely
+ * are left out rather than shown as 0%.
+ */
+
+export interface ScoredSpan {
+  start: number;
+  end: number;
+  plagiarismScore: number;
+  aiProbability: number;
+}
+
+type ScoreKey = 'plagiarismScore' | 'aiProbability';
+
+const LABELS: Record<ScoreKey, string> = {
+  plagiarismScore: 'source match',
+  aiProbability: 'AI pattern'
+};
+
+const countWeight = (text: string, start: number, end: number): number =>
+  text.slice(start, end).replace(/\s+/g, '').length;
+
+const weightedMean = (text: string, spans: ScoredSpan[], key: ScoreKey, from = 0, to = text.length) => {
+  let total = 0;
+  let weight = 0;
+  spans.forEach(s => {
+    const w = countWeight(text, Math.max(from, s.start), Math.min(to, s.end));
+    if (w <= 0) return;
+    total += s[key] * w;
+    weight += w;
+  });
+  return weight > 0 ? Math.round(total / weight) : 0;
+};
+
+const describe = (key: ScoreKey, score: number, spans: ScoredSpan[], sections: SectionScore[], words: number, unscored: number): string => {
+  const parts = spans.length === 1 && !unscored ? 'the whole document in one part' : `${spans.length} ${spans.length === 1 ? 'part' : 'parts'}`;
+  const excluded = unscored ? ` ${unscored} ${unscored === 1 ? 'part was' : 'parts were'} not scored because the model refused or cut off its answer; ${unscored === 1 ? 'it is' : 'they are'} left out of this average.` : '';
+  const lead = `${score}% is the length-weighted average ${LABELS[key]} score of ${parts} (${words.toLocaleString()} words); each part counts in proportion to how much of the text it covers, so a short trailing part cannot swing the result.${excluded}`;
+  if (sections.length < 2) return lead;
+  const top = [...sections]
+    .sort((a, b) => b[key] * b.weight - a[key] * a.weight)
+    .slice(0, 3)
+    .map(s => `${s.heading} ${s[key]}% (${Math.round(s.weight * 100)}% of text)`);
+  return `${lead} Largest contributors: ${top.join(', ')}.`;
+};
+
+export const aggregateScores = (text: string, spans: ScoredSpan[], unscored = 0): { plagiarismScore: number; aiProbability: number; breakdown: ScoreBreakdown } => {
+  const plagiarismScore = weightedMean(text, spans, 'plagiarismScore');
+  const aiProbability = weightedMean(text, spans, 'aiProbability');
+  const totalWeight = countWeight(text, 0, text.length) || 1;
+
+  const sections: SectionScore[] = splitSections(text)
+    .map(section => ({
+      heading: section.heading,
+      start: section.start,
+      end: section.end,
+      weight: countWeight(text, section.start, section.end) / totalWeight,
+      plagiarismScore: weightedMean(text, spans, 'plagiarismScore', section.start, section.end),
+      aiProbability: weightedMean(text, spans, 'aiProbability', section.start, section.end)
+    }))
+    .filter(s => s.weight > 0 && spans.some(span => countWeight(text, Math.max(s.start, span.start), Math.min(s.end, span.end)) > 0));
+
+  const words = (text.match(/\S+/g) || []).length;
+
+  return {
+    plagiarismScore,
+    aiProbability,
+    breakdown: {
+      method: 'LENGTH_WEIGHTED',
+      chunkCount: spans.length,
+      sections,
+      explanation: {
+        plagiarismScore: describe('plagiarismScore', plagiarismScore, spans, sections, words, unscored),
+        aiProbability: describe('aiProbability', aiProbability, spans, sections, words, unscored)
+      }
+    }
+  };
+};
@@ -0,0 +1,172 @@
+import * as tf from '@tensorflow/tfjs-core';
+import { GraphModel, loadGraphModel } from '@tensorflow/tfjs-converter';
+import { BackendWasm, setWasmPaths } from '@tensorflow/tfjs-backend-wasm';
+import { Tokenizer } from '@tensorflow-models/universal-sentence-encoder';
+import wasmUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url';
+import wasmSimdUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url';
+import wasmThreadedSimdUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url';
+import modelUrl from '@energetic-ai/model-embeddings-en/dist/model.json?url';
+import vocabularyUrl from '@energetic-ai/model-embeddings-en/dist/vocab.json?url';
+import shard1Url from '@energetic-ai/model-embeddings-en/dist/group1-shard1of7?url';
+import shard2Url from '@energetic-ai/model-embeddings-en/dist/group1-shard2of7?url';
+import shard3Url from '@energetic-ai/model-embeddings-en/dist/group1-shard3of7?url';
+import shard4Url from '@energetic-ai/model-embeddings-en/dist/group1-shard4of7?url';
+import shard5Url from '@energetic-ai/model-embeddings-en/dist/group1-shard5of7?url';
+import shard6Url from '@energetic-ai/model-embeddings-en/dist/group1-shard6of7?url';
+import shard7Url from '@energetic-ai/model-embeddings-en/dist/group1-shard7of7?url';
+
+/**
+ * SENTENCE ENCODER
+ * Turns sentences into unit-length vectors so sentences that say the same
+ * thing land close together, whatever words they use. The bundled encoder is
+ * Universal Sentence Encoder Lite: 512 dimensions, an 8k-piece vocabulary and
+ * about 27 MB of weights that ship with the app as assets, so it works
+ * offline. It runs on the CPU through the tfjs WebAssembly backend, at about
+ * 12 ms a sentence on one core. Another model can replace it behind the
+ * SentenceEncoder interface.
+ */
+
+export interface SentenceEncoder {
+  id: string;
+  dim: number;
+  encode: (sentences: string[]) => Promise<Float32Array[]>;
+}
+
+export interface SimilarPair {
+  query: number;
+  candidate: number;
+  score: number;
+}
+
+export const EMBEDDING_DIM = 512;
+
+// Weight files are fingerprinted by the bundler, so model.json's shard names are mapped to their asset URLs
+const SHARD_URLS: Record<string, string> = {
+  'group1-shard1of7': shard1Url,
+  'group1-shard2of7': shard2Url,
+  'group1-shard3of7': shard3Url,
+  'group1-shard4of7': shard4Url,
+  'group1-shard5of7': shard5Url,
+  'group1-shard6of7': shard6Url,
+  'group1-shard7of7': shard7Url
+};
+
+// Bounds the memory one model call takes; larger batches are no faster per sentence
+const BATCH_SIZE = 64;
+
+let backendReady: Promise<void> | null = null;
+let activeEncoder: SentenceEncoder | null = null;
+
+// The model turns token ids into its input matrix with SparseToDense, which the tfjs 3 WebAssembly backend lacks
+const sparseToDense: tf.KernelFunc = ({ inputs, backend, attrs }) => {
+  const wasm = backend as BackendWasm;
+  const { sparseIndices, sparseValues, defaultValue } = inputs as Record<keyof tf.SparseToDenseInputs, tf.TensorInfo>;
+  const { outputShape } = attrs as unknown as tf.SparseToDenseAttrs;
+  const indices = wasm.readSync(sparseIndices.dataId) as Int32Array;
+  const values = wasm.readSync(sparseValues.dataId) as Int32Array | Float32Array;
+  const fill = (wasm.readSync(defaultValue.dataId) as Int32Array | Float32Array)[0];
+  const rank = sparseIndices.shape.length < 2 ? 1 : sparseIndices.shape[1];
+  const strides = outputShape.map((_, d) => outputShape.slice(d + 1).reduce((a, b) => a * b, 1));
+
+  const output = wasm.makeOutput(outputShape, sparseValues.dtype);
+  const dense = wasm.typedArrayFromHeap(output);
+  dense.fill(fill);
+  for (let k = 0; k * rank < indices.length; k++) {
+    let at = 0;
+    for (let d = 0; d < rank; d++) at += indices[k * rank + d] * strides[d];
+    dense[at] = values.length === 1 ? values[0] : values[k];
+  }
+  return output;
+};
+
+const prepareBackend = () => {
+  if (!backendReady) {
+    backendReady = (async () => {
+      tf.registerKernel({ kernelName: 'SparseToDense', backendName: 'wasm', kernelFunc: sparseToDense });
+      setWasmPaths({
+        'tfjs-backend-wasm.wasm': wasmUrl,
+        'tfjs-backend-wasm-simd.wasm': wasmSimdUrl,
+        'tfjs-backend-wasm-threaded-simd.wasm': wasmThreadedSimdUrl
+      });
+      if (!await tf.setBackend('wasm')) throw new Error('WebAssembly is not available for the sentence encoder.');
+      await tf.ready();
+    })();
+  }
+  return backendReady;
+};
+
+const loadModel = async (): Promise<{ model: GraphModel; tokenizer: Tokenizer }> => {
+  await prepareBackend();
+  const [model, vocabulary] = await Promise.all([
+    loadGraphModel(modelUrl, { weightUrlConverter: async (name) => SHARD_URLS[name] || name }),
+    fetch(vocabularyUrl).then(res => {
+      if (!res.ok) throw new Error(`Sentence encoder vocabulary responded ${res.status}`);
+      return res.json();
+    })
+  ]);
+  return { model, tokenizer: new Tokenizer(vocabulary) };
+};
+
+const toUnitLength = (vector: Float32Array) => {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+};
+
+export const createUniversalSentenceEncoder = (): SentenceEncoder => {
+  let loaded: Promise<{ model: GraphModel; tokenizer: Tokenizer }> | null = null;
+
+  // Sentences go in as one sparse batch of token ids: a (row, position) pair and an id per token
+  const embedBatch = async (model: GraphModel, tokenizer: Tokenizer, sentences: string[]) => {
+    const encodings = sentences.map(s => tokenizer.encode(s));
+    const positions = encodings.flatMap((ids, row) => ids.map((_, column) => [row, column]));
+    const indices = tf.tensor2d(positions, [positions.length, 2], 'int32');
+    const values = tf.tensor1d(encodings.flat(), 'int32');
+    const output = await model.executeAsync({ indices, values }) as tf.Tensor;
+    const data = await output.data() as Float32Array;
+    tf.dispose([indices, values, output]);
+    return sentences.map((_, i) => toUnitLength(data.slice(i * EMBEDDING_DIM, (i + 1) * EMBEDDING_DIM)));
+  };
+
+  return {
+    id: `use-lite-${EMBEDDING_DIM}`,
+    dim: EMBEDDING_DIM,
+    encode: async (sentences) => {
+      if (!loaded) loaded = loadModel().catch(e => { loaded = null; throw e; });
+      const { model, tokenizer } = await loaded;
+      const vectors: Float32Array[] = [];
+      for (let i = 0; i < sentences.length; i += BATCH_SIZE) {
+        vectors.push(...await embedBatch(model, tokenizer, sentences.slice(i, i + BATCH_SIZE)));
+      }
+      return vectors;
+    }
+  };
+};
+
+/** The encoder for this thread; its model is loaded on first use and kept. */
+export const getSentenceEncoder = (): SentenceEncoder => {
+  if (!activeEncoder) activeEncoder = createUniversalSentenceEncoder();
+  return activeEncoder;
+};
+
+export const cosine = (a: Float32Array, b: Float32Array): number => {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+};
+
+/** Best candidate for each query at or above the threshold. Vectors must be unit length. */
+export const findSimilarPairs = (queries: Float32Array[], candidates: Float32Array[], threshold: number): SimilarPair[] => {
+  const pairs: SimilarPair[] = [];
+  for (let query = 0; query < queries.length; query++) {
+    let best: SimilarPair | null = null;
+    for (let candidate = 0; candidate < candidates.length; candidate++) {
+      const score = cosine(queries[query], candidates[candidate]);
+      if (score >= threshold && (!best || score > best.score)) best = { query, candidate, score };
+    }
+    if (best) pairs.push(best);
+  }
+  return pairs;
+};
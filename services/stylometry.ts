@@ -0,0 +1,346 @@
+import { ForensicData, LanguageCode, RadarMetric, SectionForensics } from '../types';
+
+/**
+ * OFFLINE STYLOMETRY ENGINE
+ * Deterministic sentence, lexical and readability measurements computed from
+ * the document itself. The same text always yields the same ForensicData.
+ */
+
+export interface DocumentSection {
+  heading: string;
+  start: number;
+  end: number;
+  body: string;
+}
+
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'al', 'fig', 'figs', 'eq', 'eqs',
+  'no', 'nos', 'vol', 'vols', 'pp', 'p', 'ch', 'sec', 'ed', 'eds', 'trans', 'approx', 'ca', 'cf',
+  'dept', 'univ', 'inc', 'ltd', 'co', 'corp', 'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug',
+  'sep', 'sept', 'oct', 'nov', 'dec', 'ibid', 'op', 'cit', 'resp', 'viz', 'ref', 'refs'
+]);
+
+const AI_TRIGGER_PHRASES = [
+  'delve', 'delves', 'delving', 'tapestry', 'testament', 'multifaceted', 'intricate', 'pivotal',
+  'underscore', 'underscores', 'realm', 'landscape', 'navigate', 'navigating', 'seamless', 'seamlessly',
+  'robust', 'holistic', 'paramount', 'showcase', 'showcasing', 'foster', 'fostering', 'leverage',
+  'leveraging', 'nuanced', 'moreover', 'furthermore', 'additionally', 'notably', 'comprehensive',
+  'ever-evolving', 'in conclusion', 'in summary', 'it is important to note', 'it is worth noting',
+  'plays a crucial role', 'a rich tapestry', 'in today\'s world', 'shed light on', 'embark on'
+];
+
+const SECTION_NAMES = /^(abstract|summary|introduction|background|literature review|related work|theoretical framework|methodology|methods|materials and methods|results|findings|discussion|analysis|conclusions?|recommendations|limitations|future work|references|bibliography|works cited|sources|acknowledge?ments|appendix\b.*)$/i;
+
+// Language-specific Flesch reading-ease coefficients: [base, per-word-per-sentence, per-syllable-per-word]
+const FLESCH_COEFFICIENTS: Partial<Record<LanguageCode, [number, number, number]>> = {
+  en: [206.835, 1.015, 84.6],   // Flesch (1948)
+  es: [206.84, 1.02, 60],       // Fernández Huerta
+  fr: [207, 1.015, 73.6],       // Kandel & Moles
+  de: [180, 1, 58.5],           // Amstad
+  it: [206, 1, 65],             // Franchina & Vacca
+  pt: [248.835, 1.015, 84.6],   // Martins et al.
+  nl: [206.835, 0.93, 77],      // Douma
+  ru: [206.835, 1.3, 60.1]      // Oborneva
+};
+
+// Sentence length (tokens) at which scripts without a syllable formula read as "difficult"
+const LENGTH_ONLY_THRESHOLD: Partial<Record<LanguageCode, number>> = {
+  zh: 40, ja: 50, ko: 20, ar: 25
+};
+
+const VOWEL_GROUPS: Partial<Record<LanguageCode, RegExp>> = {
+  en: /[aeiouy]+/g,
+  es: /[aeiouáéíóúü]+/g,
+  fr: /[aeiouyàâäéèêëîïôöùûüÿœæ]+/g,
+  de: /[aeiouyäöü]+/g,
+  it: /[aeiouàèéìíîòóùú]+/g,
+  pt: /[aeiouáâãàéêíóôõúü]+/g,
+  nl: /[aeiouyáéíóúëïöü]+/g,
+  ru: /[аеёиоуыэюя]+/g
+};
+
+const STOPWORDS: Partial<Record<LanguageCode, string[]>> = {
+  en: ['the', 'and', 'of', 'to', 'in', 'is', 'that', 'for', 'with', 'as', 'are', 'this', 'by', 'was', 'which'],
+  es: ['el', 'la', 'de', 'que', 'y', 'en', 'los', 'las', 'del', 'por', 'con', 'para', 'una', 'es', 'se'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'que', 'une', 'du', 'dans', 'pour', 'qui', 'sur', 'pas'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'den', 'von', 'zu', 'ein', 'eine', 'auf', 'sich', 'dem'],
+  it: ['il', 'la', 'di', 'che', 'e', 'per', 'un', 'una', 'del', 'della', 'sono', 'non', 'gli', 'con', 'nel'],
+  pt: ['o', 'a', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'uma', 'para', 'com', 'não', 'os', 'as'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'op', 'te', 'zijn', 'met', 'voor', 'niet', 'die', 'worden']
+};
+
+const clamp = (n: number, min = 0, max = 100) => Math.max(min, Math.min(max, n));
+const round = (n: number, digits = 1) => {
+  const f = Math.pow(10, digits);
+  return Math.round(n * f) / f;
+};
+const mean = (xs: number[]) => xs.length ? xs.reduce((s, x) => s + x, 0) / xs.length : 0;
+const variance = (xs: number[]) => {
+  if (xs.length < 2) return 0;
+  const m = mean(xs);
+  return mean(xs.map(x => (x - m) * (x - m)));
+};
+
+export const detectLanguage = (text: string): LanguageCode => {
+  const sample = text.slice(0, 20000);
+  const count = (re: RegExp) => (sample.match(re) || []).length;
+  const kana = count(/[぀-ヿ]/g);
+  const han = count(/[一-鿿]/g);
+  const hangul = count(/[가-힯]/g);
+  const cyrillic = count(/[Ѐ-ӿ]/g);
+  const arabic = count(/[؀-ۿ]/g);
+  const latin = count(/[a-zA-ZÀ-ɏ]/g);
+
+  const scripts: [LanguageCode, number][] = [['ja', kana], ['zh', han], ['ko', hangul], ['ru', cyrillic], ['ar', arabic]];
+  const [topScript, topCount] = scripts.reduce((best, cur) => cur[1] > best[1] ? cur : best);
+  if (topCount > latin) return kana > 0 && topScript === 'zh' ? 'ja' : topScript;
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) || [];
+  const freq = new Map<string, number>();
+  words.forEach(w => freq.set(w, (freq.get(w) || 0) + 1));
+
+  let best: LanguageCode = 'en';
+  let bestScore = 0;
+  (Object.keys(STOPWORDS) as LanguageCode[]).forEach(lang => {
+    const score = STOPWORDS[lang]!.reduce((s, w) => s + (freq.get(w) || 0), 0);
+    if (score > bestScore) {
+      best = lang;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export const tokenizeWords = (text: string, language: LanguageCode = 'en'): string[] => {
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) || [];
+  if (language !== 'zh' && language !== 'ja') return tokens;
+  // Han and kana runs carry no word delimiters; each character is one token
+  return tokens.flatMap(t => /[぀-ヿ一-鿿]/.test(t) ? Array.from(t) : [t]);
+};
+
+const isAbbreviation = (text: string, dotIndex: number): boolean => {
+  // Bounded look-around keeps this O(1) per terminator on book-length text
+  const before = text.slice(Math.max(0, dotIndex - 64), dotIndex).match(/(\S+)$/);
+  if (!before) return false;
+  const token = before[1].replace(/^[("'“‘\[]+/, '').toLowerCase();
+  if (/^\p{L}$/u.test(token)) return true;
+  if (ABBREVIATIONS.has(token) || token.includes('.')) return true;
+  const next = text.slice(dotIndex + 1, dotIndex + 65).match(/^\s*(\S)/);
+  return !!next && /\p{Ll}/u.test(next[1]);
+};
+
+const SENTENCE_TERMINATORS = /[.!?؟]+["'”’»)\]]*(?=\s|$)|[。！？]+["'”’」』)]*/g;
+
+/** Offsets just past each sentence terminator, measured on the raw text. */
+export const sentenceEnds = (text: string): number[] => {
+  const ends: number[] = [];
+  const terminators = new RegExp(SENTENCE_TERMINATORS.source, 'g');
+  let m: RegExpExecArray | null;
+  while ((m = terminators.exec(text)) !== null) {
+    if (m[0] === '.' && isAbbreviation(text, m.index)) continue;
+    ends.push(m.index + m[0].length);
+  }
+  return ends;
+};
+
+export const segmentSentences = (text: string): string[] => {
+  const sentences: string[] = [];
+  const push = (s: string) => { if (/[\p{L}\p{N}]/u.test(s)) sentences.push(s); };
+
+  for (const block of text.split(/\n\s*\n/)) {
+    const flat = block.replace(/\s+/g, ' ').trim();
+    if (!flat) continue;
+    const terminators = new RegExp(SENTENCE_TERMINATORS.source, 'g');
+    let start = 0;
+    let m: RegExpExecArray | null;
+    while ((m = terminators.exec(flat)) !== null) {
+      if (m[0] === '.' && isAbbreviation(flat, m.index)) continue;
+      const end = m.index + m[0].length;
+      push(flat.slice(start, end).trim());
+      start = end;
+    }
+    push(flat.slice(start).trim());
+  }
+  return sentences;
+};
+
+export const countSyllables = (word: string, language: LanguageCode = 'en'): number => {
+  const vowels = VOWEL_GROUPS[language];
+  if (!vowels) return 1;
+  let w = word.toLowerCase();
+  if (language === 'en' && w.length > 3) {
+    w = w.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, m => m.charAt(0)).replace(/^y/, '');
+  }
+  return Math.max(1, (w.match(vowels) || []).length);
+};
+
+export const isHeadingLine = (line: string): boolean => {
+  const t = line.trim();
+  if (!t || t.length > 90) return false;
+  if (/^#{1,6}\s+\S/.test(t)) return true;
+  if (/[.!?,;:。！？]$/.test(t)) return false;
+  if (SECTION_NAMES.test(t.replace(/^(?:\d+(?:\.\d+)*\.?|[IVX]+\.?)\s+/, ''))) return true;
+  if (/^(\d+(\.\d+)*|[IVX]+)\.?\s+\p{Lu}/u.test(t) && t.split(/\s+/).length <= 12) return true;
+  const letters = t.replace(/[^\p{L}]/gu, '');
+  return letters.length >= 4 && letters === letters.toUpperCase() && letters !== letters.toLowerCase();
+};
+
+/**
+ * Splits a document on heading lines. Text before the first heading becomes
+ * "Front Matter"; a document without headings is one "Document" section.
+ */
+export const splitSections = (text: string): DocumentSection[] => {
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection = { heading: 'Front Matter', start: 0, end: 0, body: '' };
+  let bodyStart = 0;
+  let offset = 0;
+
+  const close = (end: number) => {
+    current.end = end;
+    current.body = text.slice(bodyStart, end).trim();
+    if (current.body || current.heading !== 'Front Matter') sections.push(current);
+  };
+
+  for (const line of text.split('\n')) {
+    const lineEnd = offset + line.length;
+    if (isHeadingLine(line)) {
+      close(offset);
+      current = { heading: line.trim().replace(/^#{1,6}\s+/, ''), start: offset, end: 0, body: '' };
+      bodyStart = lineEnd;
+    }
+    offset = lineEnd + 1;
+  }
+  close(text.length);
+
+  if (sections.length === 1 && sections[0].heading === 'Front Matter') sections[0].heading = 'Document';
+  return sections;
+};
+
+interface TextStats {
+  tokens: string[];
+  sentenceLengths: number[];
+  syllables: number;
+  complexWords: number;
+}
+
+const collectStats = (text: string, language: LanguageCode): TextStats => {
+  const sentenceLengths = segmentSentences(text)
+    .map(s => tokenizeWords(s, language).length)
+    .filter(n => n > 0);
+  const tokens = tokenizeWords(text, language);
+  let syllables = 0;
+  let complexWords = 0;
+  if (VOWEL_GROUPS[language]) {
+    tokens.forEach(t => {
+      const n = countSyllables(t, language);
+      syllables += n;
+      if (n >= 3) complexWords++;
+    });
+  }
+  return { tokens, sentenceLengths, syllables, complexWords };
+};
+
+const readingEase = (stats: TextStats, language: LanguageCode): number => {
+  const words = stats.tokens.length;
+  const sentences = stats.sentenceLengths.length;
+  if (!words || !sentences) return 0;
+  const wordsPerSentence = words / sentences;
+  const coefficients = FLESCH_COEFFICIENTS[language];
+  if (coefficients) {
+    const [base, perSentence, perSyllable] = coefficients;
+    return clamp(base - perSentence * wordsPerSentence - perSyllable * (stats.syllables / words));
+  }
+  // Length-only heuristic for scripts without a validated syllable formula
+  const threshold = LENGTH_ONLY_THRESHOLD[language] || 25;
+  return clamp(100 - (wordsPerSentence / threshold) * 50);
+};
+
+const gunningFog = (stats: TextStats, language: LanguageCode): number | undefined => {
+  const words = stats.tokens.length;
+  const sentences = stats.sentenceLengths.length;
+  if (!FLESCH_COEFFICIENTS[language] || !words || !sentences) return undefined;
+  return 0.4 * (words / sentences + 100 * (stats.complexWords / words));
+};
+
+// Moving-average type/token ratio; unlike raw TTR it does not fall with document length
+const movingTypeTokenRatio = (tokens: string[], window = 50): number => {
+  if (tokens.length <= window) return tokens.length ? new Set(tokens).size / tokens.length : 0;
+  const counts = new Map<string, number>();
+  tokens.slice(0, window).forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+  let total = counts.size;
+  for (let i = window; i < tokens.length; i++) {
+    const out = tokens[i - window];
+    const left = counts.get(out)! - 1;
+    if (left === 0) counts.delete(out); else counts.set(out, left);
+    counts.set(tokens[i], (counts.get(tokens[i]) || 0) + 1);
+    total += counts.size;
+  }
+  return total / (tokens.length - window + 1) / window;
+};
+
+const findTriggerWords = (text: string, language: LanguageCode): string[] => {
+  if (language !== 'en') return [];
+  const lower = text.toLowerCase().replace(/[’]/g, "'");
+  const hits = AI_TRIGGER_PHRASES
+    .map(phrase => {
+      const re = new RegExp(`\\b${phrase.replace(/[-']/g, m => `\\${m}`)}\\b`, 'g');
+      return { phrase, count: (lower.match(re) || []).length };
+    })
+    .filter(h => h.count > 0);
+  return hits.sort((a, b) => b.count - a.count || a.phrase.localeCompare(b.phrase)).map(h => h.phrase);
+};
+
+const buildRadarMetrics = (stats: TextStats, readability: number, aiProbability: number): RadarMetric[] => {
+  const lengths = stats.sentenceLengths;
+  const avg = mean(lengths);
+  const variation = avg ? Math.sqrt(variance(lengths)) / avg : 0;
+  let shifts = 0;
+  for (let i = 1; i < lengths.length; i++) {
+    if (Math.abs(lengths[i] - lengths[i - 1]) >= 0.25 * Math.max(lengths[i], lengths[i - 1])) shifts++;
+  }
+  const rhythm = lengths.length > 1 ? shifts / (lengths.length - 1) : 0;
+
+  return [
+    { subject: 'Human Score', A: Math.round(clamp(100 - aiProbability)), fullMark: 100 },
+    { subject: 'Natural Flow', A: Math.round(readability), fullMark: 100 },
+    { subject: 'Sentence Variety', A: Math.round(clamp((variation / 0.6) * 100)), fullMark: 100 },
+    { subject: 'Language Style', A: Math.round(clamp(movingTypeTokenRatio(stats.tokens) * 100)), fullMark: 100 },
+    { subject: 'Writing Rhythm', A: Math.round(clamp(rhythm * 100)), fullMark: 100 }
+  ];
+};
+
+const sectionForensics = (section: DocumentSection, language: LanguageCode): SectionForensics => {
+  const stats = collectStats(section.body, language);
+  return {
+    heading: section.heading,
+    start: section.start,
+    end: section.end,
+    wordCount: stats.tokens.length,
+    sentenceCount: stats.sentenceLengths.length,
+    avgSentenceLength: round(mean(stats.sentenceLengths)),
+    sentenceVariance: round(variance(stats.sentenceLengths)),
+    uniqueWordRatio: round(stats.tokens.length ? new Set(stats.tokens).size / stats.tokens.length : 0, 2),
+    readabilityScore: round(readingEase(stats, language))
+  };
+};
+
+export const computeForensics = (text: string, aiProbability: number, language: LanguageCode = detectLanguage(text)): ForensicData => {
+  const sections = splitSections(text);
+  const body = sections.map(s => s.body).join('\n\n');
+  const stats = collectStats(body, language);
+  const readability = readingEase(stats, language);
+  const fog = gunningFog(stats, language);
+
+  return {
+    avgSentenceLength: round(mean(stats.sentenceLengths)),
+    sentenceVariance: round(variance(stats.sentenceLengths)),
+    uniqueWordRatio: round(stats.tokens.length ? new Set(stats.tokens).size / stats.tokens.length : 0, 2),
+    readabilityScore: round(readability),
+    aiProbability,
+    aiTriggerWordsFound: findTriggerWords(body, language),
+    radarMetrics: buildRadarMetrics(stats, readability, aiProbability),
+    gunningFog: fog === undefined ? undefined : round(fog),
+    language,
+    sections: sections.map(s => sectionForensics(s, language))
+  };
+};
@@ -243,6 +243,9 @@ export const Telemetry = {
     await Telemetry.addLogLocal('TRANSACTION', `Amount: ${amount} NGN | ID: ${id}`);
   },
   logError: async (msg: string) => { Telemetry.addLogLocal('ERROR', msg); },
+  logCancel: async (job: string, progress: number) => {
+    Telemetry.addLogLocal('CANCEL', `${job}: Cancelled at ${progress}%`);
+  },
   logFeedback: async (rating: number, msg: string) => { 
     await Telemetry.addLogLocal('FEEDBACK', `Rating: ${rating}/5 | Msg: ${msg}`); 
   }
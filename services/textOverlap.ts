@@ -0,0 +1,112 @@
+import { MatchedRange } from '../types';
+
+/**
+ * TEXT OVERLAP
+ * Scores a source snippet against the analysed document with word shingles
+ * (runs of SHINGLE_SIZE consecutive words). Runs of matching shingles are
+ * extended word by word into matched ranges, reported as character offsets in
+ * both the snippet and the document. Han characters count as one word each, so
+ * Chinese and Japanese text is not treated as one giant token.
+ */
+
+export interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface OverlapIndex {
+  tokens: Token[];
+  shingles: Map<string, number[]>;
+}
+
+export interface OverlapResult {
+  /** Share of the snippet's words found in the document, 0-100. */
+  similarity: number;
+  /** Share of the document's words covered by the matched ranges, 0-100. */
+  impact: number;
+  ranges: MatchedRange[];
+}
+
+const SHINGLE_SIZE = 4;
+// Shorter snippets match common phrases by chance, so they are not scored
+const MIN_SNIPPET_WORDS = 3;
+// Caps the work spent on very common shingles (boilerplate, repeated headings)
+const MAX_CANDIDATES = 32;
+
+const WORD = /\p{Script=Han}|[\p{L}\p{N}]+/gu;
+
+export const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const m of text.matchAll(WORD)) {
+    tokens.push({ word: m[0].toLowerCase(), start: m.index!, end: m.index! + m[0].length });
+  }
+  return tokens;
+};
+
+const shingleKey = (tokens: Token[], at: number, size: number) =>
+  tokens.slice(at, at + size).map(t => t.word).join(' ');
+
+/** Index the document once, then score any number of snippets against it. */
+export const buildOverlapIndex = (text: string): OverlapIndex => {
+  const tokens = tokenize(text);
+  const shingles = new Map<string, number[]>();
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    const key = shingleKey(tokens, i, SHINGLE_SIZE);
+    const at = shingles.get(key);
+    if (at) at.push(i);
+    else shingles.set(key, [i]);
+  }
+  return { tokens, shingles };
+};
+
+// Snippets shorter than one shingle are looked up word by word
+const candidatesFor = (index: OverlapIndex, snippet: Token[], at: number, size: number): number[] => {
+  if (size === SHINGLE_SIZE) return index.shingles.get(shingleKey(snippet, at, size)) || [];
+  const key = shingleKey(snippet, at, size);
+  const found: number[] = [];
+  for (let i = 0; i + size <= index.tokens.length && found.length < MAX_CANDIDATES; i++) {
+    if (shingleKey(index.tokens, i, size) === key) found.push(i);
+  }
+  return found;
+};
+
+export const scoreOverlap = (index: OverlapIndex, snippet: string): OverlapResult => {
+  const tokens = tokenize(snippet);
+  const size = Math.min(SHINGLE_SIZE, tokens.length);
+  if (tokens.length < MIN_SNIPPET_WORDS || index.tokens.length < size) return { similarity: 0, impact: 0, ranges: [] };
+
+  const ranges: MatchedRange[] = [];
+  let covered = 0;
+  let i = 0;
+  while (i + size <= tokens.length) {
+    let bestAt = -1;
+    let bestLength = 0;
+    candidatesFor(index, tokens, i, size).slice(0, MAX_CANDIDATES).forEach(p => {
+      let length = size;
+      while (i + length < tokens.length && p + length < index.tokens.length && tokens[i + length].word === index.tokens[p + length].word) length++;
+      if (length > bestLength) {
+        bestAt = p;
+        bestLength = length;
+      }
+    });
+    if (bestAt < 0) {
+      i++;
+      continue;
+    }
+    ranges.push({
+      sourceStart: tokens[i].start,
+      sourceEnd: tokens[i + bestLength - 1].end,
+      documentStart: index.tokens[bestAt].start,
+      documentEnd: index.tokens[bestAt + bestLength - 1].end
+    });
+    covered += bestLength;
+    i += bestLength;
+  }
+
+  return {
+    similarity: Math.round((covered / tokens.length) * 100),
+    impact: Math.round((covered / index.tokens.length) * 1000) / 10,
+    ranges
+  };
+};
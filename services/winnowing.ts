@@ -0,0 +1,70 @@
+import { Token, tokenize } from './textOverlap';
+
+/**
+ * WINNOWING FINGERPRINTS
+ * MOSS-style document fingerprints: hash every run of K consecutive words, then
+ * keep the smallest hash of each WINDOW consecutive hashes. Two texts that share
+ * a run of at least K + WINDOW - 1 words are guaranteed to share a fingerprint,
+ * while each document keeps only about 2 / (WINDOW + 1) of its k-gram hashes.
+ */
+
+export interface Fingerprint {
+  hash: number;
+  /** Index of the first word of the k-gram. */
+  tokenIndex: number;
+  start: number;
+  end: number;
+}
+
+export const FINGERPRINT_K = 5;
+export const FINGERPRINT_WINDOW = 4;
+
+// 32-bit FNV-1a; fingerprints only need to be well spread, not collision-proof
+const fnv1a = (input: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const kgramHashes = (tokens: Token[], k: number): number[] => {
+  const hashes: number[] = [];
+  for (let i = 0; i + k <= tokens.length; i++) {
+    hashes.push(fnv1a(tokens.slice(i, i + k).map(t => t.word).join(' ')));
+  }
+  return hashes;
+};
+
+/** Winnows any token stream; offsets in the fingerprints are the tokens' own. */
+export const winnowTokens = (tokens: Token[], k = FINGERPRINT_K, windowSize = FINGERPRINT_WINDOW): Fingerprint[] => {
+  const hashes = kgramHashes(tokens, k);
+  const fingerprints: Fingerprint[] = [];
+  if (hashes.length === 0) return fingerprints;
+  const record = (i: number) => fingerprints.push({
+    hash: hashes[i],
+    tokenIndex: i,
+    start: tokens[i].start,
+    end: tokens[i + k - 1].end
+  });
+
+  // Texts shorter than one window still get their single smallest k-gram
+  const window = Math.min(windowSize, hashes.length);
+  let last = -1;
+  for (let w = 0; w + window <= hashes.length; w++) {
+    // Rightmost minimum, as in the winnowing paper; a position selected by several windows is recorded once
+    let min = w;
+    for (let i = w + 1; i < w + window; i++) if (hashes[i] <= hashes[min]) min = i;
+    if (min !== last) {
+      record(min);
+      last = min;
+    }
+  }
+  return fingerprints;
+};
+
+export const winnow = (text: string): { fingerprints: Fingerprint[]; wordCount: number } => {
+  const tokens = tokenize(text);
+  return { fingerprints: winnowTokens(tokens), wordCount: tokens.length };
+};
@@ -17,11 +17,51 @@ export interface DocumentVersion {
   bibliography?: SourceMatch[];
 }
 
+export type ErrorCode =
+  | 'SCAN_FAILURE'
+  | 'FIX_FAILURE'
+  | 'MALFORMED_RESPONSE'
+  | 'QUOTA_EXCEEDED'
+  | 'AUTH_FAILURE'
+  | 'SAFETY_BLOCK'
+  | 'RECITATION_BLOCK'
+  | 'OUTPUT_TRUNCATED'
+  | 'INPUT_TOO_LARGE'
+  | 'NETWORK_FAILURE'
+  | 'TIMEOUT'
+  | 'SERVICE_UNAVAILABLE';
+
 export interface ErrorContext {
-  code: string;
+  code: ErrorCode;
   message: string;
   actionableAdvice: string;
   technicalDetails?: string;
+  resumable?: boolean;
+}
+
+/** A run of words shared by a source snippet and the document, as character offsets in each. */
+export interface MatchedRange {
+  sourceStart: number;
+  sourceEnd: number;
+  documentStart: number;
+  documentEnd: number;
+}
+
+/** A person's name split for citation; organisations have a family name only. */
+export interface CitationName {
+  family: string;
+  given?: string;
+}
+
+/** Bibliographic fields of a SourceMatch that metadata resolution can confirm. */
+export type CitationField = 'title' | 'authors' | 'year' | 'container' | 'volume' | 'issue' | 'pages' | 'doi' | 'publisher';
+
+/** Where a source's bibliographic fields were confirmed; fields not listed are still the model's guesses. */
+export interface MetadataVerification {
+  resolver: string;
+  /** The identifier that resolved, e.g. "DOI 10.1000/xyz123". */
+  identifier: string;
+  fields: CitationField[];
 }
 
 export interface SourceMatch {
@@ -29,12 +69,36 @@ export interface SourceMatch {
   url: string;
   title: string;
   snippet: string;
+  /** Share of the snippet's words found in the document, 0-100. */
   similarity: number;
+  /** Share of the document's words matched by this source, 0-100. */
   impactScore: number;
-  type: 'JOURNAL' | 'BOOK' | 'WEB' | 'INSTITUTIONAL';
+  type: 'JOURNAL' | 'BOOK' | 'WEB' | 'INSTITUTIONAL' | 'CORPUS';
   author?: string;
   year?: string;
+  /** The model's own rendering; reference lists are formatted locally from the fields below. */
   fullCitation?: string;
+  authors?: CitationName[];
+  /** Journal, book series or website the work appeared in. */
+  container?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  /** Bare DOI, e.g. "10.1000/xyz123", without the resolver prefix. */
+  doi?: string;
+  publisher?: string;
+  /** ISO date (YYYY-MM-DD) the source was found online. */
+  accessed?: string;
+  matchedRanges?: MatchedRange[];
+  /** Language the source is written in, set on cross-language matches. */
+  language?: LanguageCode;
+  /** Matched through a translation of the document rather than its own wording. */
+  crossLingual?: boolean;
+  /** Added from an imported BibTeX, RIS or CSL-JSON file rather than found by analysis. */
+  imported?: boolean;
+  /** The entry as written in the document's own reference list. */
+  referenceText?: string;
+  verification?: MetadataVerification;
 }
 
 export interface RadarMetric {
@@ -44,20 +108,147 @@ export interface RadarMetric {
 }
 
 export interface ParagraphAnalysis {
+  index: number;
+  start: number;
+  end: number;
   text: string;
   riskScore: number;
   matchType: "AI" | "PLAGIARISM" | "SAFE";
   evidence: string;
+  sourceIds: string[];
+}
+
+export interface FlaggedPassage {
+  excerpt: string;
+  matchType: "AI" | "PLAGIARISM";
+  riskScore: number;
+  reason: string;
+  sourceUrl?: string;
+}
+
+export type LanguageCode = 'en' | 'es' | 'fr' | 'de' | 'it' | 'pt' | 'nl' | 'zh' | 'ja' | 'ko' | 'ru' | 'ar';
+
+export interface SectionForensics {
+  heading: string;
+  start: number;
+  end: number;
+  wordCount: number;
+  sentenceCount: number;
+  avgSentenceLength: number;
+  sentenceVariance: number;
+  uniqueWordRatio: number;
+  readabilityScore: number;
 }
 
 export interface ForensicData {
   avgSentenceLength: number;
-  sentenceVariance: number; 
-  uniqueWordRatio: number; 
+  sentenceVariance: number;
+  uniqueWordRatio: number;
   readabilityScore: number;
   aiProbability: number;
   aiTriggerWordsFound: string[];
   radarMetrics?: RadarMetric[];
+  gunningFog?: number;
+  language?: LanguageCode;
+  sections?: SectionForensics[];
+}
+
+export interface SectionScore {
+  heading: string;
+  start: number;
+  end: number;
+  weight: number; // share of the document's text, 0-1
+  plagiarismScore: number;
+  aiProbability: number;
+}
+
+export interface ScoreBreakdown {
+  method: 'LENGTH_WEIGHTED';
+  chunkCount: number;
+  sections: SectionScore[];
+  explanation: {
+    plagiarismScore: string;
+    aiProbability: string;
+  };
+}
+
+export type ChunkDiagnosticStatus = 'OK' | 'BLOCKED' | 'TRUNCATED';
+
+/** How the model finished one analysis chunk; non-OK chunks are left out of the scores. */
+export interface ChunkDiagnostic {
+  index: number;
+  start: number;
+  end: number;
+  status: ChunkDiagnosticStatus;
+  finishReason?: string;
+  reason?: string;
+}
+
+/** Whether a supplementary check ran to the end; a failed one reports no matches because it never finished. */
+export interface CheckOutcome {
+  status: 'OK' | 'FAILED';
+  reason?: string;
+}
+
+export type CodeLanguage =
+  | 'python' | 'javascript' | 'typescript' | 'java' | 'csharp' | 'c' | 'cpp' | 'go'
+  | 'rust' | 'php' | 'ruby' | 'sql' | 'shell' | 'r' | 'matlab' | 'unknown';
+
+/** FENCED covers Markdown fences and monospaced DOCX paragraphs, which the parser fences. */
+export type CodeBlockOrigin = 'FENCED' | 'INDENTED';
+
+export interface CodeBlock {
+  /** Offsets of the code itself, without the fence lines. */
+  start: number;
+  end: number;
+  language: CodeLanguage;
+  origin: CodeBlockOrigin;
+  lineCount: number;
+}
+
+export interface CodeMatch {
+  /** Index into CodeAnalysis.blocks. */
+  block: number;
+  sourceId: string;
+  sourceUrl: string;
+  sourceTitle: string;
+  /** Kind of corpus entry, e.g. "Prior submission". */
+  sourceLabel: string;
+  sourceLanguage: CodeLanguage;
+  /** The matching code block in the source. */
+  excerpt: string;
+  /** Share of the block's normalized tokens found in the source, 0-100. */
+  similarity: number;
+  /** Source offsets are in the excerpt, document offsets in the checked text. */
+  matchedRanges: MatchedRange[];
+}
+
+/** Code listings are fingerprinted as token streams and reported apart from prose. */
+export interface CodeAnalysis {
+  blocks: CodeBlock[];
+  matches: CodeMatch[];
+}
+
+export type ExclusionZoneKind = 'QUOTE' | 'BLOCK_QUOTE' | 'BIBLIOGRAPHY';
+
+/** A span of the document a reviewer may leave out of the similarity score. */
+export interface ExclusionZone {
+  kind: ExclusionZoneKind;
+  start: number;
+  end: number;
+}
+
+/** Report filters, applied to the stored results without another model call. */
+export interface ExclusionSettings {
+  /** Covers inline quotations and block quotes. */
+  excludeQuotes: boolean;
+  excludeBibliography: boolean;
+  /** Matched runs shorter than this many words are ignored; 0 keeps them all. */
+  minMatchWords: number;
+  /** Source URLs left out of the score. */
+  excludedSources: string[];
+  /** Host names, without "www.", whose sources are left out of the score. */
+  excludedDomains: string[];
 }
 
 export interface AnalysisResult {
@@ -69,6 +260,26 @@ export interface AnalysisResult {
   paragraphBreakdown: ParagraphAnalysis[];
   sourcesFound: SourceMatch[]; 
   forensics: ForensicData;
+  scoreBreakdown?: ScoreBreakdown;
+  chunkDiagnostics?: ChunkDiagnostic[];
+  /** Matching against the local corpus; older results predate it. */
+  corpusCheck?: CheckOutcome;
+  /** Set when the paraphrase check was requested. */
+  paraphraseCheck?: CheckOutcome;
+  /** Set when the cross-language check was requested. */
+  crossLingualCheck?: CheckOutcome;
+  codeAnalysis?: CodeAnalysis;
+  exclusionZones?: ExclusionZone[];
+  /** Entries parsed from the document's own reference list. */
+  referenceList?: SourceMatch[];
+  exclusions?: ExclusionSettings;
+}
+
+export interface AnalysisOptions {
+  /** Also compare sentences by meaning, to catch reworded copying. Slower on long documents. */
+  paraphraseCheck?: boolean;
+  /** Also translate passages and compare them with sources written in other languages. Uses extra model calls. */
+  crossLingual?: boolean;
 }
 
 export type HumanizeMode = 'Standard' | 'Ghost' | 'Academic' | 'Creative' | 'IvyStealth';
@@ -139,6 +350,22 @@ export interface FixOptions {
   styleProfileId?: string;
 }
 
+export type ChunkOutcomeStatus = 'OK' | 'PARTIAL' | 'FAILED';
+
+export interface RewriteChunkOutcome {
+  id: string;
+  index: number;
+  status: ChunkOutcomeStatus;
+  sourceStart: number;
+  sourceEnd: number;
+  output: string;
+  /** Where `output` sits in the stitched rewrittenText. */
+  outputStart: number;
+  outputEnd: number;
+  note?: string;
+  finishReason?: string;
+}
+
 export interface FixResult {
   rewrittenText: string;
   newPlagiarismScore: number;
@@ -146,6 +373,7 @@ export interface FixResult {
   improvementsMade: string[];
   bibliography?: SourceMatch[];
   fidelityMap?: RadarMetric[];
+  chunkOutcomes?: RewriteChunkOutcome[];
 }
 
 export interface SlideContent {
@@ -168,7 +396,7 @@ export interface DocumentState {
   fileName?: string;
 }
 
-export type LogType = 'SCAN' | 'FIX' | 'ERROR' | 'VISIT' | 'DONATION' | 'FEEDBACK' | 'TRANSACTION' | 'FEATURE';
+export type LogType = 'SCAN' | 'FIX' | 'ERROR' | 'VISIT' | 'DONATION' | 'FEEDBACK' | 'TRANSACTION' | 'FEATURE' | 'CANCEL';
 
 export interface LogEntry {
   timestamp: number;
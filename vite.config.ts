@@ -1,17 +1,53 @@
-
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import fs from 'fs';
+import path from 'path';
+
+// Dev-only endpoint used by LLM_PROVIDER=record to write responses into fixtures/llm
+const llmFixtureRecorder = (): Plugin => ({
+  name: 'llm-fixture-recorder',
+  apply: 'serve',
+  configureServer(server) {
+    const fixtureDir = path.resolve(server.config.root, 'fixtures/llm');
+    server.middlewares.use('/__llm-fixtures', (req, res) => {
+      if (req.method !== 'POST') {
+        res.statusCode = 405;
+        res.end();
+        return;
+      }
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        try {
+          const fixture = JSON.parse(body);
+          const name = `${fixture.task}-${fixture.key}.json`.replace(/[^\w.-]/g, '');
+          fs.mkdirSync(fixtureDir, { recursive: true });
+          fs.writeFileSync(path.join(fixtureDir, name), JSON.stringify(fixture, null, 2) + '\n');
+          res.statusCode = 201;
+          res.end();
+        } catch (e: any) {
+          res.statusCode = 400;
+          res.end(e.message);
+        }
+      });
+    });
+  }
+});
 
 export default defineConfig(({ mode }) => {
   // Load env file based on `mode` in the current working directory.
   const env = loadEnv(mode, (process as any).cwd(), '');
-  
+
   return {
-    plugins: [react()],
+    plugins: [react(), llmFixtureRecorder()],
     define: {
       // Ensure API_KEY and PAYSTACK_PUBLIC_KEY are available in the client build
       'process.env.API_KEY': JSON.stringify(process.env.API_KEY || env.API_KEY || ''),
-      'process.env.PAYSTACK_PUBLIC_KEY': JSON.stringify(process.env.PAYSTACK_PUBLIC_KEY || env.PAYSTACK_PUBLIC_KEY || '')
+      'process.env.PAYSTACK_PUBLIC_KEY': JSON.stringify(process.env.PAYSTACK_PUBLIC_KEY || env.PAYSTACK_PUBLIC_KEY || ''),
+      // gemini (default), fixture (offline replay) or record
+      'process.env.LLM_PROVIDER': JSON.stringify(process.env.LLM_PROVIDER || env.LLM_PROVIDER || 'gemini'),
+      // crossref (default) or fixture (offline records); empty follows LLM_PROVIDER
+      'process.env.METADATA_RESOLVER': JSON.stringify(process.env.METADATA_RESOLVER || env.METADATA_RESOLVER || '')
     },
     server: {
       port: 8080,